@@ -1,23 +1,24 @@
 import readline from 'readline';
 
-import { getCurrentVersion, printAvailableCommands, printCommandDetail } from '../commands/index.js';
+import {
+  ValidationError,
+  findCommand,
+  getCurrentVersion,
+  parseCommandArgs,
+  printAvailableCommands,
+  printCommandDetail,
+  splitCommandLine,
+} from '../commands/index.js';
 import { COMMANDS } from '../config/index.js';
 import {
-  addComment,
   clearClients,
-  createPage,
-  deletePage,
-  downloadAttachment,
-  getPage,
-  getSpace,
-  getUser,
-  listPages,
-  listSpaces,
+  getActiveProfile,
+  listProfiles,
   loadConfig,
-  testConnection,
-  updatePage,
+  loadProjectConfig,
+  setActiveProfile,
 } from '../utils/index.js';
-import type { Config } from '../utils/index.js';
+import type { Config, ProjectConfig } from '../utils/index.js';
 
 /**
  * Main CLI class for Confluence interaction
@@ -25,6 +26,7 @@ import type { Config } from '../utils/index.js';
 export class wrapper {
   private rl: readline.Interface;
   private config: Config | null = null;
+  private project: ProjectConfig | undefined;
   private currentFormat: 'json' | 'toon' = 'json';
 
   constructor() {
@@ -40,7 +42,10 @@ export class wrapper {
    */
   async connect(): Promise<void> {
     try {
-      this.config = loadConfig();
+      this.project = loadProjectConfig();
+      const profile = getActiveProfile();
+      this.config = loadConfig(profile);
+      setActiveProfile(profile, this.config);
       this.currentFormat = this.config.defaultFormat;
       this.printHelp();
     } catch (error: unknown) {
@@ -98,12 +103,25 @@ export class wrapper {
       return;
     }
 
+    if (trimmed === 'profile' || trimmed.startsWith('profile ')) {
+      this.switchProfile(trimmed.substring(7).trim());
+      this.rl.prompt();
+      return;
+    }
+
     // Parse command invocation: command [args...]
     const firstSpaceIndex = trimmed.indexOf(' ');
-    const command = firstSpaceIndex === -1 ? trimmed : trimmed.substring(0, firstSpaceIndex);
-    const arg = firstSpaceIndex === -1 ? '' : trimmed.substring(firstSpaceIndex + 1).trim();
+    let command = firstSpaceIndex === -1 ? trimmed : trimmed.substring(0, firstSpaceIndex);
+    let arg = firstSpaceIndex === -1 ? '' : trimmed.substring(firstSpaceIndex + 1).trim();
+
+    // Two-word commands (`sync status`) name their hyphenated form
+    const [subcommand] = arg.split(/\s+/, 1);
+    if (subcommand && COMMANDS.includes(`${command}-${subcommand}`)) {
+      command = `${command}-${subcommand}`;
+      arg = arg.substring(subcommand.length).trim();
+    }
 
-    if (arg === '-h') {
+    if (arg === '-h' || arg === '--help') {
       printCommandDetail(command);
       this.rl.prompt();
       return;
@@ -112,10 +130,34 @@ export class wrapper {
     await this.runCommand(command, arg);
   }
 
+  /**
+   * Switches the active connection profile, or lists profiles when no name is given
+   * The current profile stays active if the new one cannot be loaded.
+   * @param name - Profile name to switch to
+   */
+  private switchProfile(name: string): void {
+    try {
+      if (!name) {
+        const current = this.config?.profile;
+        listProfiles().forEach(profile => console.log(`${profile === current ? '*' : ' '} ${profile}`));
+        return;
+      }
+
+      const config = loadConfig(name);
+      setActiveProfile(name, config);
+      this.config = config;
+      this.currentFormat = config.defaultFormat;
+      console.log(`Switched to profile: ${name} (${config.host})`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`ERROR: ${errorMessage}`);
+    }
+  }
+
   /**
    * Runs a Confluence command
    * @param command - The command name to execute
-   * @param arg - JSON string or empty string for the command arguments
+   * @param arg - JSON string, flags, or empty string for the command arguments
    */
   private async runCommand(command: string, arg: string): Promise<void> {
     if (!this.config) {
@@ -124,98 +166,19 @@ export class wrapper {
       return;
     }
 
+    const definition = findCommand(command);
+    if (!definition) {
+      console.error(`Unknown command: ${command}. Type "commands" to see available commands.`);
+      this.rl.prompt();
+      return;
+    }
+
     try {
-      // Parse arguments
-      const args = arg && arg.trim() !== '' ? JSON.parse(arg) : {};
-      const format = args.format || this.currentFormat;
-
-      let result;
-
-      switch (command) {
-        case 'list-spaces':
-          result = await listSpaces(format);
-          break;
-
-        case 'get-space':
-          if (!args.spaceKey) {
-            console.error('ERROR: "spaceKey" parameter is required');
-            this.rl.prompt();
-            return;
-          }
-          result = await getSpace(args.spaceKey, format);
-          break;
-
-        case 'list-pages':
-          result = await listPages(args.spaceKey, args.title, args.limit, args.start, format);
-          break;
-
-        case 'get-page':
-          if (!args.pageId) {
-            console.error('ERROR: "pageId" parameter is required');
-            this.rl.prompt();
-            return;
-          }
-          result = await getPage(args.pageId, format);
-          break;
-
-        case 'create-page':
-          if (!args.spaceKey || !args.title || !args.body) {
-            console.error('ERROR: "spaceKey", "title", and "body" parameters are required');
-            this.rl.prompt();
-            return;
-          }
-          result = await createPage(args.spaceKey, args.title, args.body, args.parentId, format);
-          break;
-
-        case 'update-page':
-          if (!args.pageId || !args.title || !args.body || args.version === undefined) {
-            console.error('ERROR: "pageId", "title", "body", and "version" parameters are required');
-            this.rl.prompt();
-            return;
-          }
-          result = await updatePage(args.pageId, args.title, args.body, args.version);
-          break;
-
-        case 'add-comment':
-          if (!args.pageId || !args.body) {
-            console.error('ERROR: "pageId" and "body" parameters are required');
-            this.rl.prompt();
-            return;
-          }
-          result = await addComment(args.pageId, args.body, format);
-          break;
-
-        case 'delete-page':
-          if (!args.pageId) {
-            console.error('ERROR: "pageId" parameter is required');
-            this.rl.prompt();
-            return;
-          }
-          result = await deletePage(args.pageId);
-          break;
-
-        case 'download-attachment':
-          if (!args.attachmentId) {
-            console.error('ERROR: "attachmentId" parameter is required');
-            this.rl.prompt();
-            return;
-          }
-          result = await downloadAttachment(args.attachmentId, args.outputPath);
-          break;
-
-        case 'get-user':
-          result = await getUser(args.accountId, args.username, format);
-          break;
-
-        case 'test-connection':
-          result = await testConnection();
-          break;
-
-        default:
-          console.error(`Unknown command: ${command}. Type "commands" to see available commands.`);
-          this.rl.prompt();
-          return;
-      }
+      // Parse and validate arguments, split like a shell line with JSON objects kept verbatim
+      const args = parseCommandArgs(definition, splitCommandLine(arg), { allowStdin: false, project: this.project });
+      const format = (args.format as 'json' | 'toon' | undefined) || this.currentFormat;
+
+      const result = await definition.handler(args, format);
 
       // Display result
       if (result.success) {
@@ -224,6 +187,11 @@ export class wrapper {
         console.error('\n' + result.error);
       }
     } catch (error: unknown) {
+      if (error instanceof ValidationError) {
+        console.error(`ERROR: ${error.message}`);
+        this.rl.prompt();
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error('Error running command:', errorMessage);
     }
@@ -243,14 +211,18 @@ export class wrapper {
 Confluence CLI v${version}
 
 Current Settings:
+  Profile: ${this.config?.profile ?? '-'}
   Format:  ${currentFormat}
+  Project: ${this.project?.path ?? '-'}
 
 Usage:
 
 commands              list all available Confluence commands
 <command> -h          quick help on <command>
 <command> <arg>       run <command> with JSON argument
+<command> --<flag> <v> run <command> with flag arguments
 format <type>         set output format (json, toon)
+profile [name]        list profiles or switch to profile <name>
 clear                 clear the screen
 exit, quit, q         exit the CLI
 
@@ -263,6 +235,7 @@ Examples:
   get-space {"spaceKey":"DOCS"}
   list-pages {"spaceKey":"DOCS","title":"Getting Started","limit":10}
   get-page {"pageId":"123456"}
+  get-page --page-id 123456 --format toon
   create-page {"spaceKey":"DOCS","title":"New Page","body":"<p>Hello World</p>"}
   test-connection
 
@@ -0,0 +1,370 @@
+import fs from 'fs';
+import path from 'path';
+
+import type { CommandArgs, CommandDefinition, CommandParam } from '../config/index.js';
+import type { ProjectConfig } from '../utils/index.js';
+import { ValidationError, parseJsonArgs, suggestName, validateCommandArgs } from './validator.js';
+
+/**
+ * Convert a camelCase parameter name to its kebab-case flag name
+ * @param name - Parameter name (e.g. pageId)
+ * @returns Flag name without dashes (e.g. page-id)
+ */
+export const toFlagName = (name: string): string => {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+};
+
+/**
+ * Find the end of a JSON object starting at an index, skipping braces inside its strings
+ * @returns Index after the closing brace, or the end of the line if the object is not closed
+ */
+const jsonObjectEnd = (line: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < line.length; i++) {
+    const char = line[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return line.length;
+};
+
+/**
+ * Split a REPL input line into arguments, honouring single quotes, double quotes and backslash escapes
+ * An argument starting with `{` is a JSON object and is kept verbatim, so JSON and flags can be mixed.
+ * @param line - Raw input line
+ * @returns List of arguments
+ */
+export const splitCommandLine = (line: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '{' && quote === null && !inToken) {
+      const end = jsonObjectEnd(line, i);
+      tokens.push(line.slice(i, end));
+      i = end - 1;
+      continue;
+    }
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < line.length && (quote === null || ['"', '\\'].includes(line[i + 1]))) {
+      current += line[++i];
+      inToken = true;
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+      continue;
+    }
+
+    current += char;
+    inToken = true;
+  }
+
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+};
+
+/**
+ * Options controlling where command input may be read from
+ */
+export interface ParseOptions {
+  /** Whether `-` and `@-` may read from standard input (false in the interactive REPL) */
+  allowStdin?: boolean;
+  /** Project config supplying values for omitted parameters that declare a projectDefault */
+  project?: ProjectConfig;
+}
+
+/**
+ * Body format implied by the extension of a file the body is read from
+ */
+const FILE_EXTENSION_FORMATS: Record<string, string> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+};
+
+/**
+ * Convert a raw flag value to the parameter's declared type
+ * Values that cannot be converted are passed through so validation reports them.
+ */
+const coerceFlagValue = (param: CommandParam, raw: string): unknown => {
+  if (param.type === 'number') {
+    const value = Number(raw);
+    return raw.trim() !== '' && Number.isFinite(value) ? value : raw;
+  }
+
+  if (param.type === 'boolean') {
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    return raw;
+  }
+
+  return raw;
+};
+
+/**
+ * Read command input from a file path, or from standard input when the path is `-`
+ */
+const readInput = (source: string): string => {
+  return source === '-' ? fs.readFileSync(0, 'utf-8') : fs.readFileSync(source, 'utf-8');
+};
+
+/**
+ * Load file-backed parameter values in place
+ *
+ * For parameters that accept files, `"@path"` reads the file, `"@-"` reads standard input,
+ * `"@@text"` is the literal string `"@text"`, and a `<name>File` key reads the given path.
+ * A `.md` file sets the parameter's formatParam to markdown unless it was given explicitly.
+ */
+const resolveFileInputs = (
+  definition: CommandDefinition,
+  args: CommandArgs,
+  options: ParseOptions,
+  stdinConsumed: boolean,
+  issues: string[]
+): void => {
+  let stdinUsed = stdinConsumed;
+
+  const load = (param: CommandParam, source: string): void => {
+    if (source === '-') {
+      if (!options.allowStdin) {
+        issues.push(`cannot read "${param.name}" from stdin in interactive mode`);
+        return;
+      }
+      if (stdinUsed) {
+        issues.push('stdin can only be read once per command');
+        return;
+      }
+      stdinUsed = true;
+    }
+
+    try {
+      args[param.name] = readInput(source);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      issues.push(`cannot read file for "${param.name}": ${errorMessage}`);
+      return;
+    }
+
+    const impliedFormat = FILE_EXTENSION_FORMATS[path.extname(source).toLowerCase()];
+    if (param.formatParam && impliedFormat && args[param.formatParam] === undefined) {
+      args[param.formatParam] = impliedFormat;
+    }
+  };
+
+  for (const param of definition.params.filter(p => p.acceptsFile)) {
+    const fileKey = `${param.name}File`;
+    const fileSource = args[fileKey];
+    const value = args[param.name];
+
+    if (fileSource !== undefined) {
+      delete args[fileKey];
+      if (value !== undefined) {
+        issues.push(`use either "${param.name}" or "${fileKey}", not both`);
+      } else if (typeof fileSource !== 'string' || fileSource === '') {
+        issues.push(`"${fileKey}" must be a file path`);
+      } else {
+        load(param, fileSource);
+      }
+      continue;
+    }
+
+    if (typeof value === 'string' && value.startsWith('@@')) {
+      args[param.name] = value.slice(1);
+    } else if (typeof value === 'string' && value.startsWith('@') && value.length > 1) {
+      load(param, value.slice(1));
+    }
+  }
+};
+
+/**
+ * Parse command-line arguments for a command into a validated arguments object
+ *
+ * Accepts an optional JSON argument (or `-` to read it from stdin) and GNU-style flags,
+ * which may be combined: `--page-id 123`, `--page-id=123`, `--minor-edit` / `--no-minor-edit`
+ * for booleans, and `--body @file.html` or `--body-file file.html` to read a value from a file.
+ * Flags override JSON keys. Everything after `--` is treated as a positional argument.
+ * A repeatable parameter collects its repeated flags and the positional arguments after the JSON one.
+ * Omitted parameters with a projectDefault are filled in from the project config; the project's
+ * parent page is only used in the project's space.
+ *
+ * @param definition - The command definition
+ * @param argv - Arguments following the command name
+ * @param options - Input sources allowed for this invocation
+ * @returns Validated arguments with defaults applied
+ * @throws ValidationError if the arguments are malformed or invalid
+ */
+export const parseCommandArgs = (
+  definition: CommandDefinition,
+  argv: string[],
+  options: ParseOptions = { allowStdin: true }
+): CommandArgs => {
+  const issues: string[] = [];
+  const positionals: string[] = [];
+  const flagArgs: CommandArgs = {};
+  const fileParams = definition.params.filter(param => param.acceptsFile);
+  const flagNames = [
+    ...definition.params.map(param => toFlagName(param.name)),
+    ...fileParams.map(param => `${toFlagName(param.name)}-file`),
+  ];
+
+  const findParam = (flag: string): CommandParam | undefined =>
+    definition.params.find(param => toFlagName(param.name) === flag || param.name === flag);
+  const findFileParam = (flag: string): CommandParam | undefined =>
+    fileParams.find(param => `${toFlagName(param.name)}-file` === flag || `${param.name}File` === flag);
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+
+    if (token === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (!token.startsWith('--') || token.length === 2) {
+      if (token.startsWith('-') && token.length > 1) {
+        issues.push(`unknown option "${token}"`);
+      } else {
+        positionals.push(token);
+      }
+      continue;
+    }
+
+    const equalsIndex = token.indexOf('=');
+    const flag = equalsIndex === -1 ? token.slice(2) : token.slice(2, equalsIndex);
+    let inlineValue = equalsIndex === -1 ? undefined : token.slice(equalsIndex + 1);
+
+    const param = findParam(flag);
+    if (!param && flag.startsWith('no-') && inlineValue === undefined) {
+      const negated = findParam(flag.slice(3));
+      if (negated?.type === 'boolean') {
+        flagArgs[negated.name] = false;
+        continue;
+      }
+    }
+
+    const fileParam = param ? undefined : findFileParam(flag);
+    if (fileParam) {
+      const source = inlineValue ?? (i + 1 < argv.length && argv[i + 1] !== '--' ? argv[++i] : undefined);
+      if (source === undefined) {
+        issues.push(`option "--${flag}" requires a value`);
+      } else {
+        flagArgs[`${fileParam.name}File`] = source;
+      }
+      continue;
+    }
+
+    if (!param) {
+      const suggestion = suggestName(flag, flagNames);
+      issues.push(`unknown option "--${flag}"${suggestion ? ` (did you mean "--${suggestion}"?)` : ''}`);
+      continue;
+    }
+
+    if (inlineValue === undefined) {
+      if (param.type === 'boolean') {
+        flagArgs[param.name] = true;
+        continue;
+      }
+      if (i + 1 >= argv.length || argv[i + 1] === '--') {
+        issues.push(`option "--${flag}" requires a value`);
+        continue;
+      }
+      inlineValue = argv[++i];
+    }
+
+    if (param.repeatable) {
+      flagArgs[param.name] = [...((flagArgs[param.name] as string[] | undefined) ?? []), inlineValue];
+      continue;
+    }
+    flagArgs[param.name] = coerceFlagValue(param, inlineValue);
+  }
+
+  // Extra arguments belong to a repeatable parameter, e.g. the files of `--files *.png` after the shell expands it
+  const listParam = definition.params.find(param => param.repeatable);
+  if (listParam) {
+    const hasJson = positionals[0] !== undefined && (positionals[0] === '-' || positionals[0].trim().startsWith('{'));
+    const extra = positionals.splice(hasJson ? 1 : 0);
+    if (extra.length > 0) {
+      flagArgs[listParam.name] = [...((flagArgs[listParam.name] as string[] | undefined) ?? []), ...extra];
+    }
+  }
+
+  if (positionals.length > 1) {
+    issues.push(`unexpected argument "${positionals[1]}" (only one JSON argument is allowed)`);
+  }
+
+  const readJsonFromStdin = positionals[0] === '-';
+  if (readJsonFromStdin && !options.allowStdin) {
+    issues.push('cannot read arguments from stdin in interactive mode');
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(definition.name, issues);
+  }
+
+  const jsonArgs = parseJsonArgs(definition, readJsonFromStdin ? readInput('-') : (positionals[0] ?? null));
+  const args: CommandArgs = { ...jsonArgs, ...flagArgs };
+  resolveFileInputs(definition, args, options, readJsonFromStdin, issues);
+
+  if (issues.length > 0) {
+    throw new ValidationError(definition.name, issues);
+  }
+
+  // A parent page from the project belongs to the project's space, not to a space given explicitly
+  const otherSpace = args.spaceKey !== undefined && args.spaceKey !== options.project?.spaceKey;
+  for (const param of definition.params) {
+    const fallback = param.projectDefault && options.project?.[param.projectDefault];
+    if (args[param.name] === undefined && fallback && !(param.projectDefault === 'parentId' && otherSpace)) {
+      args[param.name] = fallback;
+    }
+  }
+
+  return validateCommandArgs(definition, args);
+};
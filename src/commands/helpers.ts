@@ -1,14 +1,67 @@
-import { COMMANDS, COMMANDS_DETAIL, COMMANDS_INFO } from '../config/index.js';
+import { COMMAND_DEFINITIONS } from '../config/index.js';
+import type { CommandDefinition, CommandParam } from '../config/index.js';
+import { toFlagName } from './flag-parser.js';
+
+/**
+ * Find a command definition by name
+ * @param command - The command name to look up
+ * @returns The command definition, or undefined if the command is unknown
+ */
+export const findCommand = (command: string): CommandDefinition | undefined => {
+  return COMMAND_DEFINITIONS.find(definition => definition.name === command);
+};
 
 /**
  * Prints all available commands with their descriptions
  */
 export const printAvailableCommands = (): void => {
   console.log('\nAvailable commands:');
-  COMMANDS.forEach((name, i) => {
-    const info = COMMANDS_INFO[i];
-    console.log(`${i + 1}. ${name}: ${info}`);
+  COMMAND_DEFINITIONS.forEach((definition, i) => {
+    console.log(`${i + 1}. ${definition.name}: ${definition.description}`);
+  });
+};
+
+/**
+ * Formats a single parameter line for command help
+ */
+const formatParam = (param: CommandParam): string => {
+  const requirement = param.required ? 'required' : 'optional';
+  const constraints: string[] = [];
+  if (param.min !== undefined) constraints.push(`min: ${param.min}`);
+  if (param.max !== undefined) constraints.push(`max: ${param.max}`);
+  if (param.default !== undefined) constraints.push(`default: ${param.default}`);
+  if (param.acceptsFile) constraints.push(`from file: @path, @- or --${toFlagName(param.name)}-file`);
+  if (param.projectDefault) constraints.push(`falls back to ${param.projectDefault} in .connicli.yaml`);
+  if (param.repeatable) constraints.push(`repeatable: --${toFlagName(param.name)} a --${toFlagName(param.name)} b`);
+  const suffix = constraints.length > 0 ? ` (${constraints.join(', ')})` : '';
+  return `- ${param.name} (${requirement}): ${param.type} - ${param.description}${suffix}`;
+};
+
+/**
+ * Quotes a flag value for display in a shell command line when needed
+ */
+const quoteShellValue = (value: string): string => {
+  return /^[\w@./:,-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+};
+
+/**
+ * Formats a command's example arguments in both JSON and flag form
+ */
+const formatExample = (definition: CommandDefinition): string => {
+  const entries = Object.entries(definition.example);
+  if (entries.length === 0) {
+    return definition.name;
+  }
+
+  const flags = entries.map(([key, value]) => {
+    const flag = toFlagName(key);
+    if (typeof value === 'boolean') {
+      return value ? `--${flag}` : `--no-${flag}`;
+    }
+    return `--${flag} ${quoteShellValue(String(value))}`;
   });
+
+  return `${definition.name} '${JSON.stringify(definition.example)}'\n${definition.name} ${flags.join(' ')}`;
 };
 
 /**
@@ -23,17 +76,17 @@ export const printCommandDetail = (command: string): void => {
     return;
   }
 
-  const idx = COMMANDS.indexOf(name);
-  if (idx === -1) {
+  const definition = findCommand(name);
+  if (!definition) {
     console.log(`Unknown command: ${name}`);
     printAvailableCommands();
     return;
   }
 
-  const info = COMMANDS_INFO[idx] || 'No additional information available.';
-  const detail = (COMMANDS_DETAIL[idx] || '').trim();
+  const params = definition.params.length > 0 ? definition.params.map(formatParam).join('\n') : '- (none)';
+  const detail = `Parameters:\n${params}\n\nExample:\n${formatExample(definition)}`;
 
-  console.log(`${name}\n${info}${detail ? `\n${detail}` : ''}`);
+  console.log(`${name}\n${definition.description}\n${detail}`);
 };
 
 export const getCurrentVersion = (): string => {
@@ -1,2 +1,4 @@
-export { printAvailableCommands, printCommandDetail, getCurrentVersion } from './helpers.js';
+export { parseCommandArgs, splitCommandLine } from './flag-parser.js';
+export { findCommand, getCurrentVersion, printAvailableCommands, printCommandDetail } from './helpers.js';
 export { runCommand } from './runner.js';
+export { ValidationError } from './validator.js';
@@ -1,125 +1,47 @@
+import { VALIDATION_EXIT_CODE } from '../config/index.js';
 import {
-  addComment,
   clearClients,
-  createPage,
-  deletePage,
-  downloadAttachment,
-  getPage,
-  getSpace,
-  getUser,
-  listPages,
-  listSpaces,
+  getActiveProfile,
   loadConfig,
+  loadProjectConfig,
+  setActiveProfile,
   setupConfig,
-  testConnection,
-  updatePage,
 } from '../utils/index.js';
+import { parseCommandArgs } from './flag-parser.js';
+import { findCommand } from './helpers.js';
+import { ValidationError } from './validator.js';
 
 /**
  * Execute a Confluence command in headless mode
  * @param command - The command name to execute
- * @param arg - JSON string or null for the command arguments
+ * @param argv - Arguments following the command name (JSON string and/or flags)
  */
-export const runCommand = async (
-  command: string,
-  arg: string | null,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _flag: string | null
-): Promise<void> => {
+export const runCommand = async (command: string, argv: string[] = []): Promise<void> => {
   try {
     // Handle config command first (before loading config)
     if (command === 'config') {
-      await setupConfig();
+      await setupConfig(getActiveProfile());
       clearClients();
       process.exit(0);
     }
 
-    // Load config to get default format
-    const config = loadConfig();
-
-    // Parse arguments
-    const args = arg && arg.trim() !== '' ? JSON.parse(arg) : {};
-    const format = args.format || config.defaultFormat;
-
-    let result;
-
-    switch (command) {
-      case 'list-spaces':
-        result = await listSpaces(format);
-        break;
-
-      case 'get-space':
-        if (!args.spaceKey) {
-          console.error('ERROR: "spaceKey" parameter is required');
-          process.exit(1);
-        }
-        result = await getSpace(args.spaceKey, format);
-        break;
-
-      case 'list-pages':
-        result = await listPages(args.spaceKey, args.title, args.limit, args.start, format);
-        break;
-
-      case 'get-page':
-        if (!args.pageId) {
-          console.error('ERROR: "pageId" parameter is required');
-          process.exit(1);
-        }
-        result = await getPage(args.pageId, format);
-        break;
-
-      case 'create-page':
-        if (!args.spaceKey || !args.title || !args.body) {
-          console.error('ERROR: "spaceKey", "title", and "body" parameters are required');
-          process.exit(1);
-        }
-        result = await createPage(args.spaceKey, args.title, args.body, args.parentId, format);
-        break;
-
-      case 'update-page':
-        if (!args.pageId || !args.title || !args.body || args.version === undefined) {
-          console.error('ERROR: "pageId", "title", "body", and "version" parameters are required');
-          process.exit(1);
-        }
-        result = await updatePage(args.pageId, args.title, args.body, args.version);
-        break;
-
-      case 'add-comment':
-        if (!args.pageId || !args.body) {
-          console.error('ERROR: "pageId" and "body" parameters are required');
-          process.exit(1);
-        }
-        result = await addComment(args.pageId, args.body, format);
-        break;
-
-      case 'delete-page':
-        if (!args.pageId) {
-          console.error('ERROR: "pageId" parameter is required');
-          process.exit(1);
-        }
-        result = await deletePage(args.pageId);
-        break;
-
-      case 'download-attachment':
-        if (!args.attachmentId) {
-          console.error('ERROR: "attachmentId" parameter is required');
-          process.exit(1);
-        }
-        result = await downloadAttachment(args.attachmentId, args.outputPath);
-        break;
+    const definition = findCommand(command);
+    if (!definition) {
+      console.error(`Unknown command: ${command}`);
+      process.exit(1);
+      return;
+    }
 
-      case 'get-user':
-        result = await getUser(args.accountId, args.username, format);
-        break;
+    // Parse and validate arguments before touching the configuration; only project defaults are needed here
+    const args = parseCommandArgs(definition, argv, { allowStdin: true, project: loadProjectConfig() });
 
-      case 'test-connection':
-        result = await testConnection();
-        break;
+    // Load config to get default format, and hand it to the client so a token command runs only once
+    const profile = getActiveProfile();
+    const config = loadConfig(profile);
+    setActiveProfile(profile, config);
+    const format = (args.format as 'json' | 'toon' | undefined) || config.defaultFormat;
 
-      default:
-        console.error(`Unknown command: ${command}`);
-        process.exit(1);
-    }
+    const result = await definition.handler(args, format);
 
     // Display result
     if (result.success) {
@@ -132,6 +54,12 @@ export const runCommand = async (
       process.exit(1);
     }
   } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      console.error(`ERROR: ${error.message}`);
+      clearClients();
+      process.exit(VALIDATION_EXIT_CODE);
+      return;
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('Error executing command:', errorMessage);
     clearClients();
@@ -0,0 +1,183 @@
+import type { CommandArgs, CommandDefinition, CommandParam } from '../config/index.js';
+
+/**
+ * Error raised when command arguments do not match the command's parameter schema
+ */
+export class ValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(command: string, issues: string[]) {
+    super(`Invalid arguments for ${command}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Compute the Levenshtein edit distance between two strings
+ */
+const editDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + cost);
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Suggest the closest known name for a mistyped one
+ * @param name - The unknown name
+ * @param candidates - Known names to choose from
+ * @returns The closest candidate, or undefined if none is close enough
+ */
+export const suggestName = (name: string, candidates: string[]): string | undefined => {
+  const lower = name.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const candidateLower = candidate.toLowerCase();
+    // Exact (case-insensitive) matches win, then abbreviations, then the smallest edit distance
+    const distance =
+      candidateLower === lower ? 0 : candidateLower.startsWith(lower) ? 1 : editDistance(lower, candidateLower);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  const threshold = Math.max(2, Math.floor(name.length / 3));
+  return bestDistance <= threshold ? best : undefined;
+};
+
+/**
+ * Check a single parameter value against its schema
+ * @returns A list of problems with the value (empty if valid)
+ */
+const checkParam = (param: CommandParam, value: unknown): string[] => {
+  if (value === undefined || value === null) {
+    return param.required ? [`"${param.name}" is required`] : [];
+  }
+
+  switch (param.type) {
+    case 'string':
+      if (param.repeatable && Array.isArray(value)) {
+        return value.every(item => typeof item === 'string' && item.trim() !== '')
+          ? []
+          : [`"${param.name}" must be a string or a list of non-empty strings`];
+      }
+      if (typeof value !== 'string') {
+        return [`"${param.name}" must be a string`];
+      }
+      if (param.required && value.trim() === '') {
+        return [`"${param.name}" must not be empty`];
+      }
+      if (param.enum && !param.enum.includes(value)) {
+        return [`"${param.name}" must be one of: ${param.enum.join(', ')} (got "${value}")`];
+      }
+      return [];
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`"${param.name}" must be a number`];
+      }
+      if (param.integer && !Number.isInteger(value)) {
+        return [`"${param.name}" must be an integer`];
+      }
+      if (param.min !== undefined && value < param.min) {
+        return [`"${param.name}" must be at least ${param.min}`];
+      }
+      if (param.max !== undefined && value > param.max) {
+        return [`"${param.name}" must be at most ${param.max}`];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`"${param.name}" must be true or false`];
+  }
+};
+
+/**
+ * Whether a string parameter holds an ID, which may be given as an unquoted number in JSON
+ */
+const isIdParam = (param: CommandParam): boolean => param.type === 'string' && /Id$/.test(param.name);
+
+/**
+ * Validate command arguments against the command's parameter schema
+ * All problems are collected and reported together. Whole numbers given for ID parameters
+ * (e.g. `{"pageId":123456}`) are converted to strings.
+ * @param definition - The command definition
+ * @param args - Parsed command arguments
+ * @returns A new arguments object with declared defaults applied
+ * @throws ValidationError if any argument is missing, unknown or invalid
+ */
+export const validateCommandArgs = (definition: CommandDefinition, args: CommandArgs): CommandArgs => {
+  const issues: string[] = [];
+  const known = definition.params.map(param => param.name);
+  const values: CommandArgs = { ...args };
+  for (const param of definition.params.filter(isIdParam)) {
+    if (Number.isSafeInteger(values[param.name])) {
+      values[param.name] = String(values[param.name]);
+    }
+  }
+
+  for (const key of Object.keys(values)) {
+    if (known.includes(key)) {
+      continue;
+    }
+    const suggestion = suggestName(key, known);
+    issues.push(`unknown parameter "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+  }
+
+  for (const param of definition.params) {
+    issues.push(...checkParam(param, values[param.name]));
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(definition.name, issues);
+  }
+
+  const resolved: CommandArgs = values;
+  for (const param of definition.params) {
+    if (resolved[param.name] === undefined && param.default !== undefined) {
+      resolved[param.name] = param.default;
+    }
+  }
+  return resolved;
+};
+
+/**
+ * Parse a JSON argument string into an arguments object
+ * @param definition - The command definition
+ * @param arg - JSON string, or null/empty for no arguments
+ * @returns Parsed (not yet validated) arguments
+ * @throws ValidationError if the JSON is malformed or not an object
+ */
+export const parseJsonArgs = (definition: CommandDefinition, arg: string | null): CommandArgs => {
+  if (!arg || arg.trim() === '') {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(arg);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(definition.name, [`arguments are not valid JSON: ${errorMessage}`]);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ValidationError(definition.name, ['arguments must be a JSON object']);
+  }
+
+  return parsed as CommandArgs;
+};
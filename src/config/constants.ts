@@ -1,127 +1,1067 @@
 /**
  * Confluence CLI Commands Configuration
  */
+import {
+  addComment,
+  addLabels,
+  copyPage,
+  createBlogPost,
+  createPage,
+  deleteAttachment,
+  deletePage,
+  diffPage,
+  downloadAttachment,
+  editPage,
+  getAncestors,
+  getChildren,
+  getDescendants,
+  getPage,
+  getSpace,
+  getUser,
+  listAttachments,
+  listBlogPosts,
+  listLabels,
+  listPages,
+  listSpaces,
+  listVersions,
+  movePage,
+  pull,
+  push,
+  removeLabels,
+  reorderChildren,
+  replace,
+  restoreVersion,
+  search,
+  syncDiff,
+  syncStatus,
+  testConnection,
+  tree,
+  updateBlogPost,
+  updatePage,
+  uploadAttachments,
+} from '../utils/index.js';
+import type {
+  ApiResult,
+  BodyFormat,
+  DiffMode,
+  EditOperation,
+  PageFormat,
+  TreeFormat,
+  UpdatePageOptions,
+} from '../utils/index.js';
 
 /**
- * Available Confluence commands
+ * Supported parameter value types
  */
-export const COMMANDS: string[] = [
-  'list-spaces',
-  'get-space',
-  'list-pages',
-  'get-page',
-  'create-page',
-  'update-page',
-  'add-comment',
-  'delete-page',
-  'download-attachment',
-  'get-user',
-  'test-connection',
-];
+export type ParamType = 'string' | 'number' | 'boolean';
 
 /**
- * Brief descriptions for each command
+ * Parameter schema for a command
  */
-export const COMMANDS_INFO: string[] = [
-  'List all accessible spaces',
-  'Get details of a specific space',
-  'List pages in a space or by search criteria',
-  'Get details of a specific page',
-  'Create a new page',
-  'Update an existing page',
-  'Add a comment to a page',
-  'Delete a page',
-  'Download an attachment from a page',
-  'Get user information',
-  'Test Confluence API connection',
-];
+export interface CommandParam {
+  name: string;
+  type: ParamType;
+  required?: boolean;
+  description: string;
+  default?: string | number | boolean;
+  /** Allowed values for string parameters */
+  enum?: string[];
+  /** Inclusive lower bound for number parameters */
+  min?: number;
+  /** Inclusive upper bound for number parameters */
+  max?: number;
+  /** Whether a number parameter must be a whole number */
+  integer?: boolean;
+  /** Whether a string parameter may be loaded from a file (`@path`, `@-` for stdin, or `<name>File`) */
+  acceptsFile?: boolean;
+  /** Parameter set from the file extension when the value is read from a file (e.g. `.md` sets it to markdown) */
+  formatParam?: string;
+  /** Project config setting (.connicli.yaml) used when the parameter is omitted */
+  projectDefault?: 'spaceKey' | 'parentId';
+  /**
+   * Whether a string parameter takes a list of values: its flag may be repeated, arguments after the
+   * flags are added to it (so a shell-expanded glob works), and its JSON value may be an array
+   */
+  repeatable?: boolean;
+}
 
 /**
- * Detailed parameter information for each command
+ * Parsed command arguments keyed by parameter name
  */
-export const COMMANDS_DETAIL: string[] = [
-  `
-Parameters:
-- format (optional): string - Output format: json or toon (default: json)
-
-Example:
-list-spaces '{"format":"json"}'`,
-  `
-Parameters:
-- spaceKey (required): string - Space key
-- format (optional): string - Output format: json or toon (default: json)
-
-Example:
-get-space '{"spaceKey":"DOCS","format":"json"}'`,
-  `
-Parameters:
-- spaceKey (optional): string - Space key to filter pages
-- title (optional): string - Title search string
-- limit (optional): number - Maximum number of results (default: 25)
-- start (optional): number - Starting index for pagination (default: 0)
-- format (optional): string - Output format: json or toon (default: json)
+export type CommandArgs = Record<string, unknown>;
 
-Example:
-list-pages '{"spaceKey":"DOCS","title":"Getting Started","limit":10,"format":"json"}'`,
-  `
-Parameters:
-- pageId (required): string - Page ID
-- format (optional): string - Output format: json or toon (default: json)
+/**
+ * Declarative definition of a Confluence command
+ */
+export interface CommandDefinition {
+  name: string;
+  description: string;
+  params: CommandParam[];
+  /** Example arguments, rendered in help as both JSON and flags */
+  example: CommandArgs;
+  handler: (args: CommandArgs, format: 'json' | 'toon') => Promise<ApiResult>;
+}
 
-Example:
-get-page '{"pageId":"123456","format":"json"}'`,
-  `
-Parameters:
-- spaceKey (required): string - Space key where the page will be created
-- title (required): string - Page title
-- body (required): string - Page body content in storage format (XHTML)
-- parentId (optional): string - Parent page ID for nested pages
-- format (optional): string - Output format: json or toon (default: json)
+/**
+ * Exit code used when command arguments fail validation
+ */
+export const VALIDATION_EXIT_CODE = 2;
 
-Example:
-create-page '{"spaceKey":"DOCS","title":"New Page","body":"<p>Hello World</p>","format":"json"}'`,
-  `
-Parameters:
-- pageId (required): string - Page ID to update
-- title (required): string - New page title
-- body (required): string - New page body content in storage format (XHTML)
-- version (required): number - Current page version number
+const FORMAT_PARAM: CommandParam = {
+  name: 'format',
+  type: 'string',
+  description: 'Output format: json or toon (default: configured format)',
+  enum: ['json', 'toon'],
+};
 
-Example:
-update-page '{"pageId":"123456","title":"Updated Title","body":"<p>Updated content</p>","version":1}'`,
-  `
-Parameters:
-- pageId (required): string - Page ID to add comment to
-- body (required): string - Comment body content in storage format (XHTML)
-- format (optional): string - Output format: json or toon (default: json)
+const BODY_FORMAT_PARAM: CommandParam = {
+  name: 'bodyFormat',
+  type: 'string',
+  description: 'Format of body: storage (XHTML) or markdown (default: markdown for .md files, otherwise storage)',
+  enum: ['storage', 'markdown'],
+};
 
-Example:
-add-comment '{"pageId":"123456","body":"<p>Great article!</p>"}'`,
-  `
-Parameters:
-- pageId (required): string - Page ID to delete
+/**
+ * How commands that save a new page version handle it
+ */
+const VERSION_PARAMS: CommandParam[] = [
+  {
+    name: 'expectedVersion',
+    type: 'number',
+    description: 'Fail with a version conflict unless the page is at this version',
+    integer: true,
+    min: 1,
+  },
+  {
+    name: 'retries',
+    type: 'number',
+    description: 'Times to fetch the page again when it changes during the update',
+    default: 0,
+    integer: true,
+    min: 0,
+    max: 10,
+  },
+  { name: 'versionMessage', type: 'string', description: 'Change note shown in the page history' },
+  { name: 'minorEdit', type: 'boolean', description: 'Do not notify watchers of the change', default: false },
+];
 
-Example:
-delete-page '{"pageId":"123456"}'`,
-  `
-Parameters:
-- attachmentId (required): string - Attachment ID to download
-- outputPath (optional): string - Path to save the file (default: current directory with original filename)
+const versionOptions = (args: CommandArgs): UpdatePageOptions => ({
+  expectedVersion: args.expectedVersion as number | undefined,
+  retries: args.retries as number,
+  versionMessage: args.versionMessage as string | undefined,
+  minorEdit: args.minorEdit as boolean,
+});
 
-Example:
-download-attachment '{"attachmentId":"att12345","outputPath":"./document.pdf"}'`,
-  `
-Parameters:
-- accountId (optional): string - User account ID
-- username (optional): string - Username to search for
-- format (optional): string - Output format: json or toon (default: json)
+/** Split a comma-separated parameter into its values; a list from a repeatable parameter is kept as it is */
+const listArg = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(String)
+    : String(value ?? '')
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean);
 
-Example:
-get-user '{"accountId":"5b10a2844c20165700ede21g","format":"json"}'`,
-  `
-Parameters:
-- (none)
+const LABEL_TARGET_PARAMS: CommandParam[] = [
+  { name: 'pageId', type: 'string', description: 'Page ID' },
+  { name: 'cql', type: 'string', description: 'CQL query selecting the pages, instead of pageId' },
+  { name: 'labels', type: 'string', required: true, description: 'Label names, comma-separated' },
+];
 
-Example:
-test-connection`,
+/**
+ * Available Confluence commands
+ */
+export const COMMAND_DEFINITIONS: CommandDefinition[] = [
+  {
+    name: 'list-spaces',
+    description: 'List all accessible spaces',
+    params: [FORMAT_PARAM],
+    example: { format: 'json' },
+    handler: (_args, format) => listSpaces(format),
+  },
+  {
+    name: 'get-space',
+    description: 'Get details of a specific space',
+    params: [{ name: 'spaceKey', type: 'string', required: true, description: 'Space key' }, FORMAT_PARAM],
+    example: { spaceKey: 'DOCS', format: 'json' },
+    handler: (args, format) => getSpace(args.spaceKey as string, format),
+  },
+  {
+    name: 'list-pages',
+    description: 'List pages in a space or by search criteria',
+    params: [
+      { name: 'spaceKey', type: 'string', description: 'Space key to filter pages' },
+      { name: 'title', type: 'string', description: 'Title search string' },
+      { name: 'label', type: 'string', description: 'Only pages with this label' },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Maximum number of results',
+        default: 25,
+        integer: true,
+        min: 1,
+        max: 250,
+      },
+      {
+        name: 'start',
+        type: 'number',
+        description: 'Starting index for pagination',
+        default: 0,
+        integer: true,
+        min: 0,
+      },
+      FORMAT_PARAM,
+    ],
+    example: { spaceKey: 'DOCS', title: 'Getting Started', limit: 10, format: 'json' },
+    handler: (args, format) =>
+      listPages(
+        args.spaceKey as string | undefined,
+        args.title as string | undefined,
+        args.limit as number,
+        args.start as number,
+        format,
+        args.label as string | undefined
+      ),
+  },
+  {
+    name: 'search',
+    description: 'Search content with CQL, or with filters the query is built from',
+    params: [
+      { name: 'cql', type: 'string', description: 'CQL query, combined with any filters' },
+      {
+        name: 'type',
+        type: 'string',
+        description: 'Content type',
+        enum: ['page', 'blogpost', 'comment', 'attachment'],
+      },
+      { name: 'spaceKey', type: 'string', description: 'Space key' },
+      { name: 'label', type: 'string', description: 'Label name' },
+      { name: 'creator', type: 'string', description: 'Account ID of the creator' },
+      { name: 'contributor', type: 'string', description: 'Account ID of anyone who edited the content' },
+      {
+        name: 'modifiedAfter',
+        type: 'string',
+        description: 'Only content last modified on or after this date (YYYY-MM-DD or "YYYY-MM-DD HH:mm")',
+      },
+      {
+        name: 'modifiedBefore',
+        type: 'string',
+        description: 'Only content last modified before this date (YYYY-MM-DD or "YYYY-MM-DD HH:mm")',
+      },
+      { name: 'text', type: 'string', description: 'Words searched for in the title, body and labels' },
+      { name: 'title', type: 'string', description: 'Words searched for in the title' },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Results per request',
+        default: 25,
+        integer: true,
+        min: 1,
+        max: 250,
+      },
+      { name: 'cursor', type: 'string', description: 'Cursor returned as nextCursor with the previous results' },
+      { name: 'all', type: 'boolean', description: 'Follow the cursor until every result is fetched', default: false },
+      FORMAT_PARAM,
+    ],
+    example: { spaceKey: 'DOCS', text: 'rate limit', modifiedAfter: '2025-01-01' },
+    handler: (args, format) =>
+      search(
+        {
+          cql: args.cql as string | undefined,
+          type: args.type as string | undefined,
+          spaceKey: args.spaceKey as string | undefined,
+          label: args.label as string | undefined,
+          creator: args.creator as string | undefined,
+          contributor: args.contributor as string | undefined,
+          modifiedAfter: args.modifiedAfter as string | undefined,
+          modifiedBefore: args.modifiedBefore as string | undefined,
+          text: args.text as string | undefined,
+          title: args.title as string | undefined,
+        },
+        { limit: args.limit as number, cursor: args.cursor as string | undefined, all: args.all as boolean },
+        format
+      ),
+  },
+  {
+    name: 'get-page',
+    description: 'Get details of a specific page',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID' },
+      {
+        name: 'bodyOnly',
+        type: 'boolean',
+        description:
+          'Print only the body (storage format, or converted with markdown/text), e.g. to pipe into another command',
+        default: false,
+      },
+      {
+        ...FORMAT_PARAM,
+        description: 'Output format: json, toon, markdown or text (default: configured format)',
+        enum: ['json', 'toon', 'markdown', 'text'],
+      },
+      {
+        name: 'version',
+        type: 'number',
+        description: 'Version to get (default: current)',
+        integer: true,
+        min: 1,
+      },
+    ],
+    example: { pageId: '123456', format: 'json' },
+    handler: (args, format) =>
+      getPage(
+        args.pageId as string,
+        (args.format as PageFormat | undefined) ?? format,
+        args.bodyOnly as boolean,
+        args.version as number | undefined
+      ),
+  },
+  {
+    name: 'get-children',
+    description: 'List the child pages of a page',
+    params: [{ name: 'pageId', type: 'string', required: true, description: 'Parent page ID' }, FORMAT_PARAM],
+    example: { pageId: '123456' },
+    handler: (args, format) => getChildren(args.pageId as string, format),
+  },
+  {
+    name: 'get-descendants',
+    description: 'List the descendants of a page in tree order, with their parent and depth',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID' },
+      { name: 'depth', type: 'number', description: 'Levels to descend (default: all)', integer: true, min: 1 },
+      FORMAT_PARAM,
+    ],
+    example: { pageId: '123456', depth: 2 },
+    handler: (args, format) => getDescendants(args.pageId as string, args.depth as number | undefined, format),
+  },
+  {
+    name: 'get-ancestors',
+    description: 'List the ancestors of a page, from the top of the space down to its parent',
+    params: [{ name: 'pageId', type: 'string', required: true, description: 'Page ID' }, FORMAT_PARAM],
+    example: { pageId: '123456' },
+    handler: (args, format) => getAncestors(args.pageId as string, format),
+  },
+  {
+    name: 'tree',
+    description: 'Show the page tree of a space or page as an indented tree, or as nested JSON/TOON',
+    params: [
+      {
+        name: 'spaceKey',
+        type: 'string',
+        description: 'Space whose whole tree is shown; defaults to the project space',
+        projectDefault: 'spaceKey',
+      },
+      { name: 'pageId', type: 'string', description: 'Page whose subtree is shown; takes precedence over spaceKey' },
+      {
+        name: 'depth',
+        type: 'number',
+        description: 'Levels below the top pages to show (default: all)',
+        integer: true,
+        min: 0,
+      },
+      {
+        ...FORMAT_PARAM,
+        description: 'Output format: text, json or toon (default: text)',
+        enum: ['text', 'json', 'toon'],
+      },
+    ],
+    example: { spaceKey: 'DOCS', depth: 2 },
+    handler: args =>
+      tree(
+        args.spaceKey as string | undefined,
+        args.pageId as string | undefined,
+        args.depth as number | undefined,
+        (args.format as TreeFormat | undefined) ?? 'text'
+      ),
+  },
+  {
+    name: 'move-page',
+    description: 'Move a page under a new parent, into another space, or before or after a sibling',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page to move' },
+      { name: 'parentId', type: 'string', description: 'New parent page; the page becomes its last child' },
+      { name: 'spaceKey', type: 'string', description: "Space to move the page to, under the space's home page" },
+      { name: 'before', type: 'string', description: 'Sibling page to place the page before' },
+      { name: 'after', type: 'string', description: 'Sibling page to place the page after' },
+    ],
+    example: { pageId: '123456', parentId: '98765' },
+    handler: args =>
+      movePage(args.pageId as string, {
+        parentId: args.parentId as string | undefined,
+        spaceKey: args.spaceKey as string | undefined,
+        before: args.before as string | undefined,
+        after: args.after as string | undefined,
+      }),
+  },
+  {
+    name: 'copy-page',
+    description: 'Copy a page, optionally with its descendants, under a parent page or to the top level of a space',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page to copy' },
+      { name: 'parentId', type: 'string', description: 'Parent page of the copy; takes precedence over spaceKey' },
+      { name: 'spaceKey', type: 'string', description: 'Space whose top level the copy goes to' },
+      { name: 'recursive', type: 'boolean', description: 'Copy the descendants too', default: false },
+      { name: 'attachments', type: 'boolean', description: 'Copy the attachments', default: false },
+      { name: 'labels', type: 'boolean', description: 'Copy the labels', default: false },
+      { name: 'titlePrefix', type: 'string', description: 'Text added before the title of every copy' },
+      { name: 'titleSuffix', type: 'string', description: 'Text added after the title of every copy' },
+    ],
+    example: { pageId: '123456', parentId: '98765', recursive: true, titlePrefix: 'Copy of ' },
+    handler: args =>
+      copyPage(
+        args.pageId as string,
+        { parentId: args.parentId as string | undefined, spaceKey: args.spaceKey as string | undefined },
+        {
+          recursive: args.recursive as boolean,
+          attachments: args.attachments as boolean,
+          labels: args.labels as boolean,
+          titlePrefix: args.titlePrefix as string | undefined,
+          titleSuffix: args.titleSuffix as string | undefined,
+        }
+      ),
+  },
+  {
+    name: 'reorder-children',
+    description: 'Reorder the child pages of a page; unlisted children follow in their current order',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Parent page ID' },
+      {
+        name: 'order',
+        type: 'string',
+        required: true,
+        description: 'Child page IDs in their new order, comma-separated',
+      },
+    ],
+    example: { pageId: '98765', order: '123457,123456' },
+    handler: args => reorderChildren(args.pageId as string, listArg(args.order)),
+  },
+  {
+    name: 'list-versions',
+    description: 'List the versions of a page with their author, date and message',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID' },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Maximum number of versions',
+        default: 25,
+        integer: true,
+        min: 1,
+        max: 200,
+      },
+      {
+        name: 'start',
+        type: 'number',
+        description: 'Starting index for pagination',
+        default: 0,
+        integer: true,
+        min: 0,
+      },
+      FORMAT_PARAM,
+    ],
+    example: { pageId: '123456', limit: 10 },
+    handler: (args, format) => listVersions(args.pageId as string, args.limit as number, args.start as number, format),
+  },
+  {
+    name: 'diff-page',
+    description: 'Diff the body of a page between two versions, or with a local file',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID' },
+      {
+        name: 'from',
+        type: 'number',
+        description: 'Older version (default: the version before "to", or the current version with a file)',
+        integer: true,
+        min: 1,
+      },
+      { name: 'to', type: 'number', description: 'Newer version (default: current)', integer: true, min: 1 },
+      { name: 'file', type: 'string', description: 'Local file to compare the page with instead of a version' },
+      {
+        name: 'mode',
+        type: 'string',
+        description: 'line (unified diff) or word (changed words marked inline)',
+        enum: ['line', 'word'],
+        default: 'line',
+      },
+      {
+        name: 'bodyFormat',
+        type: 'string',
+        description:
+          'Compare the storage (XHTML) body or the body rendered as markdown (always markdown for .md files)',
+        enum: ['storage', 'markdown'],
+        default: 'storage',
+      },
+    ],
+    example: { pageId: '123456', from: 3, to: 5, mode: 'word' },
+    handler: args =>
+      diffPage(
+        args.pageId as string,
+        args.from as number | undefined,
+        args.to as number | undefined,
+        args.file as string | undefined,
+        args.mode as DiffMode,
+        args.bodyFormat as BodyFormat
+      ),
+  },
+  {
+    name: 'restore-version',
+    description: 'Publish an older version of a page as its new current version',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID' },
+      { name: 'version', type: 'number', required: true, description: 'Version to restore', integer: true, min: 1 },
+      { name: 'versionMessage', type: 'string', description: 'Change note shown in the page history' },
+    ],
+    example: { pageId: '123456', version: 3, versionMessage: 'Revert accidental edit' },
+    handler: args =>
+      restoreVersion(args.pageId as string, args.version as number, args.versionMessage as string | undefined),
+  },
+  {
+    name: 'create-page',
+    description: 'Create a new page',
+    params: [
+      {
+        name: 'spaceKey',
+        type: 'string',
+        required: true,
+        description: 'Space key where the page will be created',
+        projectDefault: 'spaceKey',
+      },
+      { name: 'title', type: 'string', required: true, description: 'Page title' },
+      {
+        name: 'body',
+        type: 'string',
+        required: true,
+        description: 'Page body content in storage format (XHTML) or Markdown',
+        acceptsFile: true,
+        formatParam: 'bodyFormat',
+      },
+      BODY_FORMAT_PARAM,
+      { name: 'parentId', type: 'string', description: 'Parent page ID for nested pages', projectDefault: 'parentId' },
+      FORMAT_PARAM,
+    ],
+    example: { spaceKey: 'DOCS', title: 'New Page', body: '<p>Hello World</p>', format: 'json' },
+    handler: (args, format) =>
+      createPage(
+        args.spaceKey as string,
+        args.title as string,
+        args.body as string,
+        args.parentId as string | undefined,
+        format,
+        args.bodyFormat as BodyFormat | undefined
+      ),
+  },
+  {
+    name: 'update-page',
+    description: 'Update an existing page',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID to update' },
+      { name: 'title', type: 'string', required: true, description: 'New page title' },
+      {
+        name: 'body',
+        type: 'string',
+        required: true,
+        description: 'New page body content in storage format (XHTML) or Markdown',
+        acceptsFile: true,
+        formatParam: 'bodyFormat',
+      },
+      BODY_FORMAT_PARAM,
+      {
+        name: 'version',
+        type: 'number',
+        description: 'Current page version number; fetched when omitted',
+        integer: true,
+        min: 1,
+      },
+      ...VERSION_PARAMS,
+    ],
+    example: {
+      pageId: '123456',
+      title: 'Updated Title',
+      body: '<p>Updated content</p>',
+      expectedVersion: 3,
+      versionMessage: 'Fix typos',
+    },
+    handler: args =>
+      updatePage(
+        args.pageId as string,
+        args.title as string,
+        args.body as string,
+        args.version as number | undefined,
+        args.bodyFormat as BodyFormat | undefined,
+        versionOptions(args)
+      ),
+  },
+  {
+    name: 'edit-page',
+    description: "Edit part of a page's current body: append, prepend, replace a section, or find and replace",
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID to edit' },
+      {
+        name: 'operation',
+        type: 'string',
+        required: true,
+        description: 'Edit to apply',
+        enum: ['append', 'prepend', 'replace-section', 'insert-after-heading', 'find-replace'],
+      },
+      {
+        name: 'content',
+        type: 'string',
+        description: 'Content to add, or to replace the section with, in storage format (XHTML) or Markdown',
+        acceptsFile: true,
+        formatParam: 'bodyFormat',
+      },
+      BODY_FORMAT_PARAM,
+      {
+        name: 'heading',
+        type: 'string',
+        description: 'Heading text for replace-section and insert-after-heading',
+      },
+      { name: 'find', type: 'string', description: 'Regular expression for find-replace, matched in the storage body' },
+      { name: 'replace', type: 'string', description: 'Replacement for find-replace; $1 refers to a capture group' },
+      ...VERSION_PARAMS,
+    ],
+    example: {
+      pageId: '123456',
+      operation: 'insert-after-heading',
+      heading: 'Changelog',
+      content: '- Released 2.1',
+      bodyFormat: 'markdown',
+    },
+    handler: args =>
+      editPage(
+        args.pageId as string,
+        {
+          operation: args.operation as EditOperation,
+          content: args.content as string | undefined,
+          heading: args.heading as string | undefined,
+          find: args.find as string | undefined,
+          replace: args.replace as string | undefined,
+        },
+        args.bodyFormat as BodyFormat | undefined,
+        versionOptions(args)
+      ),
+  },
+  {
+    name: 'replace',
+    description: 'Find and replace text across the pages matching a CQL scope, with a preview and a rollback report',
+    params: [
+      { name: 'cql', type: 'string', description: 'CQL condition selecting the pages' },
+      {
+        name: 'spaceKey',
+        type: 'string',
+        description: 'Only pages in this space',
+        projectDefault: 'spaceKey',
+      },
+      { name: 'label', type: 'string', description: 'Only pages with this label' },
+      { name: 'ancestorId', type: 'string', description: 'Only descendants of this page' },
+      { name: 'find', type: 'string', required: true, description: 'Text to find in the storage body' },
+      { name: 'replace', type: 'string', description: 'Replacement text ("" deletes the matches)' },
+      {
+        name: 'regex',
+        type: 'boolean',
+        description: 'Treat find as a regular expression; $1 in replace refers to a capture group',
+        default: false,
+      },
+      {
+        name: 'dryRun',
+        type: 'boolean',
+        description: 'Only show the preview; set to false (--no-dry-run) to apply it',
+        default: true,
+      },
+      {
+        name: 'batchSize',
+        type: 'number',
+        description: 'Pages updated at the same time',
+        default: 10,
+        integer: true,
+        min: 1,
+        max: 50,
+      },
+      {
+        name: 'reportFile',
+        type: 'string',
+        description: 'File to write the report of updated pages to (default: replace-report-<time>.json)',
+      },
+      { name: 'versionMessage', type: 'string', description: 'Change note shown in the page history' },
+      { name: 'minorEdit', type: 'boolean', description: 'Do not notify watchers of the change', default: false },
+    ],
+    example: { spaceKey: 'DOCS', label: 'billing', find: 'billing-api', replace: 'payments-api', dryRun: false },
+    handler: args =>
+      replace(
+        {
+          cql: args.cql as string | undefined,
+          spaceKey: args.spaceKey as string | undefined,
+          label: args.label as string | undefined,
+          ancestorId: args.ancestorId as string | undefined,
+        },
+        { find: args.find as string, replace: args.replace as string, regex: args.regex as boolean },
+        {
+          dryRun: args.dryRun as boolean,
+          batchSize: args.batchSize as number,
+          reportFile: args.reportFile as string | undefined,
+          versionMessage: args.versionMessage as string | undefined,
+          minorEdit: args.minorEdit as boolean,
+        }
+      ),
+  },
+  {
+    name: 'list-blogposts',
+    description: 'List blog posts, newest first, by space and publishing date',
+    params: [
+      {
+        name: 'spaceKey',
+        type: 'string',
+        description: 'Space key; defaults to the project space',
+        projectDefault: 'spaceKey',
+      },
+      { name: 'from', type: 'string', description: 'Only posts created on or after this date (YYYY-MM-DD)' },
+      { name: 'to', type: 'string', description: 'Only posts created before this date (YYYY-MM-DD)' },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Maximum number of results',
+        default: 25,
+        integer: true,
+        min: 1,
+        max: 250,
+      },
+      FORMAT_PARAM,
+    ],
+    example: { spaceKey: 'TEAM', from: '2026-01-01', limit: 10 },
+    handler: (args, format) =>
+      listBlogPosts(
+        args.spaceKey as string | undefined,
+        args.from as string | undefined,
+        args.to as string | undefined,
+        args.limit as number,
+        format
+      ),
+  },
+  {
+    name: 'get-blogpost',
+    description: 'Get details of a specific blog post',
+    params: [
+      { name: 'blogPostId', type: 'string', required: true, description: 'Blog post ID' },
+      {
+        name: 'bodyOnly',
+        type: 'boolean',
+        description: 'Print only the body (storage format, or converted with markdown/text)',
+        default: false,
+      },
+      {
+        ...FORMAT_PARAM,
+        description: 'Output format: json, toon, markdown or text (default: configured format)',
+        enum: ['json', 'toon', 'markdown', 'text'],
+      },
+    ],
+    example: { blogPostId: '123456', format: 'markdown' },
+    // Blog posts are read like pages: the same endpoint and rendering apply to both
+    handler: (args, format) =>
+      getPage(args.blogPostId as string, (args.format as PageFormat | undefined) ?? format, args.bodyOnly as boolean),
+  },
+  {
+    name: 'create-blogpost',
+    description: 'Publish a new blog post',
+    params: [
+      {
+        name: 'spaceKey',
+        type: 'string',
+        required: true,
+        description: 'Space key where the blog post will be published',
+        projectDefault: 'spaceKey',
+      },
+      { name: 'title', type: 'string', required: true, description: 'Blog post title' },
+      {
+        name: 'body',
+        type: 'string',
+        required: true,
+        description: 'Blog post body content in storage format (XHTML) or Markdown',
+        acceptsFile: true,
+        formatParam: 'bodyFormat',
+      },
+      BODY_FORMAT_PARAM,
+      FORMAT_PARAM,
+    ],
+    example: { spaceKey: 'TEAM', title: 'Weekly update', body: '@update.md' },
+    handler: (args, format) =>
+      createBlogPost(
+        args.spaceKey as string,
+        args.title as string,
+        args.body as string,
+        format,
+        args.bodyFormat as BodyFormat | undefined
+      ),
+  },
+  {
+    name: 'update-blogpost',
+    description: 'Update an existing blog post',
+    params: [
+      { name: 'blogPostId', type: 'string', required: true, description: 'Blog post ID to update' },
+      { name: 'title', type: 'string', required: true, description: 'New blog post title' },
+      {
+        name: 'body',
+        type: 'string',
+        required: true,
+        description: 'New blog post body content in storage format (XHTML) or Markdown',
+        acceptsFile: true,
+        formatParam: 'bodyFormat',
+      },
+      BODY_FORMAT_PARAM,
+      {
+        name: 'version',
+        type: 'number',
+        description: 'Current blog post version number; fetched when omitted',
+        integer: true,
+        min: 1,
+      },
+      ...VERSION_PARAMS,
+    ],
+    example: { blogPostId: '123456', title: 'Weekly update', body: '@update.md', versionMessage: 'Add metrics' },
+    handler: args =>
+      updateBlogPost(
+        args.blogPostId as string,
+        args.title as string,
+        args.body as string,
+        args.version as number | undefined,
+        args.bodyFormat as BodyFormat | undefined,
+        versionOptions(args)
+      ),
+  },
+  {
+    name: 'add-comment',
+    description: 'Add a comment to a page',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID to add comment to' },
+      {
+        name: 'body',
+        type: 'string',
+        required: true,
+        description: 'Comment body content in storage format (XHTML)',
+        acceptsFile: true,
+      },
+      FORMAT_PARAM,
+    ],
+    example: { pageId: '123456', body: '<p>Great article!</p>' },
+    handler: (args, format) => addComment(args.pageId as string, args.body as string, format),
+  },
+  {
+    name: 'delete-page',
+    description: 'Delete a page',
+    params: [{ name: 'pageId', type: 'string', required: true, description: 'Page ID to delete' }],
+    example: { pageId: '123456' },
+    handler: args => deletePage(args.pageId as string),
+  },
+  {
+    name: 'list-labels',
+    description: 'List the labels of a page',
+    params: [{ name: 'pageId', type: 'string', required: true, description: 'Page ID' }, FORMAT_PARAM],
+    example: { pageId: '123456' },
+    handler: (args, format) => listLabels(args.pageId as string, format),
+  },
+  {
+    name: 'add-labels',
+    description: 'Add labels to a page, or to every page matching a CQL query',
+    params: LABEL_TARGET_PARAMS,
+    example: { pageId: '123456', labels: 'runbook,ops' },
+    handler: args =>
+      addLabels(
+        { pageId: args.pageId as string | undefined, cql: args.cql as string | undefined },
+        listArg(args.labels)
+      ),
+  },
+  {
+    name: 'remove-labels',
+    description: 'Remove labels from a page, or from every page matching a CQL query',
+    params: LABEL_TARGET_PARAMS,
+    example: { cql: 'space=OPS AND label=draft', labels: 'draft' },
+    handler: args =>
+      removeLabels(
+        { pageId: args.pageId as string | undefined, cql: args.cql as string | undefined },
+        listArg(args.labels)
+      ),
+  },
+  {
+    name: 'list-attachments',
+    description: 'List the attachments of a page with their size, media type, version and download link',
+    params: [{ name: 'pageId', type: 'string', required: true, description: 'Page ID' }, FORMAT_PARAM],
+    example: { pageId: '123456' },
+    handler: (args, format) => listAttachments(args.pageId as string, format),
+  },
+  {
+    name: 'upload-attachment',
+    description: 'Upload files as attachments of a page; a file with the name of an attachment adds a new version',
+    params: [
+      { name: 'pageId', type: 'string', required: true, description: 'Page ID' },
+      {
+        name: 'files',
+        type: 'string',
+        required: true,
+        description:
+          'File paths or glob patterns (*, ?, **): one per --files flag or argument, a JSON list, or a comma-separated JSON string',
+        repeatable: true,
+      },
+      { name: 'comment', type: 'string', description: 'Comment stored with each attachment version' },
+      { name: 'minorEdit', type: 'boolean', description: 'Do not notify watchers of the change', default: false },
+    ],
+    example: { pageId: '123456', files: 'diagrams/*.png', comment: 'Release 2.4' },
+    handler: args =>
+      uploadAttachments(
+        args.pageId as string,
+        listArg(args.files),
+        args.comment as string | undefined,
+        args.minorEdit as boolean
+      ),
+  },
+  {
+    name: 'delete-attachment',
+    description: "Delete an attachment, moving it to the space's trash",
+    params: [{ name: 'attachmentId', type: 'string', required: true, description: 'Attachment ID to delete' }],
+    example: { attachmentId: 'att12345' },
+    handler: args => deleteAttachment(args.attachmentId as string),
+  },
+  {
+    name: 'list-attachment-versions',
+    description: 'List the versions of an attachment with their author, date and comment',
+    params: [
+      { name: 'attachmentId', type: 'string', required: true, description: 'Attachment ID' },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Maximum number of versions',
+        default: 25,
+        integer: true,
+        min: 1,
+        max: 200,
+      },
+      {
+        name: 'start',
+        type: 'number',
+        description: 'Starting index for pagination',
+        default: 0,
+        integer: true,
+        min: 0,
+      },
+      FORMAT_PARAM,
+    ],
+    example: { attachmentId: 'att12345' },
+    // Attachments are versioned content like pages, so their history is listed the same way
+    handler: (args, format) =>
+      listVersions(args.attachmentId as string, args.limit as number, args.start as number, format),
+  },
+  {
+    name: 'download-attachment',
+    description: 'Download an attachment from a page',
+    params: [
+      { name: 'attachmentId', type: 'string', required: true, description: 'Attachment ID to download' },
+      {
+        name: 'outputPath',
+        type: 'string',
+        description: 'Path to save the file (default: current directory with original filename)',
+      },
+    ],
+    example: { attachmentId: 'att12345', outputPath: './document.pdf' },
+    handler: args => downloadAttachment(args.attachmentId as string, args.outputPath as string | undefined),
+  },
+  {
+    name: 'pull',
+    description: 'Download a space or page tree as Markdown files with front matter, plus attachments',
+    params: [
+      {
+        name: 'spaceKey',
+        type: 'string',
+        description: 'Space to pull (ignored when pageId is given)',
+        projectDefault: 'spaceKey',
+      },
+      { name: 'pageId', type: 'string', description: 'Root page to pull with all its descendants' },
+      {
+        name: 'outputDir',
+        type: 'string',
+        description: 'Directory to write the files to',
+        default: '.',
+      },
+      {
+        name: 'force',
+        type: 'boolean',
+        description: 'Overwrite files edited since they were last pulled or pushed',
+        default: false,
+      },
+    ],
+    example: { spaceKey: 'DOCS', outputDir: './docs' },
+    handler: args =>
+      pull(
+        args.spaceKey as string | undefined,
+        args.pageId as string | undefined,
+        args.outputDir as string,
+        args.force as boolean
+      ),
+  },
+  {
+    name: 'push',
+    description: 'Publish a directory of Markdown files under a parent page, creating and updating pages',
+    params: [
+      { name: 'sourceDir', type: 'string', required: true, description: 'Directory of Markdown files to push' },
+      {
+        name: 'parentId',
+        type: 'string',
+        required: true,
+        description: 'Page the directory is published under',
+        projectDefault: 'parentId',
+      },
+      {
+        name: 'dryRun',
+        type: 'boolean',
+        description: 'Only show the plan; set to false (--no-dry-run) to apply it',
+        default: true,
+      },
+      {
+        name: 'force',
+        type: 'boolean',
+        description: 'Overwrite pages changed in Confluence since they were last pulled or pushed',
+        default: false,
+      },
+    ],
+    example: { sourceDir: './docs', parentId: '123456', dryRun: false },
+    handler: args =>
+      push(args.sourceDir as string, args.parentId as string, args.dryRun as boolean, args.force as boolean),
+  },
+  {
+    name: 'sync-status',
+    description: 'Show which local page files are modified locally or in Confluence, or in conflict',
+    params: [{ name: 'dir', type: 'string', description: 'Directory of pulled or pushed page files', default: '.' }],
+    example: { dir: './docs' },
+    handler: args => syncStatus(args.dir as string),
+  },
+  {
+    name: 'sync-diff',
+    description: 'Show how local page files differ from their pages in Confluence',
+    params: [
+      { name: 'dir', type: 'string', description: 'Directory of pulled or pushed page files', default: '.' },
+      { name: 'file', type: 'string', description: 'Only compare this page file' },
+    ],
+    example: { dir: './docs', file: './docs/getting-started.md' },
+    handler: args => syncDiff(args.dir as string, args.file as string | undefined),
+  },
+  {
+    name: 'get-user',
+    description: 'Get user information',
+    params: [
+      { name: 'accountId', type: 'string', description: 'User account ID' },
+      { name: 'username', type: 'string', description: 'Username to search for' },
+      FORMAT_PARAM,
+    ],
+    example: { accountId: '5b10a2844c20165700ede21g', format: 'json' },
+    handler: (args, format) =>
+      getUser(args.accountId as string | undefined, args.username as string | undefined, format),
+  },
+  {
+    name: 'test-connection',
+    description: 'Test Confluence API connection',
+    params: [],
+    example: {},
+    handler: () => testConnection(),
+  },
 ];
+
+/**
+ * Available Confluence command names
+ */
+export const COMMANDS: string[] = COMMAND_DEFINITIONS.map(command => command.name);
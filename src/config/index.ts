@@ -1 +1,2 @@
-export { COMMANDS, COMMANDS_INFO, COMMANDS_DETAIL } from './constants.js';
+export { COMMANDS, COMMAND_DEFINITIONS, VALIDATION_EXIT_CODE } from './constants.js';
+export type { CommandArgs, CommandDefinition, CommandParam } from './constants.js';
@@ -1,24 +1,63 @@
 import { getCurrentVersion, printAvailableCommands, printCommandDetail, runCommand } from '../commands/index.js';
-import { COMMANDS } from '../config/index.js';
-import { setupConfig } from './config-loader.js';
+import { COMMANDS, VALIDATION_EXIT_CODE } from '../config/index.js';
+import {
+  getConfigValue,
+  listConfigValues,
+  setConfigValue,
+  unsetConfigValue,
+  validateConfigFile,
+} from './config-editor.js';
+import { CONFIG_PATH, setupConfig, showConfig } from './config-loader.js';
+import { setActiveProfile } from './confluence-client.js';
+
+/**
+ * Removes the global `--profile <name>` / `--profile=<name>` option from the arguments
+ * Arguments after `--` are left untouched.
+ */
+const extractProfileOption = (argv: string[]): { profile?: string; args: string[] } => {
+  const args: string[] = [];
+  let profile: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    if (token === '--') {
+      args.push(...argv.slice(i));
+      break;
+    }
+    if (token === '--profile') {
+      if (i + 1 >= argv.length || argv[i + 1].startsWith('-')) {
+        console.error('ERROR: option "--profile" requires a profile name');
+        process.exit(VALIDATION_EXIT_CODE);
+      }
+      profile = argv[++i];
+    } else if (token.startsWith('--profile=')) {
+      profile = token.slice('--profile='.length);
+    } else {
+      args.push(token);
+    }
+  }
+
+  return { profile, args };
+};
 
 /**
  * Parses and handles command line arguments
- * @param args - Command line arguments (process.argv.slice(2))
+ * @param argv - Command line arguments (process.argv.slice(2))
  * @returns true if arguments were handled and should exit, false to continue to interactive mode
  */
-export const parseArguments = async (args: string[]): Promise<boolean> => {
+export const parseArguments = async (argv: string[]): Promise<boolean> => {
+  const { profile, args } = extractProfileOption(argv);
+  setActiveProfile(profile);
+
+  // Two-word commands (`sync status`) name their hyphenated form
+  if (args.length >= 2 && COMMANDS.includes(`${args[0]}-${args[1]}`)) {
+    args.splice(0, 2, `${args[0]}-${args[1]}`);
+  }
+
   for (let i = 0; i < args.length; i++) {
     // Config setup/update command
     if (args[i] === 'config') {
-      try {
-        await setupConfig();
-        process.exit(0);
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`Configuration setup failed: ${errorMessage}`);
-        process.exit(1);
-      }
+      await runConfigCommand(args.slice(i + 1), profile);
     }
 
     // Version flag
@@ -34,7 +73,7 @@ export const parseArguments = async (args: string[]): Promise<boolean> => {
     }
 
     // Command-specific help
-    if (i === 0 && args.length >= 2 && args[1] === '-h') {
+    if (i === 0 && args.length >= 2 && (args[1] === '-h' || args[1] === '--help')) {
       printCommandDetail(args[0]);
       process.exit(0);
     }
@@ -46,12 +85,8 @@ export const parseArguments = async (args: string[]): Promise<boolean> => {
     }
 
     // Execute command in headless mode
-    if (i === 0 && args.length >= 1 && args[1] !== '-h' && COMMANDS.includes(args[0])) {
-      const rest = args.slice(1);
-      const params = (rest.find(a => !a.startsWith('-')) ?? null) as string | null;
-      const flag = (rest.find(a => a.startsWith('-')) ?? null) as string | null;
-
-      await runCommand(args[0], params, flag);
+    if (i === 0 && args.length >= 1 && COMMANDS.includes(args[0])) {
+      await runCommand(args[0], args.slice(1));
       process.exit(0);
     }
   }
@@ -59,6 +94,120 @@ export const parseArguments = async (args: string[]): Promise<boolean> => {
   return false;
 };
 
+/**
+ * Non-interactive `config` subcommands
+ * Each handler prints its output and returns the process exit code.
+ */
+const CONFIG_SUBCOMMANDS: Record<
+  string,
+  { usage: string; argCount: number; run: (args: string[], profile: string | undefined) => number }
+> = {
+  show: {
+    usage: 'config show',
+    argCount: 0,
+    run: (_args, profile) => {
+      showConfig(profile);
+      return 0;
+    },
+  },
+  get: {
+    usage: 'config get <key>',
+    argCount: 1,
+    run: ([key], profile) => {
+      const value = getConfigValue(key, profile);
+      if (value === undefined) {
+        return 1;
+      }
+      console.log(value);
+      return 0;
+    },
+  },
+  set: {
+    usage: 'config set <key> <value>',
+    argCount: 2,
+    run: ([key, value], profile) => {
+      setConfigValue(key, value, profile);
+      console.log(`✓ Set ${key} in ${CONFIG_PATH}`);
+      return 0;
+    },
+  },
+  unset: {
+    usage: 'config unset <key>',
+    argCount: 1,
+    run: ([key], profile) => {
+      if (!unsetConfigValue(key, profile)) {
+        console.error(`${key} is not set`);
+        return 1;
+      }
+      console.log(`✓ Removed ${key} from ${CONFIG_PATH}`);
+      return 0;
+    },
+  },
+  list: {
+    usage: 'config list',
+    argCount: 0,
+    run: () => {
+      listConfigValues().forEach(line => console.log(line));
+      return 0;
+    },
+  },
+  validate: {
+    usage: 'config validate',
+    argCount: 0,
+    run: () => {
+      const { errors, warnings } = validateConfigFile();
+      warnings.forEach(warning => console.warn(`WARNING: ${warning}`));
+      errors.forEach(error => console.error(`ERROR: ${error}`));
+      if (errors.length > 0) {
+        return 1;
+      }
+      console.log(`✓ ${CONFIG_PATH} is valid`);
+      return 0;
+    },
+  },
+};
+
+/**
+ * Runs `config` (interactive setup) or one of its subcommands, then exits
+ * @param configArgs - Arguments following `config`
+ * @param profile - Profile selected with --profile
+ */
+const runConfigCommand = async (configArgs: string[], profile: string | undefined): Promise<void> => {
+  const [subcommand, ...rest] = configArgs;
+
+  if (subcommand !== undefined) {
+    const handler = CONFIG_SUBCOMMANDS[subcommand];
+    if (!handler) {
+      const available = Object.keys(CONFIG_SUBCOMMANDS).join(', ');
+      console.error(`Unknown config command: ${subcommand}. Available: ${available}`);
+      process.exit(1);
+      return;
+    }
+    if (rest.length !== handler.argCount) {
+      console.error(`Usage: conni-cli ${handler.usage}`);
+      process.exit(VALIDATION_EXIT_CODE);
+      return;
+    }
+    try {
+      process.exit(handler.run(rest, profile));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`ERROR: ${errorMessage}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  try {
+    await setupConfig(profile);
+    process.exit(0);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Configuration setup failed: ${errorMessage}`);
+    process.exit(1);
+  }
+};
+
 /**
  * Prints general help message for the CLI
  */
@@ -70,9 +219,15 @@ Usage:
 
 conni-cli                             start interactive CLI
 conni-cli config                      setup or update configuration
+conni-cli config --profile <name>     setup or update a named profile
+conni-cli config show                 show the effective configuration and its sources
+conni-cli config get|set|unset <key>  read or edit one setting (e.g. defaults.format toon)
+conni-cli config list|validate        list or check the settings in ~/.connicli
 conni-cli --commands                  list all available commands
 conni-cli <command> -h                quick help on <command>
 conni-cli <command> <arg>             run command in headless mode
+conni-cli <command> --<flag> <value>  run command with flag arguments
+conni-cli --profile <name> ...        use a named profile (or set CONNI_PROFILE)
 
 All commands:
 
@@ -80,9 +235,13 @@ ${COMMANDS.join(', ')}
 
 Examples:
   conni-cli config
+  conni-cli config set defaults.format toon
   conni-cli list-spaces
   conni-cli get-page '{"pageId":"123456"}'
+  conni-cli get-page --page-id 123456 --format toon
+  conni-cli create-page --space-key DOCS --title "New Page" --body @page.html
   conni-cli list-pages '{"spaceKey":"DOCS","limit":10}'
+  conni-cli --profile staging list-spaces
   conni-cli test-connection
 
 `);
@@ -0,0 +1,204 @@
+import type { ConfluenceClient } from 'confluence.js';
+
+import { cqlString, searchAll } from './cql.js';
+
+/**
+ * Find and replace text across the pages matching a CQL query
+ */
+
+/**
+ * Pages a replace applies to; the conditions are combined with AND
+ */
+export interface ReplaceScope {
+  /** Additional CQL condition */
+  cql?: string;
+  spaceKey?: string;
+  label?: string;
+  /** Only descendants of this page */
+  ancestorId?: string;
+}
+
+/**
+ * What to find and what to replace it with
+ */
+export interface ReplaceRule {
+  find: string;
+  replace: string;
+  /** Treat `find` as a regular expression, and allow `$1` in `replace` */
+  regex?: boolean;
+}
+
+/**
+ * A page with matches, and its body after the replacement
+ */
+export interface PageReplacement {
+  pageId: string;
+  title: string;
+  version: number;
+  matches: number;
+  /** Before and after lines around the first matches */
+  preview: string[];
+  body: string;
+}
+
+/**
+ * Page fields returned by the search
+ */
+interface SearchedPage {
+  id: string;
+  title: string;
+  version?: { number?: number };
+  body?: { storage?: { value?: string } };
+}
+
+/** Characters shown on each side of a match in the preview */
+const PREVIEW_CONTEXT = 30;
+
+/** Matches shown in the preview of each page */
+const PREVIEW_MATCHES = 5;
+
+/**
+ * Build the CQL query for a scope
+ */
+export function scopeCql(scope: ReplaceScope): string {
+  const conditions: string[] = [];
+  if (scope.spaceKey) {
+    conditions.push(`space=${cqlString(scope.spaceKey)}`);
+  }
+  if (scope.label) {
+    conditions.push(`label=${cqlString(scope.label)}`);
+  }
+  if (scope.ancestorId) {
+    conditions.push(`ancestor=${cqlString(scope.ancestorId)}`);
+  }
+  if (scope.cql) {
+    conditions.push(`(${scope.cql})`);
+  }
+  if (conditions.length === 0) {
+    throw new Error('One of cql, spaceKey, label or ancestorId is required');
+  }
+  return ['type=page', ...conditions].join(' AND ');
+}
+
+function rulePattern(rule: ReplaceRule): RegExp {
+  if (!rule.find) {
+    throw new Error('"find" must not be empty');
+  }
+  if (rule.replace === undefined) {
+    throw new Error('"replace" is required; use "" to delete the matches');
+  }
+  const source = rule.regex ? rule.find : rule.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, 'g');
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid pattern: ${errorMessage}`);
+  }
+}
+
+const excerpt = (text: string): string => text.replace(/\s+/g, ' ');
+
+/**
+ * Expand `$$`, `$&`, `` $` ``, `$'`, `$1` and `$<name>` in a replacement, as String.prototype.replace does
+ * The groups come from the match in the whole body, so lookarounds and anchors keep their context.
+ */
+function expandReplacement(
+  template: string,
+  match: string,
+  captures: (string | undefined)[],
+  groups: Record<string, string | undefined> | undefined,
+  offset: number,
+  body: string
+): string {
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<[^>]*>)/g, (token: string, ref: string) => {
+    if (ref === '$') {
+      return '$';
+    }
+    if (ref === '&') {
+      return match;
+    }
+    if (ref === '`') {
+      return body.slice(0, offset);
+    }
+    if (ref === "'") {
+      return body.slice(offset + match.length);
+    }
+    if (ref.startsWith('<')) {
+      return groups ? (groups[ref.slice(1, -1)] ?? '') : token;
+    }
+    // `$12` refers to group 12 if it exists, otherwise to group 1 followed by "2"
+    const index = Number(ref);
+    if (index >= 1 && index <= captures.length) {
+      return captures[index - 1] ?? '';
+    }
+    const single = Number(ref[0]);
+    if (ref.length === 2 && single >= 1 && single <= captures.length) {
+      return (captures[single - 1] ?? '') + ref[1];
+    }
+    return token;
+  });
+}
+
+/**
+ * Replace every match in a body, collecting before and after lines for the first matches
+ */
+function replaceInBody(
+  body: string,
+  pattern: RegExp,
+  rule: ReplaceRule
+): { body: string; matches: number; preview: string[] } {
+  const preview: string[] = [];
+  let matches = 0;
+  const replaced = body.replace(pattern, (match: string, ...args: unknown[]) => {
+    // The captures are followed by the offset, the whole string and, with named groups, the groups object
+    const offsetIndex = args.findIndex(arg => typeof arg === 'number');
+    const offset = args[offsetIndex] as number;
+    const captures = args.slice(0, offsetIndex) as (string | undefined)[];
+    const groups = args[offsetIndex + 2] as Record<string, string | undefined> | undefined;
+    const replacement = rule.regex
+      ? expandReplacement(rule.replace, match, captures, groups, offset, body)
+      : rule.replace;
+    matches++;
+    if (matches <= PREVIEW_MATCHES) {
+      const before = excerpt(body.slice(Math.max(0, offset - PREVIEW_CONTEXT), offset));
+      const after = excerpt(body.slice(offset + match.length, offset + match.length + PREVIEW_CONTEXT));
+      preview.push(`- …${before}${excerpt(match)}${after}…`, `+ …${before}${excerpt(replacement)}${after}…`);
+    }
+    return replacement;
+  });
+  if (matches > PREVIEW_MATCHES) {
+    preview.push(`  … ${matches - PREVIEW_MATCHES} more`);
+  }
+  return { body: replaced, matches, preview };
+}
+
+/**
+ * Find the pages of a query whose storage body matches, and what replacing the matches gives
+ * Nothing is changed; the replacements are saved by the caller.
+ * @param client - Confluence client
+ * @param cql - Query selecting the pages
+ * @param rule - What to find and what to replace it with
+ * @returns The pages with at least one match, in search order
+ */
+export async function planReplacements(
+  client: ConfluenceClient,
+  cql: string,
+  rule: ReplaceRule
+): Promise<PageReplacement[]> {
+  const pattern = rulePattern(rule);
+  const replacements: PageReplacement[] = [];
+  for (const page of await searchAll<SearchedPage>(client, cql, ['body.storage', 'version'])) {
+    const { body, matches, preview } = replaceInBody(page.body?.storage?.value ?? '', pattern, rule);
+    if (matches > 0) {
+      replacements.push({
+        pageId: page.id,
+        title: page.title,
+        version: page.version?.number ?? 0,
+        matches,
+        preview,
+        body,
+      });
+    }
+  }
+  return replacements;
+}
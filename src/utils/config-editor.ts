@@ -0,0 +1,268 @@
+import fs from 'fs';
+
+import {
+  AUTH_TYPES,
+  CONFIG_PATH,
+  DEFAULT_PROFILE,
+  PROFILE_NAME_PATTERN,
+  isValidEmail,
+  isValidUrl,
+  parseIniConfig,
+  redactToken,
+  writeConfigFile,
+} from './config-loader.js';
+import type { AuthType } from './config-loader.js';
+
+/**
+ * Non-interactive editing of ~/.connicli
+ *
+ * Keys are written as `<section>.<key>`: `auth.host`, `defaults.format` or `profile.staging.host`.
+ * A bare key (e.g. `host`) refers to the selected profile's section. Edits change only the
+ * affected line, so comments, ordering and unknown sections are preserved.
+ */
+
+/** Keys accepted in [auth] and [profile <name>] sections */
+const PROFILE_KEYS = ['host', 'auth_type', 'email', 'api_token', 'token_command', 'format'];
+
+/** Keys accepted in the [defaults] section */
+const DEFAULTS_KEYS = ['format', 'profile'];
+
+/**
+ * Value checks for keys with a restricted format
+ * Each returns an error message, or undefined if the value is acceptable.
+ */
+const VALUE_CHECKS: Record<string, (value: string) => string | undefined> = {
+  host: value => (isValidUrl(value) ? undefined : 'Invalid URL format. Please include http:// or https://'),
+  email: value => (isValidEmail(value) ? undefined : 'Invalid email format'),
+  format: value => (value === 'json' || value === 'toon' ? undefined : `Must be 'json' or 'toon'`),
+  auth_type: value => (AUTH_TYPES.includes(value as AuthType) ? undefined : `Must be one of: ${AUTH_TYPES.join(', ')}`),
+  profile: value => (PROFILE_NAME_PATTERN.test(value) ? undefined : 'Invalid profile name'),
+};
+
+/**
+ * A config key resolved to the INI section and key it refers to
+ */
+interface ConfigKey {
+  /** Section name as written between brackets (e.g. "auth" or "profile staging") */
+  section: string;
+  key: string;
+}
+
+/**
+ * Resolve a dotted config key to its section and key
+ * @param key - `<section>.<key>`, `profile.<name>.<key>` or a bare key
+ * @param profile - Profile whose section a bare key refers to
+ * @throws Error if the key is malformed or not a known setting
+ */
+function parseConfigKey(key: string, profile: string = DEFAULT_PROFILE): ConfigKey {
+  const parts = key.split('.');
+  let section: string;
+
+  if (parts.length === 1) {
+    section = profile === DEFAULT_PROFILE ? 'auth' : `profile ${profile}`;
+  } else if (parts.length === 2 && (parts[0] === 'auth' || parts[0] === 'defaults')) {
+    section = parts[0];
+  } else if (parts.length === 3 && parts[0] === 'profile' && PROFILE_NAME_PATTERN.test(parts[1])) {
+    section = `profile ${parts[1]}`;
+  } else {
+    throw new Error(
+      `Invalid config key: ${key}. Use <section>.<key>, e.g. auth.host, defaults.format or profile.staging.host`
+    );
+  }
+
+  const name = parts[parts.length - 1];
+  const allowed = section === 'defaults' ? DEFAULTS_KEYS : PROFILE_KEYS;
+  if (!allowed.includes(name)) {
+    throw new Error(`Unknown key "${name}" in [${section}]. Valid keys: ${allowed.join(', ')}`);
+  }
+
+  return { section, key: name };
+}
+
+/**
+ * A single line of the config file with the section it belongs to
+ */
+interface IniLine {
+  text: string;
+  section: string | null;
+  /** Key name for key=value lines */
+  key?: string;
+  /** Value for key=value lines */
+  value?: string;
+}
+
+/**
+ * Split config content into lines, tagging each with its section and key
+ */
+function scanLines(content: string): IniLine[] {
+  let section: string | null = null;
+
+  return content.split('\n').map(text => {
+    const trimmed = text.trim();
+    const sectionMatch = trimmed.match(/^\[([^\]]+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim().replace(/\s+/g, ' ');
+      return { text, section };
+    }
+    const keyValueMatch = trimmed.startsWith('#') ? null : trimmed.match(/^([^=]+)=(.*)$/);
+    if (keyValueMatch && section) {
+      return { text, section, key: keyValueMatch[1].trim(), value: keyValueMatch[2].trim() };
+    }
+    return { text, section };
+  });
+}
+
+/**
+ * Find the index of the last line matching a predicate
+ * @returns The index, or -1 if no line matches
+ */
+function findLastLine(lines: IniLine[], predicate: (line: IniLine) => boolean): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (predicate(lines[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Read the raw config file content, or an empty string if it doesn't exist
+ */
+function readRawConfig(): string {
+  if (!fs.existsSync(CONFIG_PATH)) {
+    return '';
+  }
+  try {
+    return fs.readFileSync(CONFIG_PATH, 'utf-8');
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read config: ${errorMessage}`);
+  }
+}
+
+/**
+ * Get a value from the config file
+ * Environment variables are not applied; use `config show` for the effective configuration.
+ * @param key - Config key (see parseConfigKey)
+ * @param profile - Profile whose section a bare key refers to
+ * @returns The value, or undefined if the key is not set
+ */
+export function getConfigValue(key: string, profile?: string): string | undefined {
+  const { section, key: name } = parseConfigKey(key, profile);
+  const lines = scanLines(readRawConfig());
+  const index = findLastLine(lines, line => line.section === section && line.key === name);
+  return index === -1 ? undefined : lines[index].value;
+}
+
+/**
+ * Set a value in the config file, creating the file or section if needed
+ * An existing key is updated on its own line; a new key is added at the end of its section.
+ * @param key - Config key (see parseConfigKey)
+ * @param value - New value
+ * @param profile - Profile whose section a bare key refers to
+ * @throws Error if the key is unknown or the value is invalid
+ */
+export function setConfigValue(key: string, value: string, profile?: string): void {
+  const { section, key: name } = parseConfigKey(key, profile);
+  const trimmedValue = value.trim();
+  if (!trimmedValue) {
+    throw new Error(`Invalid value for ${key}: must not be empty (use "config unset" to remove it)`);
+  }
+  const problem = VALUE_CHECKS[name]?.(trimmedValue);
+  if (problem) {
+    throw new Error(`Invalid value for ${key}: ${problem}`);
+  }
+
+  const lines = scanLines(readRawConfig());
+  const entry = `${name}=${trimmedValue}`;
+  const existing = findLastLine(lines, line => line.section === section && line.key === name);
+  const headerIndex = lines.findIndex(line => line.section === section && line.key === undefined);
+
+  if (existing !== -1) {
+    lines[existing] = { text: entry, section, key: name, value: trimmedValue };
+  } else if (headerIndex !== -1) {
+    const lastKey = findLastLine(lines, line => line.section === section && line.key !== undefined);
+    lines.splice(Math.max(lastKey, headerIndex) + 1, 0, { text: entry, section, key: name });
+  } else {
+    // Append a new section, separated from existing content by a blank line
+    while (lines.length > 0 && lines[lines.length - 1].text.trim() === '') {
+      lines.pop();
+    }
+    const separator = lines.length > 0 ? [{ text: '', section: null }] : [];
+    lines.push(...separator, { text: `[${section}]`, section }, { text: entry, section }, { text: '', section });
+  }
+
+  writeConfigFile(lines.map(line => line.text).join('\n'));
+}
+
+/**
+ * Remove a key from the config file
+ * @param key - Config key (see parseConfigKey)
+ * @param profile - Profile whose section a bare key refers to
+ * @returns true if the key was set and has been removed
+ */
+export function unsetConfigValue(key: string, profile?: string): boolean {
+  const { section, key: name } = parseConfigKey(key, profile);
+  const lines = scanLines(readRawConfig());
+  const remaining = lines.filter(line => !(line.section === section && line.key === name));
+
+  if (remaining.length === lines.length) {
+    return false;
+  }
+  writeConfigFile(remaining.map(line => line.text).join('\n'));
+  return true;
+}
+
+/**
+ * List every value in the config file in file order, with API tokens redacted
+ * @returns Lines of the form `<section>.<key>=<value>`
+ */
+export function listConfigValues(): string[] {
+  return scanLines(readRawConfig()).flatMap(({ section, key, value }) => {
+    if (section === null || key === undefined) {
+      return [];
+    }
+    const shown = key === 'api_token' && value ? redactToken(value) : value;
+    return [`${section.replace(' ', '.')}.${key}=${shown}`];
+  });
+}
+
+/**
+ * Check the config file for problems without contacting Confluence
+ * Token commands are not run.
+ * @returns Errors that make a profile unusable, and warnings about unknown or ignored settings
+ */
+export function validateConfigFile(): { errors: string[]; warnings: string[] } {
+  if (!fs.existsSync(CONFIG_PATH)) {
+    return { errors: [`No config file at ${CONFIG_PATH}. Run: conni-cli config`], warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const configFile = parseIniConfig(readRawConfig(), warnings);
+
+  for (const [name, settings] of Object.entries(configFile.profiles)) {
+    const section = name === DEFAULT_PROFILE ? '[auth]' : `[profile ${name}]`;
+    const authType = settings.authType ?? 'basic';
+
+    if (!settings.host) {
+      errors.push(`${section} host is required`);
+    } else if (!isValidUrl(settings.host)) {
+      errors.push(`${section} invalid host: ${settings.host}`);
+    }
+    if (authType === 'basic' && !settings.email) {
+      errors.push(`${section} email is required for basic auth`);
+    } else if (settings.email && !isValidEmail(settings.email)) {
+      errors.push(`${section} invalid email: ${settings.email}`);
+    }
+    if (!settings.apiToken && !settings.tokenCommand) {
+      errors.push(`${section} api_token or token_command is required`);
+    }
+  }
+
+  if (configFile.defaultProfile && !configFile.profiles[configFile.defaultProfile]) {
+    errors.push(`[defaults] profile refers to unknown profile: ${configFile.defaultProfile}`);
+  }
+
+  return { errors, warnings };
+}
@@ -3,59 +3,155 @@ import os from 'os';
 import path from 'path';
 import readline from 'readline';
 
+import { runTokenCommand, secretServiceLookupCommand, storeSecretServiceToken } from './credential-store.js';
+import { loadProjectConfig } from './project-config.js';
+import type { ProjectConfig } from './project-config.js';
+
+/**
+ * Supported authentication types
+ * - basic: email + API token (Confluence Cloud)
+ * - pat: personal access token sent as a Bearer token (Data Center / Server)
+ * - oauth: OAuth 2.0 access token sent as a Bearer token
+ */
+export type AuthType = 'basic' | 'pat' | 'oauth';
+
+export const AUTH_TYPES: AuthType[] = ['basic', 'pat', 'oauth'];
+
+/**
+ * Where the config wizard keeps the token
+ * - file: api_token in ~/.connicli
+ * - secret-service: the freedesktop Secret Service, read back with secret-tool
+ * - command: a token_command that prints the token
+ */
+type TokenStorage = 'file' | 'secret-service' | 'command';
+
+const TOKEN_STORAGES: TokenStorage[] = ['file', 'secret-service', 'command'];
+
+/**
+ * Placeholder accepted by the token prompt to keep the token already in the Secret Service
+ */
+const KEEP_STORED_TOKEN = '<stored in Secret Service>';
+
+/**
+ * Wizard prompt label for the token of each authentication type
+ */
+const TOKEN_LABELS: Record<AuthType, string> = {
+  basic: 'api_token',
+  pat: 'api_token (personal access token)',
+  oauth: 'api_token (OAuth 2.0 access token)',
+};
+
 /**
  * Main configuration structure
  */
 export interface Config {
+  profile: string;
   host: string;
-  email: string;
+  authType: AuthType;
+  /** Account email, required for basic auth only */
+  email?: string;
+  /** API token, personal access token or OAuth access token, depending on authType */
   apiToken: string;
   defaultFormat: 'json' | 'toon';
 }
 
+/**
+ * Settings stored for a single connection profile
+ */
+interface ProfileSettings {
+  host?: string;
+  authType?: AuthType;
+  email?: string;
+  apiToken?: string;
+  tokenCommand?: string;
+  defaultFormat?: 'json' | 'toon';
+}
+
+/**
+ * Parsed contents of the config file
+ */
+interface ConfigFile {
+  profiles: Record<string, ProfileSettings>;
+  defaultProfile?: string;
+  defaultFormat?: 'json' | 'toon';
+}
+
 /**
  * Confluence client options for confluence.js library
  */
 interface ConfluenceClientOptions {
   host: string;
-  authentication: {
-    basic: {
-      email: string;
-      apiToken: string;
-    };
-  };
+  authentication: { basic: { email: string; apiToken: string } } | { oauth2: { accessToken: string } };
 }
 
-const CONFIG_PATH = path.join(os.homedir(), '.connicli');
+export const CONFIG_PATH = path.join(os.homedir(), '.connicli');
+
+/**
+ * Name of the profile stored in the [auth] section
+ */
+export const DEFAULT_PROFILE = 'default';
+
+export const PROFILE_NAME_PATTERN = /^[\w.-]+$/;
 
 /**
  * Parse INI-style config file content
+ * @param content - Config file content
+ * @param collectWarnings - Array to collect warnings into; warnings are logged when omitted
  */
-function parseIniConfig(content: string): Partial<Config> {
-  const config: Partial<Config> = {};
+export function parseIniConfig(content: string, collectWarnings?: string[]): ConfigFile {
+  const config: ConfigFile = { profiles: {} };
   const lines = content.split('\n');
   let currentSection: string | null = null;
-  const warnings: string[] = [];
+  const warnings: string[] = collectWarnings ?? [];
 
-  // Define valid sections and their key handlers
-  const sectionHandlers: Record<string, Record<string, (value: string, warn: string[]) => void>> = {
-    auth: {
+  const parseFormat = (value: string, warn: string[]): 'json' | 'toon' | undefined => {
+    if (value === 'json' || value === 'toon') {
+      return value;
+    }
+    warn.push(`Invalid format value: "${value}". Must be 'json' or 'toon'.`);
+    return undefined;
+  };
+
+  // Key handlers shared by [auth] and [profile <name>] sections; the profile exists once its header is parsed
+  const profileHandlers = (name: string): Record<string, (value: string, warn: string[]) => void> => {
+    const profile = (config.profiles[name] ??= {});
+    return {
       host: value => {
-        config.host = value;
+        profile.host = value;
+      },
+      auth_type: (value, warn) => {
+        if (AUTH_TYPES.includes(value as AuthType)) {
+          profile.authType = value as AuthType;
+        } else {
+          warn.push(`Invalid auth_type value: "${value}". Must be one of: ${AUTH_TYPES.join(', ')}.`);
+        }
       },
       email: value => {
-        config.email = value;
+        profile.email = value;
       },
       api_token: value => {
-        config.apiToken = value;
+        profile.apiToken = value;
       },
-    },
+      token_command: value => {
+        profile.tokenCommand = value;
+      },
+      format: (value, warn) => {
+        profile.defaultFormat = parseFormat(value, warn) ?? profile.defaultFormat;
+      },
+    };
+  };
+
+  // Define valid sections and their key handlers; profile sections are added as they are found
+  const sectionHandlers: Record<string, Record<string, (value: string, warn: string[]) => void>> = {
     defaults: {
       format: (value, warn) => {
-        if (value === 'json' || value === 'toon') {
-          config.defaultFormat = value;
+        config.defaultFormat = parseFormat(value, warn) ?? config.defaultFormat;
+      },
+      profile: (value, warn) => {
+        if (PROFILE_NAME_PATTERN.test(value)) {
+          config.defaultProfile = value;
         } else {
-          warn.push(`Invalid format value: "${value}". Must be 'json' or 'toon'.`);
+          warn.push(`Invalid profile name: "${value}".`);
         }
       },
     },
@@ -72,7 +168,17 @@ function parseIniConfig(content: string): Partial<Config> {
     // Section header
     const sectionMatch = trimmedLine.match(/^\[([^\]]+)\]$/);
     if (sectionMatch) {
-      currentSection = sectionMatch[1];
+      currentSection = sectionMatch[1].trim();
+      const profileMatch = currentSection.match(/^profile\s+(\S+)$/);
+      const profileName =
+        currentSection === 'auth'
+          ? DEFAULT_PROFILE
+          : profileMatch && PROFILE_NAME_PATTERN.test(profileMatch[1])
+            ? profileMatch[1]
+            : undefined;
+      if (profileName && !sectionHandlers[currentSection]) {
+        sectionHandlers[currentSection] = profileHandlers(profileName);
+      }
       if (!sectionHandlers[currentSection]) {
         warnings.push(`Unknown section: [${currentSection}]`);
       }
@@ -95,7 +201,7 @@ function parseIniConfig(content: string): Partial<Config> {
   }
 
   // Log warnings if any
-  if (warnings.length > 0) {
+  if (!collectWarnings && warnings.length > 0) {
     console.warn('Configuration warnings:');
     warnings.forEach(w => console.warn(` - ${w}`));
   }
@@ -108,7 +214,7 @@ function parseIniConfig(content: string): Partial<Config> {
  * @param email - Email address to validate
  * @returns true if email matches basic format (local@domain.tld)
  */
-function isValidEmail(email: string): boolean {
+export function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
 }
@@ -118,7 +224,7 @@ function isValidEmail(email: string): boolean {
  * @param url - URL string to validate
  * @returns true if string is a valid URL with protocol (http:// or https://)
  */
-function isValidUrl(url: string): boolean {
+export function isValidUrl(url: string): boolean {
   try {
     new URL(url);
     return true;
@@ -171,6 +277,43 @@ async function promptHost(currentValue?: string): Promise<string> {
   });
 }
 
+/**
+ * Prompt for authentication type (basic/pat/oauth)
+ */
+async function promptAuthType(currentValue: AuthType = 'basic'): Promise<AuthType> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve, reject) => {
+    const ask = () => {
+      rl.write(currentValue);
+      rl.question('auth_type (basic, pat, oauth): ', authType => {
+        authType = authType.trim().toLowerCase();
+        if (!authType) {
+          rl.close();
+          resolve(currentValue);
+          return;
+        }
+        if (AUTH_TYPES.includes(authType as AuthType)) {
+          rl.close();
+          resolve(authType as AuthType);
+          return;
+        }
+        console.log('Invalid auth type. Please choose basic, pat or oauth.');
+        ask();
+      });
+    };
+
+    rl.on('error', error => {
+      reject(new Error(`Failed to read input: ${error.message}`));
+    });
+
+    ask();
+  });
+}
+
 /**
  * Prompt for email with validation
  */
@@ -217,8 +360,9 @@ async function promptEmail(currentValue?: string): Promise<string> {
 
 /**
  * Prompt for api_token with hidden input
+ * @param label - Prompt label describing the kind of token expected
  */
-async function promptApiToken(currentValue?: string): Promise<string> {
+async function promptApiToken(currentValue?: string, label = 'api_token'): Promise<string> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -229,7 +373,7 @@ async function promptApiToken(currentValue?: string): Promise<string> {
       if (currentValue) {
         rl.write('********');
       }
-      rl.question('api_token: ', apiToken => {
+      rl.question(`${label}: `, apiToken => {
         apiToken = apiToken.trim();
         // Remove all asterisks from input (user may have deleted the pre-filled mask)
         const withoutAsterisks = apiToken.replace(/\*/g, '');
@@ -256,6 +400,82 @@ async function promptApiToken(currentValue?: string): Promise<string> {
   });
 }
 
+/**
+ * Prompt for where to keep the token (file/secret-service/command)
+ */
+async function promptTokenStorage(currentValue: TokenStorage = 'file'): Promise<TokenStorage> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve, reject) => {
+    const ask = () => {
+      rl.write(currentValue);
+      rl.question('token_storage (file, secret-service, command): ', storage => {
+        storage = storage.trim().toLowerCase();
+        if (!storage) {
+          rl.close();
+          resolve(currentValue);
+          return;
+        }
+        if (TOKEN_STORAGES.includes(storage as TokenStorage)) {
+          rl.close();
+          resolve(storage as TokenStorage);
+          return;
+        }
+        console.log('Invalid token storage. Please choose file, secret-service or command.');
+        ask();
+      });
+    };
+
+    rl.on('error', error => {
+      reject(new Error(`Failed to read input: ${error.message}`));
+    });
+
+    ask();
+  });
+}
+
+/**
+ * Prompt for the credential helper command that prints the token
+ */
+async function promptTokenCommand(currentValue?: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve, reject) => {
+    const ask = () => {
+      if (currentValue) {
+        rl.write(currentValue);
+      }
+      rl.question('token_command: ', command => {
+        command = command.trim();
+        if (!command && currentValue) {
+          rl.close();
+          resolve(currentValue);
+          return;
+        }
+        if (!command) {
+          console.log('Token command is required (e.g. pass show confluence).');
+          ask();
+          return;
+        }
+        rl.close();
+        resolve(command);
+      });
+    };
+
+    rl.on('error', error => {
+      reject(new Error(`Failed to read input: ${error.message}`));
+    });
+
+    ask();
+  });
+}
+
 /**
  * Prompt for format preference (json/toon)
  */
@@ -294,41 +514,58 @@ async function promptFormat(currentValue: 'json' | 'toon' = 'json'): Promise<'js
 }
 
 /**
- * Interactive config setup using readline
- * Prompts user for host, email, and api_token, then writes config file
- * If config file exists, pre-populates existing values in input buffer
+ * Serialize parsed config back to INI format
+ * The default profile is written to [auth]; other profiles to [profile <name>] sections.
  */
-export async function setupConfig(): Promise<void> {
-  // Load existing config if it exists
-  let existingConfig: Partial<Config> = {};
-  if (fs.existsSync(CONFIG_PATH)) {
-    try {
-      const content = fs.readFileSync(CONFIG_PATH, 'utf-8');
-      existingConfig = parseIniConfig(content);
-    } catch {
-      // Failed to read existing config file; proceed to create a new configuration.
+function serializeIniConfig(config: ConfigFile): string {
+  const sections: string[] = [];
+  const writeProfile = (header: string, profile: ProfileSettings, includeFormat: boolean): void => {
+    const lines = [`[${header}]`, `host=${profile.host ?? ''}`];
+    if (profile.authType && profile.authType !== 'basic') {
+      lines.push(`auth_type=${profile.authType}`);
     }
-  }
+    if (profile.email) {
+      lines.push(`email=${profile.email}`);
+    }
+    lines.push(profile.tokenCommand ? `token_command=${profile.tokenCommand}` : `api_token=${profile.apiToken ?? ''}`);
+    if (includeFormat && profile.defaultFormat) {
+      lines.push(`format=${profile.defaultFormat}`);
+    }
+    sections.push(`${lines.join('\n')}\n`);
+  };
 
-  // Collect credentials (with existing values pre-populated in input buffer)
-  const host = await promptHost(existingConfig.host);
-  const email = await promptEmail(existingConfig.email);
-  const apiToken = await promptApiToken(existingConfig.apiToken);
+  const defaultProfile = config.profiles[DEFAULT_PROFILE];
+  if (defaultProfile) {
+    writeProfile('auth', defaultProfile, false);
+  }
 
-  // Optional fields (with existing values pre-populated in input buffer)
-  const format = await promptFormat(existingConfig.defaultFormat);
+  const format = defaultProfile?.defaultFormat ?? config.defaultFormat;
+  const defaults: string[] = [];
+  if (format && format !== 'json') {
+    defaults.push(`format=${format}`);
+  }
+  if (config.defaultProfile && config.defaultProfile !== DEFAULT_PROFILE) {
+    defaults.push(`profile=${config.defaultProfile}`);
+  }
+  if (defaults.length > 0) {
+    sections.push(`[defaults]\n${defaults.join('\n')}\n`);
+  }
 
-  // Write config file
-  let configContent = `[auth]
-host=${host}
-email=${email}
-api_token=${apiToken}
-`;
-
-  if (format !== 'json') {
-    configContent += `\n[defaults]\nformat=${format}\n`;
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    if (name !== DEFAULT_PROFILE) {
+      writeProfile(`profile ${name}`, profile, true);
+    }
   }
 
+  return sections.join('\n');
+}
+
+/**
+ * Write the config file, readable and writable by the owner only
+ * @param content - Complete config file content
+ * @throws Error if the file cannot be written
+ */
+export function writeConfigFile(content: string): void {
   try {
     // Delete existing file first to ensure atomic write with correct permissions
     // This prevents an attacker from pre-creating the file with insecure permissions
@@ -338,8 +575,7 @@ api_token=${apiToken}
 
     // Write with mode 0o600 (read/write for owner only)
     // Using writeFileSync with mode option ensures permissions are set atomically
-    fs.writeFileSync(CONFIG_PATH, configContent, { mode: 0o600 });
-    console.log(`\n✓ Config saved to ${CONFIG_PATH}`);
+    fs.writeFileSync(CONFIG_PATH, content, { mode: 0o600 });
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Cannot write config: ${errorMessage}`);
@@ -347,12 +583,10 @@ api_token=${apiToken}
 }
 
 /**
- * Load Confluence connection configuration from ~/.connicli
- *
- * @returns Configuration object with auth settings and defaults
- * @throws Error if config file doesn't exist or is invalid
+ * Read and parse the config file
+ * @throws Error if the config file doesn't exist or cannot be read
  */
-export function loadConfig(): Config {
+function readConfigFile(): ConfigFile {
   if (!fs.existsSync(CONFIG_PATH)) {
     throw new Error(`Please run: conni-cli config`);
   }
@@ -365,29 +599,313 @@ export function loadConfig(): Config {
     throw new Error(`Cannot read config: ${errorMessage}`);
   }
 
-  const config = parseIniConfig(content);
+  return parseIniConfig(content);
+}
+
+/**
+ * Interactive config setup using readline
+ * Prompts user for host, email, and api_token of a profile, then writes config file
+ * If config file exists, pre-populates existing values in input buffer and keeps other profiles
+ * @param profile - Profile to create or edit (default: the [auth] profile)
+ */
+export async function setupConfig(profile: string = DEFAULT_PROFILE): Promise<void> {
+  if (!PROFILE_NAME_PATTERN.test(profile)) {
+    throw new Error(`Invalid profile name: ${profile}`);
+  }
+
+  // Load existing config if it exists
+  let existingConfig: ConfigFile = { profiles: {} };
+  if (fs.existsSync(CONFIG_PATH)) {
+    try {
+      const content = fs.readFileSync(CONFIG_PATH, 'utf-8');
+      existingConfig = parseIniConfig(content);
+    } catch {
+      // Failed to read existing config file; proceed to create a new configuration.
+    }
+  }
+
+  if (profile !== DEFAULT_PROFILE) {
+    console.log(`Configuring profile: ${profile}`);
+  }
+  const existingProfile = existingConfig.profiles[profile] ?? {};
+
+  // Collect credentials (with existing values pre-populated in input buffer)
+  const host = await promptHost(existingProfile.host);
+  const authType = await promptAuthType(existingProfile.authType);
+  // Bearer tokens identify the user on their own, so email is only asked for basic auth
+  const email = authType === 'basic' ? await promptEmail(existingProfile.email) : undefined;
+
+  // Keep the token in the file, the Secret Service or behind a credential helper command
+  const secretServiceCommand = secretServiceLookupCommand(profile);
+  const currentStorage: TokenStorage = !existingProfile.tokenCommand
+    ? 'file'
+    : existingProfile.tokenCommand === secretServiceCommand
+      ? 'secret-service'
+      : 'command';
+  const storage = await promptTokenStorage(currentStorage);
+
+  let apiToken: string | undefined;
+  let tokenCommand: string | undefined;
+  if (storage === 'command') {
+    tokenCommand = await promptTokenCommand(currentStorage === 'command' ? existingProfile.tokenCommand : undefined);
+  } else if (storage === 'secret-service') {
+    // An existing plaintext token can be moved into the Secret Service by accepting it
+    const token = await promptApiToken(
+      currentStorage === 'secret-service' ? KEEP_STORED_TOKEN : existingProfile.apiToken,
+      TOKEN_LABELS[authType]
+    );
+    if (token !== KEEP_STORED_TOKEN) {
+      storeSecretServiceToken(profile, token);
+    }
+    tokenCommand = secretServiceCommand;
+  } else {
+    apiToken = await promptApiToken(existingProfile.apiToken, TOKEN_LABELS[authType]);
+  }
+
+  // Optional fields (with existing values pre-populated in input buffer)
+  const format = await promptFormat(existingProfile.defaultFormat ?? existingConfig.defaultFormat);
+
+  existingConfig.profiles[profile] = { host, authType, email, apiToken, tokenCommand, defaultFormat: format };
+  if (profile === DEFAULT_PROFILE) {
+    existingConfig.defaultFormat = format;
+  }
+
+  // Write config file
+  writeConfigFile(serializeIniConfig(existingConfig));
+  console.log(`\n✓ Config saved to ${CONFIG_PATH}`);
+}
+
+/**
+ * List the profiles defined in ~/.connicli
+ *
+ * @returns Profile names, with the default profile first when it exists
+ * @throws Error if config file doesn't exist or cannot be read
+ */
+export function listProfiles(): string[] {
+  const names = Object.keys(readConfigFile().profiles);
+  return [...names.filter(name => name === DEFAULT_PROFILE), ...names.filter(name => name !== DEFAULT_PROFILE)];
+}
+
+/**
+ * Environment variables that override values from the config file
+ */
+const ENV_VARS = {
+  host: 'CONNI_HOST',
+  authType: 'CONNI_AUTH_TYPE',
+  email: 'CONNI_EMAIL',
+  apiToken: 'CONNI_API_TOKEN',
+  defaultFormat: 'CONNI_FORMAT',
+} as const;
+
+/**
+ * Effective configuration values before validation, with the source of each value
+ */
+interface ResolvedConfig {
+  fileFound: boolean;
+  location: string;
+  /** Credential helper to run when no API token is set directly */
+  tokenCommand?: string;
+  values: Partial<Config> & Pick<Config, 'profile' | 'authType' | 'defaultFormat'>;
+  sources: Record<keyof Config, string>;
+  /** Project config found from the working directory */
+  project?: ProjectConfig;
+}
+
+/**
+ * Merge environment variables, the project config, the selected profile and [defaults] into one configuration
+ *
+ * Precedence for each value: environment variable, then the project's .connicli.yaml
+ * (profile and format only), then the profile section, then the [defaults] section,
+ * then the built-in default.
+ *
+ * @param profile - Name of the profile to resolve
+ * @throws Error if the profile is unknown or CONNI_AUTH_TYPE or CONNI_FORMAT is invalid
+ */
+function resolveConfig(profile?: string): ResolvedConfig {
+  const fileFound = fs.existsSync(CONFIG_PATH);
+  const configFile = fileFound ? readConfigFile() : { profiles: {} };
+  const fileLabel = (section: string): string => `[${section}] of ${CONFIG_PATH}`;
+  // Warnings are reported when commands read the project config for their defaults
+  const project = loadProjectConfig(undefined, []);
+
+  const [name, profileSource] = profile
+    ? [profile, 'selected']
+    : process.env.CONNI_PROFILE
+      ? [process.env.CONNI_PROFILE, '$CONNI_PROFILE']
+      : project?.profile
+        ? [project.profile, project.path]
+        : configFile.defaultProfile
+          ? [configFile.defaultProfile, fileLabel('defaults')]
+          : [DEFAULT_PROFILE, 'built-in default'];
+
+  const section = configFile.profiles[name];
+  if (!section && name !== DEFAULT_PROFILE) {
+    const available = Object.keys(configFile.profiles);
+    throw new Error(`Unknown profile: ${name}. Available profiles: ${available.join(', ') || '(none)'}`);
+  }
+
+  const location = name === DEFAULT_PROFILE ? fileLabel('auth') : fileLabel(`profile ${name}`);
+  const sources = { profile: profileSource } as Record<keyof Config, string>;
+
+  const pick = <K extends keyof typeof ENV_VARS>(key: K): Config[K] | undefined => {
+    const envValue = process.env[ENV_VARS[key]]?.trim();
+    if (envValue) {
+      sources[key] = `$${ENV_VARS[key]}`;
+      return envValue as Config[K];
+    }
+    if (section?.[key]) {
+      sources[key] = location;
+      return section[key] as Config[K];
+    }
+    sources[key] = 'not set';
+    return undefined;
+  };
+
+  const envFormat = process.env[ENV_VARS.defaultFormat]?.trim();
+  if (envFormat && envFormat !== 'json' && envFormat !== 'toon') {
+    throw new Error(`Invalid ${ENV_VARS.defaultFormat}: "${envFormat}". Must be 'json' or 'toon'.`);
+  }
+
+  const envAuthType = process.env[ENV_VARS.authType]?.trim();
+  if (envAuthType && !AUTH_TYPES.includes(envAuthType as AuthType)) {
+    throw new Error(`Invalid ${ENV_VARS.authType}: "${envAuthType}". Must be one of: ${AUTH_TYPES.join(', ')}.`);
+  }
+
+  let authType = pick('authType');
+  if (!authType) {
+    authType = 'basic';
+    sources.authType = 'built-in default';
+  }
+
+  let defaultFormat = pick('defaultFormat');
+  if (!envFormat && project?.format) {
+    defaultFormat = project.format;
+    sources.defaultFormat = project.path;
+  } else if (!defaultFormat && configFile.defaultFormat) {
+    defaultFormat = configFile.defaultFormat;
+    sources.defaultFormat = fileLabel('defaults');
+  } else if (!defaultFormat) {
+    defaultFormat = 'json';
+    sources.defaultFormat = 'built-in default';
+  }
+
+  const apiToken = pick('apiToken');
+  const tokenCommand = apiToken ? undefined : section?.tokenCommand;
+  if (tokenCommand) {
+    sources.apiToken = `token_command in ${location}`;
+  }
+
+  return {
+    fileFound,
+    location,
+    tokenCommand,
+    values: {
+      profile: name,
+      host: pick('host'),
+      authType,
+      email: pick('email'),
+      apiToken,
+      defaultFormat,
+    },
+    sources,
+    project,
+  };
+}
+
+/**
+ * Load Confluence connection configuration from ~/.connicli and the environment
+ *
+ * The profile is chosen from the argument, then the CONNI_PROFILE environment variable,
+ * then `profile` in the project's .connicli.yaml, then `profile` in the [defaults] section,
+ * falling back to the [auth] profile. A project's `format` overrides the user's format settings.
+ * CONNI_HOST, CONNI_AUTH_TYPE, CONNI_EMAIL, CONNI_API_TOKEN and CONNI_FORMAT override the
+ * profile's values, so the config file is optional when they are set.
+ * Email is only required for basic auth. A profile's token_command is run when no API token is set.
+ *
+ * @param profile - Name of the profile to load
+ * @returns Configuration object with auth settings and defaults
+ * @throws Error if no configuration is found, the profile is unknown or a value is invalid
+ */
+export function loadConfig(profile?: string): Config {
+  const { fileFound, location, tokenCommand, values, sources } = resolveConfig(profile);
+  const { host, authType, email } = values;
+  const emailRequired = authType === 'basic';
+
+  let apiToken = values.apiToken;
 
   // Validate required fields (should be valid after setup, but double-check)
-  if (!config.host || !config.email || !config.apiToken) {
-    throw new Error(`Missing required fields in ${CONFIG_PATH}`);
+  if (!host || (emailRequired && !email) || (!apiToken && !tokenCommand)) {
+    if (!fileFound) {
+      throw new Error(`Please run: conni-cli config (or set CONNI_HOST, CONNI_EMAIL and CONNI_API_TOKEN)`);
+    }
+    const missing = [
+      !host && 'host',
+      emailRequired && !email && 'email',
+      !apiToken && !tokenCommand && 'api_token',
+    ].filter(Boolean);
+    throw new Error(`Missing required fields in ${location}: ${missing.join(', ')}`);
   }
 
   // Validate host format
-  if (!isValidUrl(config.host)) {
-    throw new Error(`Invalid host: ${config.host} in ${CONFIG_PATH}`);
+  if (!isValidUrl(host)) {
+    throw new Error(`Invalid host: ${host} in ${sources.host}`);
   }
 
   // Validate email format
-  if (!isValidEmail(config.email)) {
-    throw new Error(`Invalid email: ${config.email} in ${CONFIG_PATH}`);
+  if (email && !isValidEmail(email)) {
+    throw new Error(`Invalid email: ${email} in ${sources.email}`);
   }
 
-  return {
-    host: config.host,
-    email: config.email,
-    apiToken: config.apiToken,
-    defaultFormat: config.defaultFormat || 'json',
-  };
+  // Resolve the token from the credential helper only once everything else is valid
+  if (tokenCommand) {
+    try {
+      apiToken = runTokenCommand(tokenCommand);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`${errorMessage} (${sources.apiToken})`);
+    }
+  }
+
+  return { ...values, host, apiToken: apiToken as string };
+}
+
+/**
+ * Mask an API token, keeping only its last four characters for identification
+ */
+export function redactToken(token: string): string {
+  return token.length > 8 ? `********${token.slice(-4)}` : '********';
+}
+
+/**
+ * Print the effective configuration with the source of each value
+ * The API token is redacted and token commands are shown without being run.
+ * Missing or invalid values are shown rather than rejected.
+ * Project defaults are listed when a .connicli.yaml is found.
+ * @param profile - Name of the profile to show
+ * @throws Error if the profile is unknown or CONNI_FORMAT is invalid
+ */
+export function showConfig(profile?: string): void {
+  const { tokenCommand, values, sources, project } = resolveConfig(profile);
+  const token = values.apiToken ? redactToken(values.apiToken) : tokenCommand && `$(${tokenCommand})`;
+  const rows: [string, string | undefined, string][] = [
+    ['profile', values.profile, sources.profile],
+    ['host', values.host, sources.host],
+    ['auth_type', values.authType, sources.authType],
+    ['email', values.email, sources.email],
+    ['api_token', token, sources.apiToken],
+    ['format', values.defaultFormat, sources.defaultFormat],
+  ];
+  if (project) {
+    rows.push(
+      ['spaceKey', project.spaceKey, project.spaceKey ? project.path : 'not set'],
+      ['parentId', project.parentId, project.parentId ? project.path : 'not set']
+    );
+  }
+
+  const width = Math.max(...rows.map(([, value]) => (value ?? '-').length));
+  for (const [key, value, source] of rows) {
+    console.log(`${key.padEnd(10)} ${(value ?? '-').padEnd(width)}  (${source})`);
+  }
 }
 
 /**
@@ -397,11 +915,23 @@ export function loadConfig(): Config {
  * @returns Confluence client options for confluence.js
  */
 export function getConfluenceClientOptions(config: Config): ConfluenceClientOptions {
+  // Personal access tokens and OAuth access tokens are both sent as `Authorization: Bearer`
+  if (config.authType === 'pat' || config.authType === 'oauth') {
+    return {
+      host: config.host,
+      authentication: {
+        oauth2: {
+          accessToken: config.apiToken,
+        },
+      },
+    };
+  }
+
   return {
     host: config.host,
     authentication: {
       basic: {
-        email: config.email,
+        email: config.email ?? '',
         apiToken: config.apiToken,
       },
     },
@@ -1,11 +1,48 @@
 /**
  * Confluence API client wrapper functions
  */
+import type { ReplaceRule, ReplaceScope } from './bulk-replace.js';
 import { loadConfig } from './config-loader.js';
-import type { ApiResult } from './confluence-utils.js';
+import type { Config } from './config-loader.js';
+import type {
+  ApiResult,
+  LabelTarget,
+  MoveTarget,
+  PageFormat,
+  ReplaceOptions,
+  SearchOptions,
+  TreeFormat,
+  UpdatePageOptions,
+} from './confluence-utils.js';
 import { ConfluenceUtil } from './confluence-utils.js';
+import type { SearchFilters } from './cql.js';
+import type { BodyFormat } from './markdown.js';
+import type { DiffMode } from './page-diff.js';
+import type { PageEdit } from './page-edit.js';
+import type { CopyDestination, CopyOptions } from './page-move.js';
 
 let confluenceUtil: ConfluenceUtil | null = null;
+let activeProfile: string | undefined;
+let activeConfig: Config | null = null;
+
+/**
+ * Select the connection profile used by subsequent commands
+ * Clears the cached client so the next command connects with the new profile.
+ * @param profile - Profile name, or undefined to use the configured default
+ * @param config - Configuration already loaded for the profile, reused so its token command is not run again
+ */
+export function setActiveProfile(profile?: string, config?: Config): void {
+  activeProfile = profile;
+  clearClients();
+  activeConfig = config ?? null;
+}
+
+/**
+ * Get the profile selected with setActiveProfile
+ */
+export function getActiveProfile(): string | undefined {
+  return activeProfile;
+}
 
 /**
  * Initialize Confluence utility
@@ -14,7 +51,7 @@ async function initConfluence(): Promise<ConfluenceUtil> {
   if (confluenceUtil) return confluenceUtil;
 
   try {
-    const config = loadConfig();
+    const config = activeConfig ?? loadConfig(activeProfile);
     confluenceUtil = new ConfluenceUtil(config);
     return confluenceUtil;
   } catch (error: unknown) {
@@ -49,57 +86,318 @@ export async function getSpace(spaceKey: string, format: 'json' | 'toon' = 'json
  * @param limit - Maximum number of results
  * @param start - Starting index for pagination
  * @param format - Output format (json, toon)
+ * @param label - Only pages with this label (optional)
  */
 export async function listPages(
   spaceKey?: string,
   title?: string,
   limit = 25,
   start = 0,
+  format: 'json' | 'toon' = 'json',
+  label?: string
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.listPages(spaceKey, title, limit, start, format, label);
+}
+
+/**
+ * Search content with CQL or structured filters
+ * @param filters - Raw CQL and/or filters the query is built from
+ * @param options - Limit, cursor and whether to fetch every page of results
+ * @param format - Output format (json, toon)
+ */
+export async function search(
+  filters: SearchFilters,
+  options: SearchOptions = {},
   format: 'json' | 'toon' = 'json'
 ): Promise<ApiResult> {
   const confluence = await initConfluence();
-  return await confluence.listPages(spaceKey, title, limit, start, format);
+  return await confluence.search(filters, options, format);
 }
 
 /**
  * Get page details
  * @param pageId - Page ID
+ * @param format - Output format (json, toon, markdown, text)
+ * @param bodyOnly - Return only the body (storage format, or converted for markdown and text)
+ */
+export async function getPage(
+  pageId: string,
+  format: PageFormat = 'json',
+  bodyOnly = false,
+  version?: number
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.getPage(pageId, format, bodyOnly, version);
+}
+
+/**
+ * List the child pages of a page
+ * @param pageId - Parent page ID
+ * @param format - Output format (json, toon)
+ */
+export async function getChildren(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.getChildren(pageId, format);
+}
+
+/**
+ * List the descendants of a page
+ * @param pageId - Page ID
+ * @param depth - Levels to descend (default: all)
+ * @param format - Output format (json, toon)
+ */
+export async function getDescendants(
+  pageId: string,
+  depth?: number,
+  format: 'json' | 'toon' = 'json'
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.getDescendants(pageId, depth, format);
+}
+
+/**
+ * List the ancestors of a page
+ * @param pageId - Page ID
+ * @param format - Output format (json, toon)
+ */
+export async function getAncestors(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.getAncestors(pageId, format);
+}
+
+/**
+ * Show the page tree of a space or page
+ * @param spaceKey - Space whose whole tree is shown; ignored when pageId is set
+ * @param pageId - Page whose subtree is shown
+ * @param depth - Levels below the top pages to show (default: all)
+ * @param format - Output format (text, json, toon)
+ */
+export async function tree(
+  spaceKey?: string,
+  pageId?: string,
+  depth?: number,
+  format: TreeFormat = 'text'
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.tree(spaceKey, pageId, depth, format);
+}
+
+/**
+ * Move a page under a new parent, into another space, or next to a sibling
+ * @param pageId - Page to move
+ * @param target - Exactly one of parentId, spaceKey, before or after
+ */
+export async function movePage(pageId: string, target: MoveTarget): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.movePage(pageId, target);
+}
+
+/**
+ * Copy a page, optionally with its descendants
+ * @param pageId - Page to copy
+ * @param destination - Parent page, or space whose top level the copy goes to
+ * @param options - Recursion, attachments, labels and title prefix/suffix
+ */
+export async function copyPage(
+  pageId: string,
+  destination: CopyDestination,
+  options: CopyOptions = {}
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.copyPage(pageId, destination, options);
+}
+
+/**
+ * Reorder the children of a page
+ * @param pageId - Parent page
+ * @param order - Child page IDs in their new order
+ */
+export async function reorderChildren(pageId: string, order: string[]): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.reorderChildren(pageId, order);
+}
+
+/**
+ * List the versions of a page
+ * @param pageId - Page ID
+ * @param limit - Maximum number of versions
+ * @param start - Starting index for pagination
  * @param format - Output format (json, toon)
  */
-export async function getPage(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+export async function listVersions(
+  pageId: string,
+  limit = 25,
+  start = 0,
+  format: 'json' | 'toon' = 'json'
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.listVersions(pageId, limit, start, format);
+}
+
+/**
+ * Diff a page between two versions, or with a local file
+ * @param pageId - Page ID
+ * @param from - Older version (default: the one before `to`, or the current version when comparing with a file)
+ * @param to - Newer version (default: current)
+ * @param file - Local file to compare with instead of a newer version
+ * @param mode - Line (unified) or word diff
+ * @param bodyFormat - Compare the storage body or the body rendered as Markdown
+ */
+export async function diffPage(
+  pageId: string,
+  from?: number,
+  to?: number,
+  file?: string,
+  mode: DiffMode = 'line',
+  bodyFormat: BodyFormat = 'storage'
+): Promise<ApiResult> {
   const confluence = await initConfluence();
-  return await confluence.getPage(pageId, format);
+  return await confluence.diffPage(pageId, from, to, file, mode, bodyFormat);
+}
+
+/**
+ * Restore an older version of a page as its new current version
+ * @param pageId - Page ID
+ * @param version - Version to restore
+ * @param message - Change note for the new version
+ */
+export async function restoreVersion(pageId: string, version: number, message?: string): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.restoreVersion(pageId, version, message);
 }
 
 /**
  * Create a new page
  * @param spaceKey - Space key where the page will be created
  * @param title - Page title
- * @param body - Page body content (storage format)
+ * @param body - Page body content (storage format or Markdown)
  * @param parentId - Parent page ID (optional)
  * @param format - Output format (json, toon)
+ * @param bodyFormat - Format of the body (storage, markdown)
  */
 export async function createPage(
   spaceKey: string,
   title: string,
   body: string,
   parentId?: string,
-  format: 'json' | 'toon' = 'json'
+  format: 'json' | 'toon' = 'json',
+  bodyFormat: BodyFormat = 'storage'
 ): Promise<ApiResult> {
   const confluence = await initConfluence();
-  return await confluence.createPage(spaceKey, title, body, parentId, format);
+  return await confluence.createPage(spaceKey, title, body, parentId, format, bodyFormat);
 }
 
 /**
  * Update an existing page
  * @param pageId - Page ID to update
  * @param title - New page title
- * @param body - New page body content (storage format)
- * @param version - Current page version number
+ * @param body - New page body content (storage format or Markdown)
+ * @param version - Current page version number (fetched when omitted)
+ * @param bodyFormat - Format of the body (storage, markdown)
+ * @param options - Expected version, retries on conflict, and version message and minor edit flag
+ */
+export async function updatePage(
+  pageId: string,
+  title: string,
+  body: string,
+  version?: number,
+  bodyFormat: BodyFormat = 'storage',
+  options: UpdatePageOptions = {}
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.updatePage(pageId, title, body, version, bodyFormat, options);
+}
+
+/**
+ * Edit part of a page's current body
+ * @param pageId - Page ID to edit
+ * @param edit - Operation and its arguments
+ * @param bodyFormat - Format of the content (storage, markdown)
+ * @param options - Expected version, retries on conflict, and version message and minor edit flag
  */
-export async function updatePage(pageId: string, title: string, body: string, version: number): Promise<ApiResult> {
+export async function editPage(
+  pageId: string,
+  edit: PageEdit,
+  bodyFormat: BodyFormat = 'storage',
+  options: UpdatePageOptions = {}
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.editPage(pageId, edit, bodyFormat, options);
+}
+
+/**
+ * Find and replace text across the pages in a scope
+ * @param scope - CQL, space, label and ancestor page selecting the pages
+ * @param rule - Text or regular expression to find, and its replacement
+ * @param options - Dry run (default: true), batch size, report file, and version message and minor edit flag
+ */
+export async function replace(
+  scope: ReplaceScope,
+  rule: ReplaceRule,
+  options: ReplaceOptions = {}
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.replace(scope, rule, options);
+}
+
+/**
+ * List blog posts, newest first
+ * @param spaceKey - Space key (optional)
+ * @param from - Only posts created on or after this date (optional)
+ * @param to - Only posts created before this date (optional)
+ * @param limit - Maximum number of results
+ * @param format - Output format (json, toon)
+ */
+export async function listBlogPosts(
+  spaceKey?: string,
+  from?: string,
+  to?: string,
+  limit = 25,
+  format: 'json' | 'toon' = 'json'
+): Promise<ApiResult> {
   const confluence = await initConfluence();
-  return await confluence.updatePage(pageId, title, body, version);
+  return await confluence.listBlogPosts(spaceKey, from, to, limit, format);
+}
+
+/**
+ * Create a new blog post
+ * @param spaceKey - Space key where the blog post will be published
+ * @param title - Blog post title
+ * @param body - Blog post body content (storage format or Markdown)
+ * @param format - Output format (json, toon)
+ * @param bodyFormat - Format of the body (storage, markdown)
+ */
+export async function createBlogPost(
+  spaceKey: string,
+  title: string,
+  body: string,
+  format: 'json' | 'toon' = 'json',
+  bodyFormat: BodyFormat = 'storage'
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.createBlogPost(spaceKey, title, body, format, bodyFormat);
+}
+
+/**
+ * Update an existing blog post
+ * @param blogPostId - Blog post ID to update
+ * @param title - New blog post title
+ * @param body - New blog post body content (storage format or Markdown)
+ * @param version - Current version number (fetched when omitted)
+ * @param bodyFormat - Format of the body (storage, markdown)
+ * @param options - Expected version, retries on conflict, and version message and minor edit flag
+ */
+export async function updateBlogPost(
+  blogPostId: string,
+  title: string,
+  body: string,
+  version?: number,
+  bodyFormat: BodyFormat = 'storage',
+  options: UpdatePageOptions = {}
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.updateBlogPost(blogPostId, title, body, version, bodyFormat, options);
 }
 
 /**
@@ -122,6 +420,72 @@ export async function deletePage(pageId: string): Promise<ApiResult> {
   return await confluence.deletePage(pageId);
 }
 
+/**
+ * List the labels of a page
+ * @param pageId - Page ID
+ * @param format - Output format (json, toon)
+ */
+export async function listLabels(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.listLabels(pageId, format);
+}
+
+/**
+ * Add labels to a page or to the pages matching a CQL query
+ * @param target - pageId or cql
+ * @param labels - Label names
+ */
+export async function addLabels(target: LabelTarget, labels: string[]): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.addLabels(target, labels);
+}
+
+/**
+ * Remove labels from a page or from the pages matching a CQL query
+ * @param target - pageId or cql
+ * @param labels - Label names
+ */
+export async function removeLabels(target: LabelTarget, labels: string[]): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.removeLabels(target, labels);
+}
+
+/**
+ * List the attachments of a page
+ * @param pageId - Page ID
+ * @param format - Output format (json, toon)
+ */
+export async function listAttachments(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.listAttachments(pageId, format);
+}
+
+/**
+ * Upload files as attachments of a page, updating attachments with the same name
+ * @param pageId - Page ID
+ * @param files - File paths or glob patterns
+ * @param comment - Comment stored with each attachment version (optional)
+ * @param minorEdit - Do not notify watchers
+ */
+export async function uploadAttachments(
+  pageId: string,
+  files: string[],
+  comment?: string,
+  minorEdit = false
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.uploadAttachments(pageId, files, comment, minorEdit);
+}
+
+/**
+ * Delete an attachment
+ * @param attachmentId - Attachment ID to delete
+ */
+export async function deleteAttachment(attachmentId: string): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.deleteAttachment(attachmentId);
+}
+
 /**
  * Download an attachment from a page
  * @param attachmentId - Attachment ID to download
@@ -132,6 +496,54 @@ export async function downloadAttachment(attachmentId: string, outputPath?: stri
   return await confluence.downloadAttachment(attachmentId, outputPath);
 }
 
+/**
+ * Pull a space or page tree into a directory of Markdown files
+ * @param spaceKey - Space to pull, when no root page is given
+ * @param rootPageId - Page whose subtree is pulled
+ * @param outputDir - Directory to write the files to
+ * @param force - Overwrite files with local changes
+ */
+export async function pull(
+  spaceKey: string | undefined,
+  rootPageId: string | undefined,
+  outputDir: string,
+  force = false
+): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.pull(spaceKey, rootPageId, outputDir, force);
+}
+
+/**
+ * Push a directory of Markdown files to a page tree
+ * @param sourceDir - Directory to push
+ * @param parentId - Page the directory is published under
+ * @param dryRun - Only show the plan; set to false to apply it
+ * @param force - Overwrite pages changed in Confluence since they were last pulled or pushed
+ */
+export async function push(sourceDir: string, parentId: string, dryRun = true, force = false): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.push(sourceDir, parentId, dryRun, force);
+}
+
+/**
+ * Report the sync state of the page files in a directory
+ * @param dir - Directory of pulled or pushed page files
+ */
+export async function syncStatus(dir: string): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.syncStatus(dir);
+}
+
+/**
+ * Show how local page files differ from their pages in Confluence
+ * @param dir - Directory of pulled or pushed page files
+ * @param file - Only compare this file
+ */
+export async function syncDiff(dir: string, file?: string): Promise<ApiResult> {
+  const confluence = await initConfluence();
+  return await confluence.syncDiff(dir, file);
+}
+
 /**
  * Get user information
  * @param accountId - User account ID
@@ -159,6 +571,7 @@ export async function testConnection(): Promise<ApiResult> {
  * Clear Confluence client pool (for cleanup)
  */
 export function clearClients(): void {
+  activeConfig = null;
   if (confluenceUtil) {
     confluenceUtil.clearClients();
     confluenceUtil = null;
@@ -3,8 +3,37 @@ import { ConfluenceClient } from 'confluence.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 
-import type { Config } from './config-loader.js';
+import { planReplacements, scopeCql } from './bulk-replace.js';
+import type { ReplaceRule, ReplaceScope } from './bulk-replace.js';
+import type { AuthType, Config } from './config-loader.js';
 import { getConfluenceClientOptions } from './config-loader.js';
+import { cqlString, nextCursor, searchAll, searchCql } from './cql.js';
+import type { SearchFilters } from './cql.js';
+import { expandFiles } from './file-glob.js';
+import { isMarkdownFile, parsePageFile } from './local-docs.js';
+import { markdownToStorage } from './markdown.js';
+import type { BodyFormat } from './markdown.js';
+import { diffText, storageLines } from './page-diff.js';
+import type { DiffMode } from './page-diff.js';
+import { applyPageEdit } from './page-edit.js';
+import type { PageEdit } from './page-edit.js';
+import { copyPages, reorderChildren } from './page-move.js';
+import type { CopyDestination, CopyOptions } from './page-move.js';
+import { pullPages } from './page-pull.js';
+import { pushPages } from './page-push.js';
+import type { PushAction } from './page-push.js';
+import { syncDiff, syncStatus } from './page-sync.js';
+import {
+  PAGE_SIZE,
+  fetchAll,
+  fetchAncestors,
+  fetchChildren,
+  fetchDescendants,
+  fetchTree,
+  renderTree,
+} from './page-tree.js';
+import type { TreePage } from './page-tree.js';
+import { storageToMarkdown, storageToText } from './storage-to-markdown.js';
 
 /**
  * Generic API result
@@ -16,6 +45,177 @@ export interface ApiResult {
   error?: string;
 }
 
+/**
+ * Output formats for a single page: structured data (json, toon) or a readable document (markdown, text)
+ */
+export type PageFormat = 'json' | 'toon' | 'markdown' | 'text';
+
+/**
+ * Output formats for a page tree: an indented ASCII tree (text) or nested data (json, toon)
+ */
+export type TreeFormat = 'text' | 'json' | 'toon';
+
+/**
+ * How update-page handles the version of the page it updates
+ */
+export interface UpdatePageOptions {
+  /** Fail with a version conflict unless the page is at this version */
+  expectedVersion?: number;
+  /** How many times to fetch the current version again when the page changes during the update */
+  retries?: number;
+  /** Change note shown in the page history */
+  versionMessage?: string;
+  /** Do not notify watchers of the change */
+  minorEdit?: boolean;
+}
+
+/**
+ * How a bulk replace is applied
+ */
+export interface ReplaceOptions extends Pick<UpdatePageOptions, 'versionMessage' | 'minorEdit'> {
+  /** Only show the preview (default: true) */
+  dryRun?: boolean;
+  /** Pages updated at the same time */
+  batchSize?: number;
+  /** File the report of updated pages is written to (default: replace-report-<time>.json) */
+  reportFile?: string;
+}
+
+/**
+ * Where a page is moved: under a parent page, to the top of a space's home page, or next to a sibling
+ */
+export interface MoveTarget {
+  parentId?: string;
+  spaceKey?: string;
+  /** Sibling the page is placed before */
+  before?: string;
+  /** Sibling the page is placed after */
+  after?: string;
+}
+
+/**
+ * Pages whose labels are changed: a single page, or every page matching a CQL query
+ */
+export interface LabelTarget {
+  pageId?: string;
+  cql?: string;
+}
+
+/**
+ * Which page of search results is returned
+ */
+export interface SearchOptions {
+  /** Results per request */
+  limit?: number;
+  /** Cursor returned with the previous page of results */
+  cursor?: string;
+  /** Follow the cursor until every result is fetched */
+  all?: boolean;
+}
+
+/**
+ * Search result fields used in the simplified results
+ */
+interface SearchHit {
+  title?: string;
+  excerpt?: string;
+  url?: string;
+  lastModified?: string;
+  content?: { id?: string; type?: string; space?: { key?: string } };
+}
+
+/**
+ * Content types handled by the page and blog post commands
+ */
+type ContentType = 'page' | 'blogpost';
+
+/**
+ * Blog post fields used in the simplified list
+ */
+interface BlogPostSummary {
+  id: string;
+  title: string;
+  space?: { key?: string };
+  history?: { createdDate?: string; createdBy?: { displayName?: string } };
+}
+
+/**
+ * Attachment fields used in the simplified list
+ */
+interface AttachmentSummary {
+  id: string;
+  title: string;
+  version?: { number?: number };
+  metadata?: { comment?: string; mediaType?: string };
+  extensions?: { fileSize?: number; mediaType?: string };
+  _links?: { download?: string };
+}
+
+/**
+ * Page fields a new version is built from
+ */
+interface CurrentPage {
+  title?: string;
+  version?: { number?: number };
+  body?: { storage?: { value?: string } };
+}
+
+/**
+ * Page fields used when rendering a page as a document
+ */
+interface PageDocument {
+  title?: string;
+  body?: { storage?: { value?: string } };
+  children?: { attachment?: { results?: Array<{ title?: string; _links?: { download?: string } }> } };
+}
+
+/**
+ * Human-readable description of each authentication mode
+ */
+const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  basic: 'basic (email + API token)',
+  pat: 'personal access token (Bearer)',
+  oauth: 'OAuth 2.0 access token (Bearer)',
+};
+
+/**
+ * Marker shown before each page in a push plan
+ */
+const PUSH_ACTION_MARKERS: Record<PushAction, string> = {
+  create: '+ create   ',
+  update: '~ update   ',
+  unchanged: '  unchanged',
+  conflict: '! conflict ',
+};
+
+/**
+ * Name of each content type in messages
+ */
+const CONTENT_TYPE_NAMES: Record<ContentType, string> = {
+  page: 'Page',
+  blogpost: 'Blog post',
+};
+
+/**
+ * Markers around the highlighted words of search results
+ */
+const HIGHLIGHT_MARKERS = /@@@(end)?hl@@@/g;
+
+/**
+ * Whether an update was rejected because the page is no longer at the version it was based on
+ * Confluence answers a stale version number with 409 Conflict.
+ */
+function isVersionConflict(error: unknown): boolean {
+  return (error as { statusCode?: number } | undefined)?.statusCode === 409;
+}
+
+/**
+ * Whether a request failed because the page, or the label removed from it, does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as { statusCode?: number } | undefined)?.statusCode === 404;
+}
+
 /**
  * Confluence API Utility Module
  * Provides core Confluence API operations with formatting
@@ -130,9 +330,9 @@ export class ConfluenceUtil {
     spaceKey?: string,
     title?: string,
     limit = 25,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _start = 0,
-    format: 'json' | 'toon' = 'json'
+    start = 0,
+    format: 'json' | 'toon' = 'json',
+    label?: string
   ): Promise<ApiResult> {
     try {
       const client = this.getClient();
@@ -140,23 +340,38 @@ export class ConfluenceUtil {
       // Build CQL query
       let cql = 'type=page';
       if (spaceKey) {
-        cql += ` AND space="${spaceKey}"`;
+        cql += ` AND space=${cqlString(spaceKey)}`;
       }
       if (title) {
-        cql += ` AND title~"${title}"`;
+        cql += ` AND title~${cqlString(title)}`;
+      }
+      if (label) {
+        cql += ` AND label=${cqlString(label)}`;
       }
 
-      const response = await client.content.searchContentByCQL({
+      // The content search ignores start, so the general search is used to page through the results
+      const response = await client.search.searchByCQL({
         cql,
         limit,
+        start,
+        expand: ['content.space', 'content.metadata.labels'],
       });
 
       // Simplify page data for display
       const results = (
         response as {
-          results?: Array<{ id: string; title: string; type: string; status: string; space?: { key: string } }>;
+          results?: Array<{
+            content: {
+              id: string;
+              title: string;
+              type: string;
+              status: string;
+              space?: { key: string };
+              metadata?: { labels?: { results?: Array<{ name: string }> } };
+            };
+          }>;
         }
-      ).results;
+      ).results?.map(result => result.content);
       const simplifiedPages =
         results?.map(page => ({
           id: page.id,
@@ -164,6 +379,7 @@ export class ConfluenceUtil {
           type: page.type,
           status: page.status,
           spaceKey: page.space?.key,
+          labels: (page.metadata?.labels?.results ?? []).map(pageLabel => pageLabel.name),
         })) || [];
 
       return {
@@ -181,20 +397,48 @@ export class ConfluenceUtil {
   }
 
   /**
-   * Get page details
+   * Search content with CQL, or with filters the query is built from
+   * Highlighted words in the excerpts are marked as **word**.
    */
-  async getPage(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+  async search(
+    filters: SearchFilters,
+    options: SearchOptions = {},
+    format: 'json' | 'toon' = 'json'
+  ): Promise<ApiResult> {
     try {
       const client = this.getClient();
-      const page = await client.content.getContentById({
-        id: pageId,
-        expand: ['body.storage', 'children.attachment'],
-      });
+      const cql = searchCql(filters);
+      const baseUrl = this.config.host.replace(/\/$/, '');
+
+      const hits: SearchHit[] = [];
+      let cursor = options.cursor;
+      do {
+        const response = await client.search.searchByCQL({
+          cql,
+          cursor,
+          limit: options.limit ?? 25,
+          excerpt: 'highlight',
+          expand: ['content.space'],
+        });
+        hits.push(...((response.results ?? []) as SearchHit[]));
+        cursor = nextCursor(response);
+      } while (options.all && cursor);
+
+      const results = hits.map(hit => ({
+        id: hit.content?.id,
+        type: hit.content?.type,
+        title: hit.title?.replace(HIGHLIGHT_MARKERS, ''),
+        spaceKey: hit.content?.space?.key,
+        lastModified: hit.lastModified,
+        url: hit.url ? `${baseUrl}${hit.url}` : undefined,
+        excerpt: (hit.excerpt ?? '').replace(HIGHLIGHT_MARKERS, '**').replace(/\s+/g, ' ').trim(),
+      }));
+      const data = { cql, results, nextCursor: cursor };
 
       return {
         success: true,
-        data: page,
-        result: this.formatResult(page, format),
+        data,
+        result: this.formatResult(data, format),
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -206,46 +450,37 @@ export class ConfluenceUtil {
   }
 
   /**
-   * Create a new page
+   * List the blog posts of a space, or of all spaces, newest first
+   * `from` and `to` limit the posts to those created on or after `from` and before `to`.
    */
-  async createPage(
-    spaceKey: string,
-    title: string,
-    body: string,
-    parentId?: string,
+  async listBlogPosts(
+    spaceKey?: string,
+    from?: string,
+    to?: string,
+    limit = 25,
     format: 'json' | 'toon' = 'json'
   ): Promise<ApiResult> {
     try {
       const client = this.getClient();
+      const cql = searchCql({ type: 'blogpost', spaceKey, createdAfter: from, createdBefore: to });
+      const response = (await client.content.searchContentByCQL({
+        cql: `${cql} ORDER BY created DESC`,
+        limit,
+        expand: ['space', 'history'],
+      })) as { results?: BlogPostSummary[] };
 
-      const contentBody: {
-        type: 'page';
-        title: string;
-        space: { key: string };
-        body: { storage: { value: string; representation: 'storage' } };
-        ancestors?: Array<{ id: string }>;
-      } = {
-        type: 'page',
-        title,
-        space: { key: spaceKey },
-        body: {
-          storage: {
-            value: body,
-            representation: 'storage',
-          },
-        },
-      };
-
-      if (parentId) {
-        contentBody.ancestors = [{ id: parentId }];
-      }
-
-      const response = await client.content.createContent(contentBody);
+      const blogPosts = (response.results ?? []).map(post => ({
+        id: post.id,
+        title: post.title,
+        spaceKey: post.space?.key,
+        created: post.history?.createdDate,
+        author: post.history?.createdBy?.displayName,
+      }));
 
       return {
         success: true,
-        data: response,
-        result: this.formatResult(response, format),
+        data: blogPosts,
+        result: this.formatResult(blogPosts, format),
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -257,30 +492,37 @@ export class ConfluenceUtil {
   }
 
   /**
-   * Update an existing page
+   * Get page details
    */
-  async updatePage(pageId: string, title: string, body: string, version: number): Promise<ApiResult> {
+  async getPage(pageId: string, format: PageFormat = 'json', bodyOnly = false, version?: number): Promise<ApiResult> {
     try {
       const client = this.getClient();
-
-      await client.content.updateContent({
+      const page = await client.content.getContentById({
         id: pageId,
-        type: 'page',
-        body: {
-          storage: {
-            value: body,
-            representation: 'storage',
-          },
-        },
-        title,
-        version: {
-          number: version + 1,
-        },
+        expand: ['body.storage', 'children.attachment'],
+        ...(version !== undefined ? { version } : {}),
       });
 
+      if (format === 'markdown' || format === 'text') {
+        return {
+          success: true,
+          data: page,
+          result: this.formatPageDocument(page as PageDocument, format, bodyOnly),
+        };
+      }
+
+      if (bodyOnly) {
+        return {
+          success: true,
+          data: page,
+          result: page.body?.storage?.value ?? '',
+        };
+      }
+
       return {
         success: true,
-        result: `Page ${pageId} updated successfully!`,
+        data: page,
+        result: this.formatResult(page, format),
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -292,42 +534,17 @@ export class ConfluenceUtil {
   }
 
   /**
-   * Add a comment to a page
+   * List the child pages of a page
    */
-  async addComment(pageId: string, body: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+  async getChildren(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
     try {
       const client = this.getClient();
-
-      // First, get the page to find its space
-      const page = await client.content.getContentById({
-        id: pageId,
-        expand: ['space'],
-      });
-
-      const spaceKey = (page as { space?: { key?: string } }).space?.key;
-
-      const response = await client.content.createContent({
-        type: 'comment',
-        container: {
-          id: pageId,
-          type: 'page',
-        },
-        title: '',
-        space: {
-          key: spaceKey as string,
-        },
-        body: {
-          storage: {
-            value: body,
-            representation: 'storage',
-          },
-        },
-      });
+      const children = (await fetchChildren(client, pageId)).map(child => ({ id: child.id, title: child.title }));
 
       return {
         success: true,
-        data: response,
-        result: this.formatResult(response, format),
+        data: children,
+        result: this.formatResult(children, format),
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -339,16 +556,17 @@ export class ConfluenceUtil {
   }
 
   /**
-   * Delete a page
+   * List the descendants of a page in tree order, down to a depth
    */
-  async deletePage(pageId: string): Promise<ApiResult> {
+  async getDescendants(pageId: string, depth?: number, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
     try {
       const client = this.getClient();
-      await client.content.deleteContent({ id: pageId });
+      const descendants = await fetchDescendants(client, pageId, depth);
 
       return {
         success: true,
-        result: `Page ${pageId} deleted successfully!`,
+        data: descendants,
+        result: this.formatResult(descendants, format),
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -360,57 +578,91 @@ export class ConfluenceUtil {
   }
 
   /**
-   * Download an attachment from a page
+   * List the ancestors of a page, from the top of the space down to its parent
    */
-  async downloadAttachment(attachmentId: string, outputPath?: string): Promise<ApiResult> {
+  async getAncestors(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
     try {
       const client = this.getClient();
+      const ancestors = await fetchAncestors(client, pageId);
 
-      // Get attachment metadata with container (parent content) information
-      const attachment = await client.content.getContentById({
-        id: attachmentId,
-        expand: ['container', 'metadata.mediaType', 'version'],
-      });
+      return {
+        success: true,
+        data: ancestors,
+        result: this.formatResult(ancestors, format),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
 
-      // Extract file info
-      const fileName = (attachment as { title?: string }).title || 'download';
-      const mediaType =
-        (attachment as { metadata?: { mediaType?: string } }).metadata?.mediaType || 'application/octet-stream';
+  /**
+   * Show the page tree of a space, or the subtree of a page
+   */
+  async tree(spaceKey?: string, pageId?: string, depth?: number, format: TreeFormat = 'text'): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const tree = await fetchTree(client, { spaceKey, pageId }, depth);
 
-      // Get parent content ID from container
-      const containerId = (attachment as { container?: { id?: string } }).container?.id;
+      return {
+        success: true,
+        data: tree,
+        result: format === 'text' ? renderTree(tree) : this.formatResult(tree, format),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
 
-      if (!containerId) {
-        return {
-          success: false,
-          error: 'ERROR: Parent content ID not found in attachment metadata',
-        };
+  /**
+   * Move a page under a new parent, into another space, or next to a sibling
+   * A page moved to a space goes under the space's home page.
+   */
+  async movePage(pageId: string, target: MoveTarget): Promise<ApiResult> {
+    try {
+      const targets = [target.parentId, target.spaceKey, target.before, target.after].filter(Boolean);
+      if (targets.length !== 1) {
+        throw new Error('Exactly one of parentId, spaceKey, before or after is required');
       }
 
-      // Use built-in downloadAttachment method from confluence.js
-      const buffer = await client.contentAttachments.downloadAttachment({
-        id: containerId,
-        attachmentId,
-      });
-
-      // Determine output file path
-      const finalPath = outputPath || path.join(process.cwd(), fileName);
-
-      // Write file to disk
-      fs.writeFileSync(finalPath, buffer);
+      const client = this.getClient();
+      const sibling = target.before || target.after;
+      let position: 'append' | 'before' | 'after';
+      let targetId: string;
+      let placement: string;
+      if (sibling) {
+        position = target.before ? 'before' : 'after';
+        targetId = sibling;
+        placement = `${position} page ${targetId}`;
+      } else if (target.parentId) {
+        position = 'append';
+        targetId = target.parentId;
+        placement = `under page ${targetId}`;
+      } else if (target.spaceKey) {
+        const space = await client.space.getSpace({ spaceKey: target.spaceKey, expand: ['homepage'] });
+        if (!space.homepage?.id) {
+          throw new Error(`Space ${target.spaceKey} has no home page`);
+        }
+        position = 'append';
+        targetId = space.homepage.id;
+        placement = `to space ${target.spaceKey}`;
+      } else {
+        throw new Error('Exactly one of parentId, spaceKey, before or after is required');
+      }
 
-      const fileSize = buffer.length;
-      const fileSizeKB = (fileSize / 1024).toFixed(2);
+      await client.contentChildrenAndDescendants.movePage({ pageId, position, targetId });
 
       return {
         success: true,
-        data: {
-          fileName,
-          filePath: finalPath,
-          fileSize,
-          mediaType,
-        },
-        result: `Attachment downloaded successfully!\n\nFile: ${fileName}\nPath: ${finalPath}\nSize: ${fileSizeKB} KB\nType: ${mediaType}`,
+        data: { id: pageId, position, targetId },
+        result: `Page ${pageId} moved ${placement}`,
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -422,23 +674,1091 @@ export class ConfluenceUtil {
   }
 
   /**
-   * Get user information
+   * Copy a page, optionally with its descendants, under a parent page or to the top level of a space
    */
-  async getUser(accountId?: string, username?: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+  async copyPage(pageId: string, destination: CopyDestination, options: CopyOptions = {}): Promise<ApiResult> {
     try {
       const client = this.getClient();
+      const copied = await copyPages(client, pageId, destination, options);
+      const where = destination.parentId ? `under page ${destination.parentId}` : `to space ${destination.spaceKey}`;
 
-      if (accountId) {
-        const user = await client.users.getUser({ accountId });
-        return {
-          success: true,
-          data: user,
-          result: this.formatResult(user, format),
-        };
+      return {
+        success: true,
+        data: copied,
+        result: [
+          `Copied ${copied.length} page(s) ${where}:`,
+          ...copied.map(page => `  ${page.sourceId} → ${page.id} "${page.title}"`),
+        ].join('\n'),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Reorder the children of a page; unlisted children follow the listed ones in their current order
+   */
+  async reorderChildren(pageId: string, order: string[]): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const moves = await reorderChildren(client, pageId, order);
+
+      return {
+        success: true,
+        data: { id: pageId, moves },
+        result:
+          moves === 0
+            ? `Children of page ${pageId} are already in order`
+            : `Reordered the children of page ${pageId} (${moves} moved)`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * List the versions of a page, newest first
+   */
+  async listVersions(pageId: string, limit = 25, start = 0, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const response = await client.contentVersions.getContentVersions({ id: pageId, start, limit });
+
+      const versions = (response.results ?? []).map(version => ({
+        number: version.number,
+        author: version.by?.displayName ?? version.by?.publicName,
+        date: version.when,
+        message: version.message || undefined,
+        minorEdit: version.minorEdit,
+      }));
+
+      return {
+        success: true,
+        data: versions,
+        result: this.formatResult(versions, format),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Show how a page's body changed between two versions, or differs from a local file
+   * Without versions, the current version is compared with the one before it, or with the file.
+   * Local Markdown files (.md) are compared with the page rendered as Markdown; other files hold a storage body,
+   * which is split into blocks or rendered as Markdown like the page.
+   */
+  async diffPage(
+    pageId: string,
+    from?: number,
+    to?: number,
+    file?: string,
+    mode: DiffMode = 'line',
+    bodyFormat: BodyFormat = 'storage'
+  ): Promise<ApiResult> {
+    try {
+      if (file && to !== undefined) {
+        throw new Error('Compare with either a version (to) or a file, not both');
+      }
+      const markdown = bodyFormat === 'markdown' || (file !== undefined && isMarkdownFile(file));
+      const render = (storage: string): string =>
+        markdown ? storageToMarkdown(storage).content : storageLines(storage);
+
+      let diff: string;
+      if (file) {
+        const page = await this.pageVersion(pageId, from);
+        const content = fs.readFileSync(file, 'utf-8');
+        const local = isMarkdownFile(file) ? parsePageFile(content).body.trim() : render(content);
+        diff = diffText(mode, render(page.storage), local, `${page.title} (version ${page.version})`, file);
+      } else {
+        const newer = await this.pageVersion(pageId, to);
+        const olderVersion = from ?? newer.version - 1;
+        if (olderVersion < 1) {
+          throw new Error(`Page ${pageId} has no version before ${newer.version}`);
+        }
+        const older = await this.pageVersion(pageId, olderVersion);
+        diff = diffText(
+          mode,
+          render(older.storage),
+          render(newer.storage),
+          `${older.title} (version ${older.version})`,
+          `${newer.title} (version ${newer.version})`
+        );
+      }
+
+      return {
+        success: true,
+        data: diff,
+        result: diff || 'No differences.',
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Fetch the title and storage body of a page at a version, or the current version
+   */
+  private async pageVersion(
+    pageId: string,
+    version?: number
+  ): Promise<{ title: string; version: number; storage: string }> {
+    const page = (await this.getClient().content.getContentById({
+      id: pageId,
+      expand: ['body.storage', 'version'],
+      ...(version !== undefined ? { version } : {}),
+    })) as CurrentPage;
+    return {
+      title: page.title ?? '',
+      version: page.version?.number ?? version ?? 0,
+      storage: page.body?.storage?.value ?? '',
+    };
+  }
+
+  /**
+   * Publish an older version of a page as its new current version
+   */
+  async restoreVersion(pageId: string, version: number, message?: string): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const restored = await client.contentVersions.restoreContentVersion({
+        id: pageId,
+        operationKey: 'restore',
+        params: { versionNumber: version, message: message ?? `Restored version ${version}` },
+      });
+
+      return {
+        success: true,
+        data: restored,
+        result: `Page ${pageId} restored from version ${version} as version ${restored.number}`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Render a page as a Markdown or plain-text document
+   * The title heads the document; attachments and links found in the body are listed at the end.
+   */
+  formatPageDocument(page: PageDocument, format: 'markdown' | 'text', bodyOnly = false): string {
+    const storage = page.body?.storage?.value ?? '';
+    const { content, links } = format === 'markdown' ? storageToMarkdown(storage) : storageToText(storage);
+    if (bodyOnly) {
+      return content;
+    }
+
+    const baseUrl = this.config.host.replace(/\/$/, '');
+    const attachments = (page.children?.attachment?.results ?? []).map(attachment => {
+      const name = attachment.title ?? '';
+      const download = attachment._links?.download;
+      if (!download) {
+        return name;
+      }
+      return format === 'markdown' ? `[${name}](${baseUrl}${download})` : `${name} (${baseUrl}${download})`;
+    });
+
+    const title = page.title ?? '';
+    const sections = [format === 'markdown' ? `# ${title}` : `${title}\n${'='.repeat(title.length)}`, content];
+    const list = (heading: string, items: string[]): void => {
+      if (items.length > 0) {
+        const header = format === 'markdown' ? `## ${heading}` : `${heading}:`;
+        sections.push(`${header}\n\n${items.map(item => `- ${item}`).join('\n')}`);
+      }
+    };
+    list('Attachments', attachments);
+    list('Links', links);
+
+    return sections.filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Convert a page body to storage format
+   */
+  toStorage(body: string, bodyFormat: BodyFormat): string {
+    return bodyFormat === 'markdown' ? markdownToStorage(body) : body;
+  }
+
+  /**
+   * Save a new version of a page
+   * The current page is fetched unless its version is given. On a version conflict it is fetched
+   * again and the change rebuilt from it, up to `retries` times; a version given by the caller is
+   * the one they edited, so it is never retried.
+   * @param expand - Page fields the change is built from
+   * @param change - Title and storage body of the new version, built from the current page
+   * @param type - Type of the content
+   * @returns The new version number
+   */
+  private async saveVersion(
+    pageId: string,
+    version: number | undefined,
+    options: UpdatePageOptions,
+    expand: string[],
+    change: (page: CurrentPage) => { title: string; value: string },
+    type: ContentType = 'page'
+  ): Promise<number> {
+    const client = this.getClient();
+    const { expectedVersion, retries = 0, versionMessage, minorEdit } = options;
+    const name = CONTENT_TYPE_NAMES[type].toLowerCase();
+
+    for (let attempt = 0; ; attempt++) {
+      const page =
+        version === undefined
+          ? ((await client.content.getContentById({ id: pageId, expand })) as CurrentPage)
+          : { version: { number: version } };
+      const current = page.version?.number;
+      if (current === undefined) {
+        throw new Error(`Version of ${name} ${pageId} not found`);
+      }
+      if (expectedVersion !== undefined && current !== expectedVersion) {
+        throw new Error(`Version conflict: ${name} ${pageId} is at version ${current}, expected ${expectedVersion}`);
+      }
+
+      const { title, value } = change(page);
+      try {
+        await client.content.updateContent({
+          id: pageId,
+          type,
+          body: {
+            storage: {
+              value,
+              representation: 'storage',
+            },
+          },
+          title,
+          version: {
+            number: current + 1,
+            ...(versionMessage ? { message: versionMessage } : {}),
+            ...(minorEdit !== undefined ? { minorEdit } : {}),
+          },
+        });
+        return current + 1;
+      } catch (error: unknown) {
+        if (!isVersionConflict(error)) {
+          throw error;
+        }
+        if (version !== undefined || attempt >= retries) {
+          throw new Error(`Version conflict: ${name} ${pageId} was changed since version ${current}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Create a new page
+   */
+  async createPage(
+    spaceKey: string,
+    title: string,
+    body: string,
+    parentId?: string,
+    format: 'json' | 'toon' = 'json',
+    bodyFormat: BodyFormat = 'storage'
+  ): Promise<ApiResult> {
+    return this.createContent('page', spaceKey, title, body, parentId, format, bodyFormat);
+  }
+
+  /**
+   * Create a new blog post
+   */
+  async createBlogPost(
+    spaceKey: string,
+    title: string,
+    body: string,
+    format: 'json' | 'toon' = 'json',
+    bodyFormat: BodyFormat = 'storage'
+  ): Promise<ApiResult> {
+    return this.createContent('blogpost', spaceKey, title, body, undefined, format, bodyFormat);
+  }
+
+  /**
+   * Create a page or blog post
+   */
+  private async createContent(
+    type: ContentType,
+    spaceKey: string,
+    title: string,
+    body: string,
+    parentId: string | undefined,
+    format: 'json' | 'toon',
+    bodyFormat: BodyFormat
+  ): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+
+      const contentBody: {
+        type: ContentType;
+        title: string;
+        space: { key: string };
+        body: { storage: { value: string; representation: 'storage' } };
+        ancestors?: Array<{ id: string }>;
+      } = {
+        type,
+        title,
+        space: { key: spaceKey },
+        body: {
+          storage: {
+            value: this.toStorage(body, bodyFormat),
+            representation: 'storage',
+          },
+        },
+      };
+
+      if (parentId) {
+        contentBody.ancestors = [{ id: parentId }];
+      }
+
+      const response = await client.content.createContent(contentBody);
+
+      return {
+        success: true,
+        data: response,
+        result: this.formatResult(response, format),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Update an existing page
+   */
+  async updatePage(
+    pageId: string,
+    title: string,
+    body: string,
+    version?: number,
+    bodyFormat: BodyFormat = 'storage',
+    options: UpdatePageOptions = {}
+  ): Promise<ApiResult> {
+    return this.updateContent('page', pageId, title, body, version, bodyFormat, options);
+  }
+
+  /**
+   * Update an existing blog post
+   */
+  async updateBlogPost(
+    blogPostId: string,
+    title: string,
+    body: string,
+    version?: number,
+    bodyFormat: BodyFormat = 'storage',
+    options: UpdatePageOptions = {}
+  ): Promise<ApiResult> {
+    return this.updateContent('blogpost', blogPostId, title, body, version, bodyFormat, options);
+  }
+
+  /**
+   * Replace the title and body of a page or blog post
+   */
+  private async updateContent(
+    type: ContentType,
+    id: string,
+    title: string,
+    body: string,
+    version: number | undefined,
+    bodyFormat: BodyFormat,
+    options: UpdatePageOptions
+  ): Promise<ApiResult> {
+    try {
+      const value = this.toStorage(body, bodyFormat);
+      const newVersion = await this.saveVersion(id, version, options, ['version'], () => ({ title, value }), type);
+
+      return {
+        success: true,
+        data: { id, version: newVersion },
+        result: `${CONTENT_TYPE_NAMES[type]} ${id} updated successfully!`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Edit part of a page's current body
+   */
+  async editPage(
+    pageId: string,
+    edit: PageEdit,
+    bodyFormat: BodyFormat = 'storage',
+    options: UpdatePageOptions = {}
+  ): Promise<ApiResult> {
+    try {
+      const content = edit.content === undefined ? undefined : this.toStorage(edit.content, bodyFormat);
+      const newVersion = await this.saveVersion(pageId, undefined, options, ['version', 'body.storage'], page => ({
+        title: page.title ?? '',
+        value: applyPageEdit(page.body?.storage?.value ?? '', { ...edit, content }),
+      }));
+
+      return {
+        success: true,
+        data: { id: pageId, version: newVersion },
+        result: `Page ${pageId} updated to version ${newVersion} (${edit.operation})`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Preview replacing text in the storage body of every page in a scope, and apply it unless this is a dry run
+   * Each page is updated on top of the version it was read at, so pages edited in the meantime fail
+   * with a version conflict instead of losing the edit. Updated pages, with their old and new
+   * versions, are written to a report for rollback.
+   */
+  async replace(scope: ReplaceScope, rule: ReplaceRule, options: ReplaceOptions = {}): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const cql = scopeCql(scope);
+      const pages = await planReplacements(client, cql, rule);
+
+      const lines = [`Plan: replace "${rule.find}" with "${rule.replace}" in ${pages.length} page(s) matching ${cql}`];
+      for (const page of pages) {
+        lines.push(`~ ${page.pageId} "${page.title}" (version ${page.version}): ${page.matches} replacement(s)`);
+        lines.push(...page.preview.map(line => `    ${line}`));
+      }
+      if (options.dryRun !== false || pages.length === 0) {
+        lines.push(
+          '',
+          pages.length === 0
+            ? 'No pages match.'
+            : 'Dry run: nothing was changed. Replace with dryRun set to false to apply it.'
+        );
+        return { success: true, data: pages, result: lines.join('\n') };
+      }
+
+      const report = pages.map(page => ({
+        pageId: page.pageId,
+        title: page.title,
+        replacements: page.matches,
+        oldVersion: page.version,
+        newVersion: undefined as number | undefined,
+        error: undefined as string | undefined,
+      }));
+      const batchSize = options.batchSize ?? 10;
+      for (let start = 0; start < pages.length; start += batchSize) {
+        const batch = pages.slice(start, start + batchSize);
+        const results = await Promise.all(
+          batch.map(page =>
+            this.updatePage(page.pageId, page.title, page.body, page.version, 'storage', {
+              versionMessage: options.versionMessage,
+              minorEdit: options.minorEdit,
+            })
+          )
+        );
+        results.forEach((result, index) => {
+          const entry = report[start + index];
+          if (result.success) {
+            entry.newVersion = (result.data as { version: number }).version;
+          } else {
+            entry.error = result.error?.replace(/^ERROR: /, '');
+          }
+        });
+      }
+
+      const reportFile = options.reportFile ?? `replace-report-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+      fs.writeFileSync(
+        reportFile,
+        `${JSON.stringify({ cql, find: rule.find, replace: rule.replace, regex: rule.regex ?? false, pages: report }, null, 2)}\n`
+      );
+
+      const failed = report.filter(entry => entry.error);
+      lines.push('');
+      lines.push(...failed.map(entry => `! ${entry.pageId} "${entry.title}": ${entry.error}`));
+      lines.push(`Updated ${report.length - failed.length} page(s), ${failed.length} failed. Report: ${reportFile}`);
+
+      if (failed.length > 0) {
+        return {
+          success: false,
+          data: report,
+          error: `ERROR: ${failed.length} page(s) could not be updated\n\n${lines.join('\n')}`,
+        };
+      }
+      return { success: true, data: report, result: lines.join('\n') };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Add a comment to a page
+   */
+  async addComment(pageId: string, body: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+
+      // First, get the page to find its space
+      const page = await client.content.getContentById({
+        id: pageId,
+        expand: ['space'],
+      });
+
+      const spaceKey = (page as { space?: { key?: string } }).space?.key;
+
+      const response = await client.content.createContent({
+        type: 'comment',
+        container: {
+          id: pageId,
+          type: 'page',
+        },
+        title: '',
+        space: {
+          key: spaceKey as string,
+        },
+        body: {
+          storage: {
+            value: body,
+            representation: 'storage',
+          },
+        },
+      });
+
+      return {
+        success: true,
+        data: response,
+        result: this.formatResult(response, format),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Delete a page
+   */
+  async deletePage(pageId: string): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      await client.content.deleteContent({ id: pageId });
+
+      return {
+        success: true,
+        result: `Page ${pageId} deleted successfully!`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * List the labels of a page
+   */
+  async listLabels(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const labels = await fetchAll<{ name: string; prefix: string }>(start =>
+        client.contentLabels.getLabelsForContent({ id: pageId, start, limit: PAGE_SIZE })
+      );
+      const simplifiedLabels = labels.map(label => ({ name: label.name, prefix: label.prefix }));
+
+      return {
+        success: true,
+        data: simplifiedLabels,
+        result: this.formatResult(simplifiedLabels, format),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Add labels to a page, or to every page matching a CQL query
+   */
+  async addLabels(target: LabelTarget, labels: string[]): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const pages = await this.labelTargets(target, labels);
+      for (const page of pages) {
+        await client.contentLabels.addLabelsToContent({
+          id: page.id,
+          body: labels.map(name => ({ prefix: 'global', name })),
+        });
+      }
+
+      return {
+        success: true,
+        data: { labels, pages },
+        result: this.labelResult('Added', 'to', target, labels, pages),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Remove labels from a page, or from every page matching a CQL query
+   * With a query, labels a matching page does not have are skipped.
+   */
+  async removeLabels(target: LabelTarget, labels: string[]): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      // Only the pages that have one of the labels need changing
+      const pages = await this.labelTargets(
+        target.cql ? { cql: `(${target.cql}) AND label in (${labels.map(cqlString).join(', ')})` } : target,
+        labels
+      );
+      for (const page of pages) {
+        for (const name of labels) {
+          try {
+            await client.contentLabels.removeLabelFromContentUsingQueryParameter({ id: page.id, name });
+          } catch (error: unknown) {
+            if (!isNotFound(error) || !target.cql) {
+              throw error;
+            }
+          }
+        }
+      }
+
+      return {
+        success: true,
+        data: { labels, pages },
+        result: this.labelResult('Removed', 'from', target, labels, pages),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Resolve the pages whose labels are changed
+   */
+  private async labelTargets(target: LabelTarget, labels: string[]): Promise<TreePage[]> {
+    if (labels.length === 0) {
+      throw new Error('At least one label is required');
+    }
+    if (target.pageId && target.cql) {
+      throw new Error('Give either pageId or cql, not both');
+    }
+    if (target.pageId) {
+      return [{ id: target.pageId, title: '' }];
+    }
+    if (!target.cql) {
+      throw new Error('Either pageId or cql is required');
+    }
+    const pages = await searchAll<TreePage>(this.getClient(), target.cql);
+    return pages.map(page => ({ id: page.id, title: page.title }));
+  }
+
+  /**
+   * Describe a label change, listing the pages changed by a CQL query
+   */
+  private labelResult(
+    action: string,
+    preposition: string,
+    target: LabelTarget,
+    labels: string[],
+    pages: TreePage[]
+  ): string {
+    const names = labels.join(', ');
+    if (!target.cql) {
+      return `${action} labels ${names} ${preposition} page ${target.pageId}`;
+    }
+    return [
+      `${action} labels ${names} ${preposition} ${pages.length} page(s)`,
+      ...pages.map(page => `  ${page.id} "${page.title}"`),
+    ].join('\n');
+  }
+
+  /**
+   * List the attachments of a page
+   */
+  async listAttachments(pageId: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const baseUrl = this.config.host.replace(/\/$/, '');
+      const attachments = await fetchAll<AttachmentSummary>(
+        start =>
+          client.contentAttachments.getAttachments({
+            id: pageId,
+            expand: ['version'],
+            start,
+            limit: PAGE_SIZE,
+          }) as Promise<{ results?: AttachmentSummary[] }>
+      );
+
+      const simplifiedAttachments = attachments.map(attachment => ({
+        id: attachment.id,
+        title: attachment.title,
+        fileSize: attachment.extensions?.fileSize,
+        mediaType: attachment.metadata?.mediaType ?? attachment.extensions?.mediaType,
+        version: attachment.version?.number,
+        comment: attachment.metadata?.comment || undefined,
+        downloadLink: attachment._links?.download ? `${baseUrl}${attachment._links.download}` : undefined,
+      }));
+
+      return {
+        success: true,
+        data: simplifiedAttachments,
+        result: this.formatResult(simplifiedAttachments, format),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Upload files as attachments of a page
+   * A file replaces the attachment with the same name as a new version, or is added as a new attachment.
+   */
+  async uploadAttachments(pageId: string, files: string[], comment?: string, minorEdit = false): Promise<ApiResult> {
+    try {
+      const paths = expandFiles(files);
+      const byName = new Map<string, string>();
+      for (const file of paths) {
+        const name = path.basename(file);
+        if (byName.has(name)) {
+          throw new Error(`Two files are named ${name}: ${byName.get(name)} and ${file}`);
+        }
+        byName.set(name, file);
+      }
+
+      const client = this.getClient();
+      const response = (await client.contentAttachments.createOrUpdateAttachments({
+        id: pageId,
+        attachments: paths.map(file => ({
+          file: fs.readFileSync(file),
+          filename: path.basename(file),
+          minorEdit,
+          ...(comment ? { comment } : {}),
+        })),
+      })) as { results?: Array<{ id: string; title: string; version?: { number?: number } }> };
+
+      const uploaded = (response.results ?? []).map(attachment => ({
+        id: attachment.id,
+        title: attachment.title,
+        version: attachment.version?.number,
+      }));
+
+      return {
+        success: true,
+        data: uploaded,
+        result: [
+          `Uploaded ${uploaded.length} attachment(s) to page ${pageId}:`,
+          ...uploaded.map(attachment => `  ${attachment.title} (${attachment.id}, version ${attachment.version})`),
+        ].join('\n'),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Delete an attachment, moving it to the space's trash
+   */
+  async deleteAttachment(attachmentId: string): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      await client.content.deleteContent({ id: attachmentId });
+
+      return {
+        success: true,
+        result: `Attachment ${attachmentId} deleted successfully!`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Download an attachment from a page
+   */
+  async downloadAttachment(attachmentId: string, outputPath?: string): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+
+      // Get attachment metadata with container (parent content) information
+      const attachment = await client.content.getContentById({
+        id: attachmentId,
+        expand: ['container', 'metadata.mediaType', 'version'],
+      });
+
+      // Extract file info
+      const fileName = (attachment as { title?: string }).title || 'download';
+      const mediaType =
+        (attachment as { metadata?: { mediaType?: string } }).metadata?.mediaType || 'application/octet-stream';
+
+      // Get parent content ID from container
+      const containerId = (attachment as { container?: { id?: string } }).container?.id;
+
+      if (!containerId) {
+        return {
+          success: false,
+          error: 'ERROR: Parent content ID not found in attachment metadata',
+        };
+      }
+
+      // Use built-in downloadAttachment method from confluence.js
+      const buffer = await client.contentAttachments.downloadAttachment({
+        id: containerId,
+        attachmentId,
+      });
+
+      // Determine output file path
+      const finalPath = outputPath || path.join(process.cwd(), fileName);
+
+      // Write file to disk
+      fs.writeFileSync(finalPath, buffer);
+
+      const fileSize = buffer.length;
+      const fileSizeKB = (fileSize / 1024).toFixed(2);
+
+      return {
+        success: true,
+        data: {
+          fileName,
+          filePath: finalPath,
+          fileSize,
+          mediaType,
+        },
+        result: `Attachment downloaded successfully!\n\nFile: ${fileName}\nPath: ${finalPath}\nSize: ${fileSizeKB} KB\nType: ${mediaType}`,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Pull a space or page tree into a directory of Markdown files
+   */
+  async pull(
+    spaceKey: string | undefined,
+    rootPageId: string | undefined,
+    outputDir: string,
+    force = false
+  ): Promise<ApiResult> {
+    if (!spaceKey && !rootPageId) {
+      return {
+        success: false,
+        error: 'ERROR: Either spaceKey or pageId is required',
+      };
+    }
+
+    try {
+      const client = this.getClient();
+      const pages = await pullPages(client, { spaceKey, rootPageId, outputDir, force });
+      const attachments = pages.reduce((total, page) => total + page.attachments, 0);
+      const lines = pages.map(page => `- ${page.path} (${page.id}, version ${page.version ?? '?'})`);
+
+      return {
+        success: true,
+        data: pages,
+        result: [`Pulled ${pages.length} page(s) and ${attachments} attachment(s) into ${outputDir}`, ...lines].join(
+          '\n'
+        ),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Show the plan of pushing a directory of Markdown files to a page tree, and apply it unless this is a dry run
+   * Refuses to overwrite pages changed in Confluence since they were last synced unless forced.
+   */
+  async push(sourceDir: string, parentId: string, dryRun = true, force = false): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const plan = await pushPages(client, { sourceDir, parentId, dryRun, force });
+
+      const count = (action: PushAction): number => plan.pages.filter(page => page.action === action).length;
+      const lines = [`Plan: push ${sourceDir} to page ${parentId} in space ${plan.spaceKey}`];
+      for (const page of plan.pages) {
+        const id = page.pageId ? ` (${page.pageId})` : '';
+        const attachments = page.action !== 'unchanged' && page.attachments.length > 0;
+        lines.push(
+          `${PUSH_ACTION_MARKERS[page.action]} ${page.path} "${page.title}"${id}` +
+            (attachments ? ` with ${page.attachments.length} attachment(s)` : '') +
+            (page.reason ? `: ${page.reason}` : '')
+        );
+      }
+      if (plan.warnings.length > 0) {
+        lines.push('', 'Warnings:', ...plan.warnings.map(warning => `  - ${warning}`));
+      }
+      const conflicts = count('conflict');
+      lines.push(
+        '',
+        `${count('create')} to create, ${count('update')} to update, ${count('unchanged')} unchanged` +
+          (conflicts > 0 ? `, ${conflicts} in conflict` : '')
+      );
+
+      if (conflicts > 0 && !dryRun) {
+        return {
+          success: false,
+          data: plan,
+          error:
+            `ERROR: ${conflicts} page(s) are in conflict; nothing was changed. ` +
+            `Pull or rename them first, or push with force to overwrite.\n\n${lines.join('\n')}`,
+        };
+      }
+      lines.push(
+        plan.applied ? 'Push complete.' : 'Dry run: nothing was changed. Push with dryRun set to false to apply it.'
+      );
+
+      return {
+        success: true,
+        data: plan,
+        result: lines.join('\n'),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Report whether each local page file is unchanged, modified locally or remotely, or in conflict
+   */
+  async syncStatus(dir: string): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const statuses = await syncStatus(client, dir);
+
+      const counts = new Map<string, number>();
+      const lines = statuses.map(status => {
+        const label = status.state.replace('-', ' ');
+        counts.set(label, (counts.get(label) ?? 0) + 1);
+        const versions =
+          status.remoteVersion !== undefined && status.remoteVersion !== status.localVersion
+            ? `version ${status.localVersion ?? '?'} → ${status.remoteVersion}`
+            : `version ${status.localVersion ?? '?'}`;
+        const details = status.pageId ? ` (${status.pageId}, ${versions})` : '';
+        return `  ${label.padEnd(17)} ${status.path}${details}`;
+      });
+      const summary = [...counts].map(([label, count]) => `${count} ${label}`).join(', ') || 'no page files';
+
+      return {
+        success: true,
+        data: statuses,
+        result: [`Sync status of ${dir}: ${summary}`, ...lines].join('\n'),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Show how local page files differ from their pages in Confluence
+   */
+  async syncDiff(dir: string, file?: string): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+      const patches = await syncDiff(client, dir, file);
+
+      return {
+        success: true,
+        data: patches,
+        result: patches.length > 0 ? patches.join('\n\n') : 'No differences.',
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ERROR: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Get user information
+   */
+  async getUser(accountId?: string, username?: string, format: 'json' | 'toon' = 'json'): Promise<ApiResult> {
+    try {
+      const client = this.getClient();
+
+      if (accountId) {
+        const user = await client.users.getUser({ accountId });
+        return {
+          success: true,
+          data: user,
+          result: this.formatResult(user, format),
+        };
       } else if (username) {
         // Search for user by username
         const users = await client.search.searchUser({
-          cql: `user.fullname~"${username}"`,
+          cql: `user.fullname~${cqlString(username)}`,
           limit: 1,
         });
         if (users.results && users.results.length > 0) {
@@ -472,22 +1792,27 @@ export class ConfluenceUtil {
 
   /**
    * Test Confluence API connection
+   * Reports the authentication mode used, whether or not the connection succeeds.
    */
   async testConnection(): Promise<ApiResult> {
+    const authType = this.config.authType;
+    const authentication = `Authentication: ${AUTH_TYPE_LABELS[authType]}`;
+
     try {
       const client = this.getClient();
       const currentUser = await client.users.getCurrentUser();
+      const user = currentUser.email ? `${currentUser.displayName} (${currentUser.email})` : currentUser.displayName;
 
       return {
         success: true,
-        data: { currentUser },
-        result: `✅ Connection successful!\n\nLogged in as: ${currentUser.displayName} (${currentUser.email})`,
+        data: { currentUser, authType },
+        result: `✅ Connection successful!\n\nLogged in as: ${user}\n${authentication}`,
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         success: false,
-        error: `ERROR: ${errorMessage}`,
+        error: `ERROR: ${errorMessage}\n${authentication}`,
       };
     }
   }
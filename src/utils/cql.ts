@@ -0,0 +1,121 @@
+import type { ConfluenceClient } from 'confluence.js';
+
+/**
+ * Helpers for building and running CQL queries
+ */
+
+/** Number of results requested per page of a search */
+const SEARCH_PAGE_SIZE = 50;
+
+/** Dates accepted by the created and lastmodified filters */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?$/;
+
+/**
+ * Structured search filters; the conditions are combined with AND
+ */
+export interface SearchFilters {
+  /** Raw CQL condition */
+  cql?: string;
+  /** Content type: page, blogpost, comment or attachment */
+  type?: string;
+  spaceKey?: string;
+  label?: string;
+  /** Account ID of the creator */
+  creator?: string;
+  /** Account ID of anyone who edited the content */
+  contributor?: string;
+  /** Only content created on or after this date (YYYY-MM-DD or YYYY-MM-DD HH:mm) */
+  createdAfter?: string;
+  /** Only content created before this date (YYYY-MM-DD or YYYY-MM-DD HH:mm) */
+  createdBefore?: string;
+  /** Only content last modified on or after this date (YYYY-MM-DD or YYYY-MM-DD HH:mm) */
+  modifiedAfter?: string;
+  /** Only content last modified before this date (YYYY-MM-DD or YYYY-MM-DD HH:mm) */
+  modifiedBefore?: string;
+  /** Words searched for in the title, body and labels */
+  text?: string;
+  /** Words searched for in the title */
+  title?: string;
+}
+
+/**
+ * Quote a value for use in a CQL query, escaping quotes and backslashes
+ */
+export function cqlString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+function cqlDate(value: string): string {
+  if (!DATE_PATTERN.test(value)) {
+    throw new Error(`Invalid date "${value}": use YYYY-MM-DD or YYYY-MM-DD HH:mm`);
+  }
+  return cqlString(value);
+}
+
+/**
+ * Build the CQL query for a set of search filters, quoting every value
+ */
+export function searchCql(filters: SearchFilters): string {
+  const conditions: string[] = [];
+  const add = (field: string, operator: string, value: string | undefined): void => {
+    if (value) {
+      conditions.push(`${field} ${operator} ${cqlString(value)}`);
+    }
+  };
+  add('type', '=', filters.type);
+  add('space', '=', filters.spaceKey);
+  add('label', '=', filters.label);
+  add('creator', '=', filters.creator);
+  add('contributor', '=', filters.contributor);
+  add('title', '~', filters.title);
+  add('text', '~', filters.text);
+  if (filters.createdAfter) {
+    conditions.push(`created >= ${cqlDate(filters.createdAfter)}`);
+  }
+  if (filters.createdBefore) {
+    conditions.push(`created < ${cqlDate(filters.createdBefore)}`);
+  }
+  if (filters.modifiedAfter) {
+    conditions.push(`lastmodified >= ${cqlDate(filters.modifiedAfter)}`);
+  }
+  if (filters.modifiedBefore) {
+    conditions.push(`lastmodified < ${cqlDate(filters.modifiedBefore)}`);
+  }
+  if (filters.cql) {
+    conditions.push(`(${filters.cql})`);
+  }
+  if (conditions.length === 0) {
+    throw new Error('A cql query or at least one filter is required');
+  }
+  return conditions.join(' AND ');
+}
+
+/**
+ * Cursor of the next page of search results, taken from the response's next link
+ */
+export function nextCursor(response: { _links?: { next?: string } }): string | undefined {
+  const next = response._links?.next;
+  return next ? (new URLSearchParams(next.split('?')[1] ?? '').get('cursor') ?? undefined) : undefined;
+}
+
+/**
+ * Fetch every result of a CQL query, following the search cursor
+ * @param client - Confluence client
+ * @param cql - Query to run
+ * @param expand - Fields to expand on each result
+ */
+export async function searchAll<T>(client: ConfluenceClient, cql: string, expand: string[] = []): Promise<T[]> {
+  const results: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = (await client.content.searchContentByCQL({
+      cql,
+      cursor,
+      limit: SEARCH_PAGE_SIZE,
+      expand,
+    })) as { results?: T[]; _links?: { next?: string } };
+    results.push(...(response.results ?? []));
+    cursor = nextCursor(response);
+  } while (cursor);
+  return results;
+}
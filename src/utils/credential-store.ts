@@ -0,0 +1,73 @@
+import childProcess from 'child_process';
+
+/**
+ * Credential helpers for keeping the API token out of ~/.connicli
+ *
+ * A profile can set `token_command` to a shell command that prints the token on stdout
+ * (e.g. `pass show confluence`). Tokens stored in the freedesktop Secret Service are
+ * read back the same way, through libsecret's `secret-tool` helper.
+ */
+
+/** Time allowed for a token command before it is abandoned */
+const TOKEN_COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Attributes identifying a profile's token in the Secret Service
+ */
+function secretServiceAttributes(profile: string): string[] {
+  return ['service', 'conni-cli', 'profile', profile];
+}
+
+/**
+ * Run a credential helper command and return the token it prints
+ * @param command - Shell command printing the token on stdout
+ * @returns The token with surrounding whitespace removed
+ * @throws Error if the command fails, times out or prints nothing
+ */
+export function runTokenCommand(command: string): string {
+  let output: string;
+  try {
+    output = childProcess.execSync(command, {
+      encoding: 'utf-8',
+      stdio: ['inherit', 'pipe', 'pipe'],
+      timeout: TOKEN_COMMAND_TIMEOUT_MS,
+    });
+  } catch (error: unknown) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const errorMessage = stderr || (error instanceof Error ? error.message : String(error));
+    throw new Error(`token_command failed: ${errorMessage}`);
+  }
+
+  const token = output.trim();
+  if (!token) {
+    throw new Error(`token_command printed no token: ${command}`);
+  }
+  return token;
+}
+
+/**
+ * Build the token_command that reads a profile's token from the Secret Service
+ * @param profile - Profile name the token is stored under
+ */
+export function secretServiceLookupCommand(profile: string): string {
+  return ['secret-tool', 'lookup', ...secretServiceAttributes(profile)].join(' ');
+}
+
+/**
+ * Store a profile's token in the Secret Service using `secret-tool store`
+ * @param profile - Profile name to store the token under
+ * @param token - Token to store
+ * @throws Error if secret-tool is not installed or the keyring rejects the secret
+ */
+export function storeSecretServiceToken(profile: string, token: string): void {
+  try {
+    childProcess.execFileSync(
+      'secret-tool',
+      ['store', '--label', `conni-cli (${profile})`, ...secretServiceAttributes(profile)],
+      { input: token, stdio: ['pipe', 'ignore', 'pipe'], timeout: TOKEN_COMMAND_TIMEOUT_MS }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot store token in the Secret Service (is secret-tool installed?): ${errorMessage}`);
+  }
+}
@@ -0,0 +1,76 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Expand file paths and glob patterns (`*`, `?` and `**`) into the files they match
+ */
+
+const GLOB_CHARS = /[*?]/;
+
+/**
+ * Convert a glob pattern, relative to its base directory, into a regular expression for relative paths
+ */
+function globPattern(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * List the files under a directory, as paths relative to it with `/` separators
+ */
+function listFiles(dir: string, prefix = ''): string[] {
+  return fs.readdirSync(path.join(dir, prefix), { withFileTypes: true }).flatMap(entry => {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      return listFiles(dir, relative);
+    }
+    return entry.isFile() ? [relative] : [];
+  });
+}
+
+/**
+ * Expand paths and glob patterns into the files they match
+ * A plain path must be an existing file, and a pattern must match at least one file.
+ * @param patterns - File paths or glob patterns, relative to cwd
+ * @param cwd - Directory relative paths are resolved against
+ * @returns Absolute paths of the matching files without duplicates, in pattern order with each pattern's matches sorted
+ */
+export function expandFiles(patterns: string[], cwd = process.cwd()): string[] {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    if (!GLOB_CHARS.test(pattern)) {
+      const file = path.resolve(cwd, pattern);
+      if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+        throw new Error(`File not found: ${pattern}`);
+      }
+      files.add(file);
+      continue;
+    }
+
+    // Walk only the directory before the first segment with a wildcard
+    const segments = pattern.split(/[\\/]/);
+    const globStart = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    const baseDir = path.resolve(cwd, segments.slice(0, globStart).join('/') || '.');
+    const matcher = globPattern(segments.slice(globStart).join('/'));
+    const matches = fs.existsSync(baseDir) ? listFiles(baseDir).filter(file => matcher.test(file)) : [];
+    if (matches.length === 0) {
+      throw new Error(`No files match: ${pattern}`);
+    }
+    matches.sort().forEach(file => files.add(path.join(baseDir, file)));
+  }
+  return [...files];
+}
@@ -1,17 +1,51 @@
 export { parseArguments } from './arg-parser.js';
-export { loadConfig, setupConfig } from './config-loader.js';
+export { listProfiles, loadConfig, setupConfig } from './config-loader.js';
 export type { Config } from './config-loader.js';
+export type { ApiResult, PageFormat, TreeFormat, UpdatePageOptions } from './confluence-utils.js';
+export type { BodyFormat } from './markdown.js';
+export type { DiffMode } from './page-diff.js';
+export type { EditOperation } from './page-edit.js';
+export { loadProjectConfig } from './project-config.js';
+export type { ProjectConfig } from './project-config.js';
 export {
   listSpaces,
   getSpace,
   listPages,
+  search,
   getPage,
+  getChildren,
+  getDescendants,
+  getAncestors,
+  tree,
+  movePage,
+  copyPage,
+  reorderChildren,
+  listVersions,
+  diffPage,
+  restoreVersion,
   createPage,
   updatePage,
+  editPage,
+  replace,
+  listBlogPosts,
+  createBlogPost,
+  updateBlogPost,
   addComment,
   deletePage,
+  listLabels,
+  addLabels,
+  removeLabels,
+  listAttachments,
+  uploadAttachments,
+  deleteAttachment,
   downloadAttachment,
+  pull,
+  push,
+  syncStatus,
+  syncDiff,
   getUser,
   testConnection,
   clearClients,
+  getActiveProfile,
+  setActiveProfile,
 } from './confluence-client.js';
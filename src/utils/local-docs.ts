@@ -0,0 +1,273 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { localReferences } from './markdown.js';
+
+/**
+ * Local Markdown copies of Confluence pages
+ *
+ * Each page is a Markdown file whose YAML front matter records where it lives in Confluence.
+ * A page's children are stored in a directory named after the page file, and its attachments
+ * in an `_attachments` directory inside it. A directory without a matching file is a page of its
+ * own, with the content of its `index.md` or `README.md` if it has one. Names starting with `.`
+ * or `_` are not pages.
+ *
+ * ```text
+ * docs/
+ *   getting-started.md
+ *   getting-started/
+ *     _attachments/diagram.png
+ *     installation.md
+ * ```
+ */
+
+/** Directory, inside a page's directory, holding the page's attachments */
+export const ATTACHMENTS_DIR = '_attachments';
+
+/** Files that hold the content of their directory's page */
+const INDEX_FILES = ['index.md', 'readme.md'];
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+/** Fields written to the front matter, in order */
+const FRONT_MATTER_KEYS = ['pageId', 'title', 'version', 'spaceKey', 'parentId', 'labels', 'contentHash'] as const;
+
+/** Front matter block, with the blank line that separates it from the body */
+const FRONT_MATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[^\S\r\n]*(?:\r?\n|$)(?:[^\S\r\n]*\r?\n)?/;
+
+/**
+ * Page metadata kept in the front matter of a local file
+ * Keys other than the page fields are preserved as-is.
+ */
+export interface PageFrontMatter {
+  pageId?: string;
+  title?: string;
+  /** Page version the local file was last pulled or pushed at */
+  version?: number;
+  spaceKey?: string;
+  parentId?: string;
+  labels?: string[];
+  /** Hash of the title, body and referenced images when the file was last pulled or pushed */
+  contentHash?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A local page file split into front matter and Markdown body
+ */
+export interface PageFile {
+  frontMatter: PageFrontMatter;
+  body: string;
+}
+
+/**
+ * A page read from a local directory
+ */
+export interface LocalPage {
+  /** Markdown file, absent for a directory page without an index file */
+  file?: string;
+  /** Markdown file of the page, or its directory when it has none */
+  path: string;
+  title: string;
+  frontMatter: PageFrontMatter;
+  /** Body as written in the file */
+  source: string;
+  /** Body published to Confluence, without a leading heading used as the title */
+  body: string;
+  contentHash?: string;
+  children: LocalPage[];
+}
+
+/**
+ * Split a Markdown file into its front matter and body
+ * IDs written unquoted, which YAML reads as numbers, are converted to strings.
+ * @param content - File content
+ * @returns The front matter (empty when the file has none) and the body after it
+ * @throws Error if the front matter is not a YAML mapping
+ */
+export function parsePageFile(content: string): PageFile {
+  const match = content.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { frontMatter: {}, body: content };
+  }
+
+  let document: unknown;
+  try {
+    document = parseYaml(match[1] ?? '');
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid front matter: ${errorMessage}`);
+  }
+  if (document !== null && (typeof document !== 'object' || Array.isArray(document))) {
+    throw new Error('Invalid front matter: expected a mapping');
+  }
+
+  const frontMatter: PageFrontMatter = { ...(document as Record<string, unknown> | null) };
+  for (const key of ['pageId', 'parentId', 'title', 'spaceKey', 'contentHash'] as const) {
+    if (typeof frontMatter[key] === 'number') {
+      frontMatter[key] = String(frontMatter[key]);
+    }
+  }
+  if (Array.isArray(frontMatter.labels)) {
+    frontMatter.labels = frontMatter.labels.map(String);
+  }
+
+  return { frontMatter, body: content.slice(match[0].length) };
+}
+
+/**
+ * Render a page file with its front matter
+ * Page fields come first in a fixed order; empty label lists are left out.
+ */
+export function formatPageFile({ frontMatter, body }: PageFile): string {
+  const ordered: Record<string, unknown> = {};
+  for (const key of FRONT_MATTER_KEYS) {
+    ordered[key] = frontMatter[key];
+  }
+  if (!frontMatter.labels?.length) {
+    delete ordered.labels;
+  }
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (!(key in ordered) && key !== 'labels') {
+      ordered[key] = value;
+    }
+  }
+
+  return `---\n${stringifyYaml(ordered, { lineWidth: 0 })}---\n\n${body.replace(/^\n+/, '')}`;
+}
+
+/**
+ * File name (without extension) for a page title
+ * Runs of anything other than letters and digits become a single hyphen.
+ * @returns The slug, or an empty string if the title has no letters or digits
+ */
+export function slugify(title: string): string {
+  return title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .slice(0, 100)
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Hash identifying the content of a page file
+ * Covers the title, the Markdown body and the bytes of the local images it references, so a
+ * replaced image counts as a change. Missing images are skipped.
+ * @param file - Path of the page file, used to resolve image paths
+ * @param title - Page title
+ * @param body - Markdown body, without front matter
+ */
+export function pageContentHash(file: string, title: string, body: string): string {
+  const hash = createHash('sha256').update(title).update('\0').update(body.trim());
+  for (const image of localReferences(body).images) {
+    const imagePath = path.resolve(path.dirname(file), image);
+    if (fs.existsSync(imagePath) && fs.statSync(imagePath).isFile()) {
+      hash.update('\0').update(fs.readFileSync(imagePath));
+    }
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+export function isMarkdownFile(name: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(path.extname(name).toLowerCase());
+}
+
+/**
+ * Title for a file or directory name without front matter or heading: `getting-started` becomes `Getting started`
+ */
+function titleFromName(name: string): string {
+  const words = name
+    .replace(/\.[^.]+$/, '')
+    .replace(/[-_]+/g, ' ')
+    .trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Read a page from a Markdown file
+ * The title comes from front matter, then a leading `# Heading` (which is then not part of the
+ * published body), then the file or directory name.
+ * @param file - Markdown file
+ * @param name - File or directory name the title falls back to
+ * @throws Error naming the file if its front matter is invalid
+ */
+export function readPageFile(file: string, name = path.basename(file)): LocalPage {
+  let parsed: PageFile;
+  try {
+    parsed = parsePageFile(fs.readFileSync(file, 'utf-8'));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`${file}: ${errorMessage}`);
+  }
+  const { frontMatter, body: source } = parsed;
+
+  let title = frontMatter.title;
+  let body = source;
+  const heading = source.match(/^\s*#[ \t]+(.+?)[ \t#]*(?:\r?\n|$)/);
+  if (!title && heading) {
+    title = heading[1];
+    body = source.slice(heading[0].length);
+  }
+  title = title || titleFromName(name);
+
+  return {
+    file,
+    path: file,
+    title,
+    frontMatter,
+    source,
+    body,
+    contentHash: pageContentHash(file, title, body),
+    children: [],
+  };
+}
+
+/**
+ * Read the pages in a directory, with their descendants
+ * @param dir - Directory to read
+ * @param indexFile - Index file of the directory's own page, which is not a child
+ */
+export function scanPageTree(dir: string, indexFile?: string): LocalPage[] {
+  const entries = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.') && !entry.name.startsWith('_'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const files = entries.filter(entry => entry.isFile() && isMarkdownFile(entry.name));
+  const dirs = entries.filter(entry => entry.isDirectory());
+  const baseName = (name: string): string => name.replace(/\.[^.]+$/, '');
+
+  const pages: LocalPage[] = [];
+  for (const entry of files) {
+    const file = path.join(dir, entry.name);
+    if (file === indexFile) {
+      continue;
+    }
+    const page = readPageFile(file, entry.name);
+    const childDir = dirs.find(d => d.name === baseName(entry.name));
+    if (childDir) {
+      page.children = scanPageTree(path.join(dir, childDir.name));
+    }
+    pages.push(page);
+  }
+
+  for (const entry of dirs) {
+    if (files.some(file => baseName(file.name) === entry.name)) {
+      continue;
+    }
+    const childDir = path.join(dir, entry.name);
+    const index = fs
+      .readdirSync(childDir)
+      .find(name => INDEX_FILES.includes(name.toLowerCase()) && fs.statSync(path.join(childDir, name)).isFile());
+    const indexPath = index ? path.join(childDir, index) : undefined;
+    const page: LocalPage = indexPath
+      ? readPageFile(indexPath, entry.name)
+      : { path: childDir, title: titleFromName(entry.name), frontMatter: {}, source: '', body: '', children: [] };
+    page.children = scanPageTree(childDir, indexPath);
+    pages.push(page);
+  }
+
+  return pages;
+}
@@ -0,0 +1,222 @@
+import { Lexer, Marked } from 'marked';
+import type { RendererObject, Tokens } from 'marked';
+
+/**
+ * Markdown support for page bodies
+ *
+ * Confluence stores pages in "storage format", an XHTML dialect with `ac:` macros and `ri:`
+ * resource identifiers. GitHub-flavored Markdown is converted locally before it is sent.
+ */
+
+/**
+ * Format of a page body supplied by the user
+ * - storage: Confluence storage format (XHTML), sent as-is
+ * - markdown: GitHub-flavored Markdown, converted to storage format
+ */
+export type BodyFormat = 'storage' | 'markdown';
+
+/**
+ * Confluence resource a relative link points to
+ */
+export type LinkTarget = { type: 'page'; title: string } | { type: 'attachment'; filename: string };
+
+/**
+ * Options for converting Markdown to storage format
+ */
+export interface StorageOptions {
+  /** Resolve a relative link to a page or attachment; unresolved links are kept as plain links */
+  resolveLink?: (href: string) => LinkTarget | undefined;
+}
+
+/**
+ * Confluence panel macro for each GitHub admonition type (`> [!NOTE]`)
+ */
+const ADMONITION_MACROS: Record<string, string> = {
+  NOTE: 'info',
+  TIP: 'tip',
+  IMPORTANT: 'note',
+  WARNING: 'warning',
+  CAUTION: 'warning',
+};
+
+const ADMONITION_PATTERN = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][^\S\n]*([^\n]*)\n?/i;
+
+/** Scheme of an absolute URL (https:, mailto:, ...) */
+const URL_SCHEME_PATTERN = /^[a-z][a-z\d+.-]*:/i;
+
+/**
+ * Escape text for use in XHTML content or attribute values
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Wrap text in a CDATA section, splitting any `]]>` it contains
+ */
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Attachment file name referenced by a relative image path
+ */
+function attachmentName(href: string): string {
+  const name = href.split(/[?#]/)[0].split('/').pop() ?? href;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Build a structured macro element
+ * @param name - Macro name (e.g. code, info)
+ * @param parameters - Macro parameters; empty values are omitted
+ * @param body - Body element (`ac:plain-text-body` or `ac:rich-text-body`), if any
+ */
+function macro(name: string, parameters: Record<string, string | undefined>, body = ''): string {
+  const params = Object.entries(parameters)
+    .map(([key, value]) => (value ? `<ac:parameter ac:name="${key}">${escapeXml(value)}</ac:parameter>` : ''))
+    .join('');
+  return `<ac:structured-macro ac:name="${name}">${params}${body}</ac:structured-macro>\n`;
+}
+
+/**
+ * Whether a link or image path refers to a local file rather than a URL or an anchor
+ */
+function isRelativePath(href: string): boolean {
+  return Boolean(href) && !URL_SCHEME_PATTERN.test(href) && !href.startsWith('#') && !href.startsWith('/');
+}
+
+/**
+ * Markdown renderer emitting storage format
+ * Output that marked already renders as valid XHTML (headings, paragraphs, emphasis, links) is left to its defaults.
+ */
+function storageRenderer(options: StorageOptions): RendererObject {
+  return {
+    code({ text, lang }: Tokens.Code): string {
+      const language = lang?.trim().split(/\s+/)[0];
+      return macro('code', { language }, `<ac:plain-text-body>${cdata(text)}</ac:plain-text-body>`);
+    },
+
+    blockquote({ text, tokens }: Tokens.Blockquote): string {
+      const admonition = text.match(ADMONITION_PATTERN);
+      if (!admonition) {
+        return `<blockquote>${this.parser.parse(tokens)}</blockquote>\n`;
+      }
+      const body = this.parser.parse(Lexer.lex(text.slice(admonition[0].length), this.options));
+      const name = ADMONITION_MACROS[admonition[1].toUpperCase()];
+      return macro(name, { title: admonition[2].trim() }, `<ac:rich-text-body>${body}</ac:rich-text-body>`);
+    },
+
+    list(token: Tokens.List): string | false {
+      if (!token.items.every(item => item.task)) {
+        return false;
+      }
+      const tasks = token.items.map(item => {
+        const status = item.checked ? 'complete' : 'incomplete';
+        const body = this.parser.parse(item.tokens.filter(child => child.type !== 'checkbox'));
+        return `<ac:task><ac:task-status>${status}</ac:task-status><ac:task-body>${body.trim()}</ac:task-body></ac:task>`;
+      });
+      return `<ac:task-list>${tasks.join('')}</ac:task-list>\n`;
+    },
+
+    // Task items in a list that also has plain items keep their checkbox as text
+    checkbox({ checked }: Tokens.Checkbox): string {
+      return checked ? '[x] ' : '[ ] ';
+    },
+
+    table(token: Tokens.Table): string {
+      const cell = (tag: 'th' | 'td', { tokens, align }: Tokens.TableCell): string => {
+        const style = align ? ` style="text-align: ${align};"` : '';
+        return `<${tag}${style}>${this.parser.parseInline(tokens)}</${tag}>`;
+      };
+      const rows = [
+        `<tr>${token.header.map(header => cell('th', header)).join('')}</tr>`,
+        ...token.rows.map(row => `<tr>${row.map(data => cell('td', data)).join('')}</tr>`),
+      ];
+      return `<table><tbody>${rows.join('')}</tbody></table>\n`;
+    },
+
+    hr(): string {
+      return '<hr />\n';
+    },
+
+    br(): string {
+      return '<br />';
+    },
+
+    del({ tokens }: Tokens.Del): string {
+      return `<s>${this.parser.parseInline(tokens)}</s>`;
+    },
+
+    // Relative links to other pages or local files become page and attachment links
+    link({ href, tokens }: Tokens.Link): string | false {
+      const target = isRelativePath(href) ? options.resolveLink?.(href) : undefined;
+      if (!target) {
+        return false;
+      }
+      const resource =
+        target.type === 'page'
+          ? `<ri:page ri:content-title="${escapeXml(target.title)}" />`
+          : `<ri:attachment ri:filename="${escapeXml(target.filename)}" />`;
+      return `<ac:link>${resource}<ac:link-body>${this.parser.parseInline(tokens)}</ac:link-body></ac:link>`;
+    },
+
+    // Relative image paths refer to attachments of the page
+    image({ href, title, text }: Tokens.Image): string {
+      const isUrl = URL_SCHEME_PATTERN.test(href);
+      const resource = isUrl
+        ? `<ri:url ri:value="${escapeXml(href)}" />`
+        : `<ri:attachment ri:filename="${escapeXml(attachmentName(href))}" />`;
+      const titleAttribute = title ? ` ac:title="${escapeXml(title)}"` : '';
+      return `<ac:image ac:alt="${escapeXml(text)}"${titleAttribute}>${resource}</ac:image>`;
+    },
+  };
+}
+
+const storageMarked = new Marked({ gfm: true, async: false, renderer: storageRenderer({}) });
+
+/**
+ * Convert GitHub-flavored Markdown to Confluence storage format
+ *
+ * Fenced code blocks become code macros, task lists become Confluence tasks, GitHub admonitions
+ * (`> [!NOTE]`, `> [!WARNING]`, ...) become info/tip/note/warning panels and relative image paths
+ * become attachment references. Raw HTML is passed through unchanged.
+ *
+ * @param markdown - Markdown source
+ * @param options - Resolver for relative links
+ * @returns Storage-format XHTML
+ */
+export function markdownToStorage(markdown: string, options?: StorageOptions): string {
+  const marked = options ? new Marked({ gfm: true, async: false, renderer: storageRenderer(options) }) : storageMarked;
+  return (marked.parse(markdown) as string).trim();
+}
+
+/**
+ * Relative paths referenced by the links and images of a Markdown document
+ * Anchors and query strings are removed and percent-encoding is decoded.
+ * @param markdown - Markdown source
+ * @returns Paths in order of first appearance
+ */
+export function localReferences(markdown: string): { links: string[]; images: string[] } {
+  const references = { links: [] as string[], images: [] as string[] };
+  storageMarked.walkTokens(Lexer.lex(markdown, { gfm: true }), token => {
+    if ((token.type === 'link' || token.type === 'image') && isRelativePath(token.href)) {
+      const list = token.type === 'link' ? references.links : references.images;
+      const [filePath] = token.href.split(/[?#]/);
+      let decoded = filePath;
+      try {
+        decoded = decodeURIComponent(filePath);
+      } catch {
+        // Keep paths with stray % signs as written
+      }
+      if (decoded && !list.includes(decoded)) {
+        list.push(decoded);
+      }
+    }
+  });
+  return references;
+}
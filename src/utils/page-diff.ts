@@ -0,0 +1,66 @@
+import { createTwoFilesPatch, diffWords } from 'diff';
+
+/**
+ * Text diffs of page bodies
+ */
+
+/**
+ * How differences are shown
+ * - line: unified diff
+ * - word: changed lines with removed words as [-word-] and added words as {+word+}
+ */
+export type DiffMode = 'line' | 'word';
+
+/** Storage format elements that start a new line when a body is diffed */
+const BLOCK_END_PATTERN =
+  /(<\/(?:p|h[1-6]|li|ul|ol|tr|table|tbody|blockquote|pre|div|ac:task|ac:structured-macro|ac:layout-cell)>|<br\s*\/>)(?!\n)/g;
+
+/**
+ * Put each block of a storage format body on its own line, so line diffs show what changed
+ */
+export function storageLines(storage: string): string {
+  return storage.replace(BLOCK_END_PATTERN, '$1\n');
+}
+
+/**
+ * Unified diff of two texts
+ * @returns The patch, or an empty string if the texts are equal
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string): string {
+  if (oldText === newText) {
+    return '';
+  }
+  const withNewline = (text: string): string => (text.endsWith('\n') ? text : `${text}\n`);
+  const patch = createTwoFilesPatch(oldLabel, newLabel, withNewline(oldText), withNewline(newText));
+  // Drop the separator line the diff library starts each patch with
+  return patch.replace(/^=+\n/, '').trimEnd();
+}
+
+/**
+ * Word diff of two texts, showing only the lines with changes
+ * @returns The changed lines, or an empty string if the texts are equal
+ */
+function wordDiff(oldText: string, newText: string, oldLabel: string, newLabel: string): string {
+  if (oldText === newText) {
+    return '';
+  }
+  const marked = diffWords(oldText, newText)
+    .map(change => {
+      if (change.removed) {
+        return `[-${change.value}-]`;
+      }
+      return change.added ? `{+${change.value}+}` : change.value;
+    })
+    .join('');
+  const changed = marked.split('\n').filter(line => /\[-|-\]|\{\+|\+\}/.test(line));
+  return [`--- ${oldLabel}`, `+++ ${newLabel}`, ...changed].join('\n');
+}
+
+/**
+ * Diff two texts in the given mode
+ */
+export function diffText(mode: DiffMode, oldText: string, newText: string, oldLabel: string, newLabel: string): string {
+  return mode === 'word'
+    ? wordDiff(oldText, newText, oldLabel, newLabel)
+    : unifiedDiff(oldText, newText, oldLabel, newLabel);
+}
@@ -0,0 +1,169 @@
+import { isTag, isText } from 'domhandler';
+import type { ChildNode, Element } from 'domhandler';
+import { parseDocument } from 'htmlparser2';
+
+/**
+ * Partial edits of a page's storage format body
+ */
+
+/**
+ * Operations of edit-page
+ * - append / prepend: add content at the end or start of the body
+ * - replace-section: replace what follows a heading, up to the next heading of the same or a higher level
+ * - insert-after-heading: add content right after a heading
+ * - find-replace: replace every match of a regular expression in the storage body
+ */
+export type EditOperation = 'append' | 'prepend' | 'replace-section' | 'insert-after-heading' | 'find-replace';
+
+/**
+ * An edit of a page body
+ */
+export interface PageEdit {
+  operation: EditOperation;
+  /** Storage format content to add, or to replace a section with */
+  content?: string;
+  /** Text of the heading a section edit applies to (case and surrounding whitespace are ignored) */
+  heading?: string;
+  /** Regular expression to find */
+  find?: string;
+  /** Replacement for each match; `$1` refers to a capture group */
+  replace?: string;
+}
+
+/**
+ * Heading level of an element, or undefined if it is not a heading
+ */
+function headingLevel(node: ChildNode): number | undefined {
+  const match = isTag(node) ? /^h([1-6])$/.exec(node.name) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+function textOf(node: ChildNode): string {
+  if (isText(node)) {
+    return node.data;
+  }
+  return isTag(node) ? node.children.map(textOf).join('') : '';
+}
+
+const normalizeHeading = (text: string): string => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Start or end offset of a node; bodies are parsed with both, so a missing one is a parser bug
+ */
+function offset(index: number | null): number {
+  if (index === null) {
+    throw new Error('Storage body offsets are missing');
+  }
+  return index;
+}
+
+/**
+ * A heading element and its level
+ */
+interface Heading {
+  element: Element;
+  level: number;
+}
+
+/**
+ * Find the one heading with the given text
+ */
+function findHeading(storage: string, heading: string): Heading {
+  const document = parseDocument(storage, {
+    recognizeCDATA: true,
+    recognizeSelfClosing: true,
+    withStartIndices: true,
+    withEndIndices: true,
+  });
+  const wanted = normalizeHeading(heading);
+  const headings: Heading[] = [];
+  const visit = (nodes: ChildNode[]): void => {
+    for (const node of nodes) {
+      if (!isTag(node)) {
+        continue;
+      }
+      const level = headingLevel(node);
+      if (level !== undefined && normalizeHeading(textOf(node)) === wanted) {
+        headings.push({ element: node, level });
+      } else {
+        visit(node.children);
+      }
+    }
+  };
+  visit(document.children);
+
+  if (headings.length === 0) {
+    throw new Error(`Heading not found: "${heading}"`);
+  }
+  if (headings.length > 1) {
+    throw new Error(`Heading "${heading}" appears ${headings.length} times`);
+  }
+  return headings[0];
+}
+
+/**
+ * Offset where the section under a heading ends
+ * The section stops at the next heading of the same or a higher level, or at the end of the
+ * element containing the heading, so edits never cross a layout cell or macro body.
+ */
+function sectionEnd({ element, level }: Heading): number {
+  let node = element.next;
+  let last: ChildNode = element;
+  while (node) {
+    const nextLevel = headingLevel(node);
+    if (nextLevel !== undefined && nextLevel <= level) {
+      return offset(node.startIndex);
+    }
+    last = node;
+    node = node.next;
+  }
+  return offset(last.endIndex) + 1;
+}
+
+function required(edit: PageEdit, name: 'content' | 'heading' | 'find'): string {
+  const value = edit[name];
+  if (value === undefined || (name !== 'content' && value === '')) {
+    throw new Error(`"${name}" is required for ${edit.operation}`);
+  }
+  return value;
+}
+
+/**
+ * Apply an edit to a storage format body
+ * @param storage - Current body
+ * @param edit - Operation and its arguments
+ * @returns The edited body
+ */
+export function applyPageEdit(storage: string, edit: PageEdit): string {
+  switch (edit.operation) {
+    case 'append':
+      return storage + required(edit, 'content');
+    case 'prepend':
+      return required(edit, 'content') + storage;
+    case 'replace-section': {
+      const content = required(edit, 'content');
+      const heading = findHeading(storage, required(edit, 'heading'));
+      const start = offset(heading.element.endIndex) + 1;
+      return storage.slice(0, start) + content + storage.slice(sectionEnd(heading));
+    }
+    case 'insert-after-heading': {
+      const content = required(edit, 'content');
+      const start = offset(findHeading(storage, required(edit, 'heading')).element.endIndex) + 1;
+      return storage.slice(0, start) + content + storage.slice(start);
+    }
+    case 'find-replace': {
+      const find = required(edit, 'find');
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(find, 'g');
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid pattern: ${errorMessage}`);
+      }
+      if (!pattern.test(storage)) {
+        throw new Error(`Pattern not found: ${find}`);
+      }
+      return storage.replace(pattern, edit.replace ?? '');
+    }
+  }
+}
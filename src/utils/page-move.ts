@@ -0,0 +1,133 @@
+import type { ConfluenceClient } from 'confluence.js';
+
+import { fetchChildren, fetchTree } from './page-tree.js';
+import type { TreeNode } from './page-tree.js';
+
+/**
+ * Restructure the page tree: copy pages and reorder the children of a page
+ */
+
+/**
+ * Where a copy is placed: under a parent page, or at the top level of a space
+ */
+export interface CopyDestination {
+  parentId?: string;
+  spaceKey?: string;
+}
+
+/**
+ * What a copy includes and how the copied pages are titled
+ */
+export interface CopyOptions {
+  /** Copy the descendants too */
+  recursive?: boolean;
+  attachments?: boolean;
+  labels?: boolean;
+  /** Added before the title of every copied page */
+  titlePrefix?: string;
+  /** Added after the title of every copied page */
+  titleSuffix?: string;
+}
+
+/**
+ * A copied page and the page it was copied from
+ */
+export interface CopiedPage {
+  sourceId: string;
+  id: string;
+  title: string;
+}
+
+/**
+ * Where the copy API places a copied page
+ */
+interface CopyTarget {
+  type: 'parent_page' | 'space';
+  value: string;
+}
+
+/**
+ * Copy a page, or a page with its descendants, keeping the order of the children
+ * The source tree is read before anything is copied, so a tree can be copied into itself.
+ * @param client - Confluence client
+ * @param pageId - Page to copy
+ * @param destination - Parent page of the copy; the top level of spaceKey if parentId is not set
+ * @param options - What to copy and how to title the copies
+ * @returns The copied pages, parents before their children
+ */
+export async function copyPages(
+  client: ConfluenceClient,
+  pageId: string,
+  destination: CopyDestination,
+  options: CopyOptions = {}
+): Promise<CopiedPage[]> {
+  const rootTarget: CopyTarget | undefined = destination.parentId
+    ? { type: 'parent_page', value: destination.parentId }
+    : destination.spaceKey
+      ? { type: 'space', value: destination.spaceKey }
+      : undefined;
+  if (!rootTarget) {
+    throw new Error('Either parentId or spaceKey is required');
+  }
+  const [root] = await fetchTree(client, { pageId }, options.recursive ? Infinity : 0);
+
+  const copied: CopiedPage[] = [];
+  const copy = async (node: TreeNode, target: CopyTarget): Promise<void> => {
+    const title =
+      options.titlePrefix || options.titleSuffix
+        ? `${options.titlePrefix ?? ''}${node.title}${options.titleSuffix ?? ''}`
+        : undefined;
+    const page = (await client.contentChildrenAndDescendants.copyPage({
+      id: node.id,
+      // Required by the client's types but not sent; the destination is in the body
+      destinationPageId: target.value,
+      expand: [],
+      bodyParameters: {
+        copyAttachments: options.attachments ?? false,
+        copyLabels: options.labels ?? false,
+        destination: target,
+        pageTitle: title,
+      },
+    })) as { id: string; title: string };
+    copied.push({ sourceId: node.id, id: page.id, title: page.title });
+
+    for (const child of node.children) {
+      await copy(child, { type: 'parent_page', value: page.id });
+    }
+  };
+
+  await copy(root, rootTarget);
+  return copied;
+}
+
+/**
+ * Reorder the children of a page
+ * Children that are not listed keep their relative order after the listed ones.
+ * @param client - Confluence client
+ * @param pageId - Parent page
+ * @param order - IDs of child pages in their new order
+ * @returns Number of pages moved
+ */
+export async function reorderChildren(client: ConfluenceClient, pageId: string, order: string[]): Promise<number> {
+  const current = (await fetchChildren(client, pageId)).map(child => child.id);
+  const unknown = order.filter(id => !current.includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Not children of page ${pageId}: ${unknown.join(', ')}`);
+  }
+  if (new Set(order).size !== order.length) {
+    throw new Error('Each child page can be listed only once');
+  }
+
+  const desired = [...order, ...current.filter(id => !order.includes(id))];
+  let moves = 0;
+  for (const [index, id] of desired.entries()) {
+    if (current[index] === id) {
+      continue;
+    }
+    await client.contentChildrenAndDescendants.movePage({ pageId: id, position: 'before', targetId: current[index] });
+    current.splice(current.indexOf(id), 1);
+    current.splice(index, 0, id);
+    moves++;
+  }
+  return moves;
+}
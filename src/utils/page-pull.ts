@@ -0,0 +1,237 @@
+import type { ConfluenceClient } from 'confluence.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { ATTACHMENTS_DIR, formatPageFile, pageContentHash, readPageFile, slugify } from './local-docs.js';
+import { PAGE_SIZE, fetchAll, fetchChildren, fetchRootPages } from './page-tree.js';
+import { storageToMarkdown } from './storage-to-markdown.js';
+
+/**
+ * Download a space or page tree as a directory of Markdown files
+ */
+
+/** Fields expanded for every pulled page */
+const PAGE_EXPAND = ['body.storage', 'version', 'metadata.labels', 'space'];
+
+/**
+ * Page fields used when pulling
+ */
+interface RemotePage {
+  id: string;
+  title: string;
+  version?: { number?: number };
+  body?: { storage?: { value?: string } };
+  metadata?: { labels?: { results?: Array<{ name?: string }> } };
+  space?: { key?: string };
+  ancestors?: Array<{ id: string }>;
+}
+
+/**
+ * A page placed in the local directory tree
+ */
+interface PageNode {
+  page: RemotePage;
+  parentId?: string;
+  /** Path of the page file */
+  file: string;
+  /** Directory holding the page's children and attachments */
+  dir: string;
+  children: PageNode[];
+}
+
+/**
+ * What to pull and where to write it
+ */
+export interface PullOptions {
+  /** Space whose whole page tree is pulled; ignored when rootPageId is set */
+  spaceKey?: string;
+  /** Page whose subtree is pulled */
+  rootPageId?: string;
+  outputDir: string;
+  /** Overwrite files with local changes */
+  force?: boolean;
+}
+
+/**
+ * A page written by a pull
+ */
+export interface PulledPage {
+  id: string;
+  title: string;
+  version?: number;
+  path: string;
+  attachments: number;
+}
+
+async function fetchRoots(client: ConfluenceClient, options: PullOptions): Promise<RemotePage[]> {
+  if (options.rootPageId) {
+    const page = await client.content.getContentById({
+      id: options.rootPageId,
+      expand: [...PAGE_EXPAND, 'ancestors'],
+    });
+    return [page as RemotePage];
+  }
+  if (!options.spaceKey) {
+    throw new Error('Either spaceKey or rootPageId is required');
+  }
+
+  return fetchRootPages<RemotePage>(client, options.spaceKey, PAGE_EXPAND);
+}
+
+/**
+ * Place sibling pages in a directory, fetching their descendants
+ * Pages whose titles map to the same file name are told apart by their ID.
+ */
+async function buildTree(
+  client: ConfluenceClient,
+  pages: RemotePage[],
+  dir: string,
+  parentId: string | undefined
+): Promise<PageNode[]> {
+  const usedNames = new Set<string>();
+  const nodes: PageNode[] = [];
+
+  for (const page of pages) {
+    let name = slugify(page.title) || `page-${page.id}`;
+    if (usedNames.has(name)) {
+      name = `${name}-${page.id}`;
+    }
+    usedNames.add(name);
+
+    const node: PageNode = {
+      page,
+      parentId: parentId ?? page.ancestors?.at(-1)?.id,
+      file: path.join(dir, `${name}.md`),
+      dir: path.join(dir, name),
+      children: [],
+    };
+    node.children = await buildTree(
+      client,
+      await fetchChildren<RemotePage>(client, page.id, PAGE_EXPAND),
+      node.dir,
+      page.id
+    );
+    nodes.push(node);
+  }
+
+  return nodes;
+}
+
+/**
+ * Download a page's attachments into its attachments directory
+ * @returns The names of the downloaded files
+ */
+async function downloadAttachments(client: ConfluenceClient, node: PageNode): Promise<string[]> {
+  const attachments = await fetchAll(
+    start =>
+      client.contentAttachments.getAttachments({ id: node.page.id, start, limit: PAGE_SIZE }) as Promise<{
+        results?: Array<{ id: string; title: string }>;
+      }>
+  );
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  const attachmentsDir = path.join(node.dir, ATTACHMENTS_DIR);
+  fs.mkdirSync(attachmentsDir, { recursive: true });
+  for (const attachment of attachments) {
+    const buffer = await client.contentAttachments.downloadAttachment({
+      id: node.page.id,
+      attachmentId: attachment.id,
+    });
+    fs.writeFileSync(path.join(attachmentsDir, path.basename(attachment.title)), buffer);
+  }
+
+  return attachments.map(attachment => attachment.title);
+}
+
+/**
+ * Whether a local file was edited since it was last pulled or pushed, or was never synced
+ */
+function hasLocalChanges(file: string): boolean {
+  const page = readPageFile(file);
+  return page.contentHash !== page.frontMatter.contentHash;
+}
+
+/**
+ * Relative path between two local files, with forward slashes for use in Markdown links
+ */
+function linkPath(fromFile: string, toFile: string): string {
+  return path.relative(path.dirname(fromFile), toFile).split(path.sep).join('/');
+}
+
+/**
+ * Pull a space or page tree into a directory of Markdown files
+ *
+ * Each page is written with front matter recording its ID, version, title, space, parent, labels and
+ * content hash.
+ * Links to other pulled pages become relative links to their files and attachments are downloaded
+ * next to the page. Existing files are overwritten, unless they have local changes and the pull is not forced.
+ *
+ * @param client - Confluence client
+ * @param options - Space or root page to pull and the directory to write to
+ * @returns The pages written, in tree order
+ */
+export async function pullPages(client: ConfluenceClient, options: PullOptions): Promise<PulledPage[]> {
+  const tree = await buildTree(client, await fetchRoots(client, options), options.outputDir, undefined);
+
+  const nodes: PageNode[] = [];
+  const collect = (list: PageNode[]): void => {
+    for (const node of list) {
+      nodes.push(node);
+      collect(node.children);
+    }
+  };
+  collect(tree);
+
+  if (!options.force) {
+    const modified = nodes.map(node => node.file).filter(file => fs.existsSync(file) && hasLocalChanges(file));
+    if (modified.length > 0) {
+      throw new Error(
+        `Local changes would be overwritten in ${modified.join(', ')}; push them first, or pull with force`
+      );
+    }
+  }
+
+  // Links name pages by title, with a space key only when the page is in another space
+  const filesByTitle = new Map(nodes.map(node => [`${node.page.space?.key}:${node.page.title}`, node.file]));
+
+  const pulled: PulledPage[] = [];
+  for (const node of nodes) {
+    const { page } = node;
+    const spaceKey = page.space?.key;
+    const attachments = await downloadAttachments(client, node);
+
+    const { content } = storageToMarkdown(page.body?.storage?.value ?? '', {
+      attachmentPath: filename => linkPath(node.file, path.join(node.dir, ATTACHMENTS_DIR, filename)),
+      pagePath: (title, linkedSpaceKey) => {
+        const file = filesByTitle.get(`${linkedSpaceKey ?? spaceKey}:${title}`);
+        return file ? linkPath(node.file, file) : undefined;
+      },
+    });
+
+    const body = `${content}\n`;
+    const frontMatter = {
+      pageId: page.id,
+      title: page.title,
+      version: page.version?.number,
+      spaceKey,
+      parentId: node.parentId,
+      labels: (page.metadata?.labels?.results ?? []).map(label => label.name ?? '').filter(Boolean),
+      contentHash: pageContentHash(node.file, page.title, body),
+    };
+
+    fs.mkdirSync(path.dirname(node.file), { recursive: true });
+    fs.writeFileSync(node.file, formatPageFile({ frontMatter, body }));
+
+    pulled.push({
+      id: page.id,
+      title: page.title,
+      version: frontMatter.version,
+      path: node.file,
+      attachments: attachments.length,
+    });
+  }
+
+  return pulled;
+}
@@ -0,0 +1,355 @@
+import type { ConfluenceClient } from 'confluence.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { formatPageFile, isMarkdownFile, scanPageTree } from './local-docs.js';
+import type { LocalPage, PageFrontMatter } from './local-docs.js';
+import { localReferences, markdownToStorage } from './markdown.js';
+import type { LinkTarget } from './markdown.js';
+
+/**
+ * Publish a directory of Markdown files as a Confluence page tree
+ */
+
+/**
+ * What a push does with a page
+ * A conflict is an update of a page that was changed in Confluence since it was last pulled or
+ * pushed, or of a page elsewhere in the space that only shares the title; it blocks the push unless forced.
+ */
+export type PushAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+/**
+ * A local page and what a push does with it
+ */
+export interface PlannedPage {
+  action: PushAction;
+  title: string;
+  /** Markdown file of the page, or the directory for a page without one */
+  path: string;
+  /** ID of the existing page, or of the created page once applied */
+  pageId?: string;
+  /** Local files uploaded as attachments when the page is created or updated */
+  attachments: string[];
+  /** Why the page is in conflict */
+  reason?: string;
+}
+
+/**
+ * Outcome of planning, and possibly applying, a push
+ */
+export interface PushPlan {
+  spaceKey: string;
+  parentId: string;
+  pages: PlannedPage[];
+  warnings: string[];
+  applied: boolean;
+}
+
+/**
+ * Where to push and whether to change anything
+ */
+export interface PushOptions {
+  sourceDir: string;
+  /** Page the directory is published under */
+  parentId: string;
+  /** Only plan the push */
+  dryRun?: boolean;
+  /** Overwrite pages changed in Confluence since they were last pulled or pushed */
+  force?: boolean;
+}
+
+/**
+ * Existing page fields used to plan a push
+ */
+interface RemotePage {
+  id: string;
+  title: string;
+  version?: { number?: number };
+  ancestors?: Array<{ id: string }>;
+}
+
+/**
+ * A local page and its place in the push
+ */
+interface PushPage extends LocalPage {
+  plan: PlannedPage;
+  parent?: PushPage;
+  /** Current version, for pages that exist */
+  remoteVersion?: number;
+}
+
+/**
+ * List the pages of a tree in tree order, parents before their children
+ */
+function flatten(pages: LocalPage[], parent?: PushPage): PushPage[] {
+  return pages.flatMap(local => {
+    const page: PushPage = {
+      ...local,
+      parent,
+      plan: { action: 'unchanged', title: local.title, path: local.path, attachments: [] },
+    };
+    return [page, ...flatten(local.children, page)];
+  });
+}
+
+/**
+ * Resolve the links of a page file to other local pages and files
+ * Links to files that are not pages become attachments of the page.
+ */
+function linkResolver(file: string, titlesByPath: Map<string, string>): (href: string) => LinkTarget | undefined {
+  return href => {
+    let target: string;
+    try {
+      target = path.resolve(path.dirname(file), decodeURIComponent(href.split(/[?#]/)[0]));
+    } catch {
+      return undefined;
+    }
+    const title = titlesByPath.get(target);
+    if (title) {
+      return { type: 'page', title };
+    }
+    if (!isMarkdownFile(target) && fs.existsSync(target) && fs.statSync(target).isFile()) {
+      return { type: 'attachment', filename: path.basename(target) };
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Local files a page uploads as attachments: images and links to files that are not pages
+ */
+function attachmentFiles(page: PushPage, titlesByPath: Map<string, string>, warnings: string[]): string[] {
+  if (!page.file) {
+    return [];
+  }
+  const { links, images } = localReferences(page.body);
+  const files: string[] = [];
+  for (const reference of [...images, ...links]) {
+    const target = path.resolve(path.dirname(page.file), reference);
+    if (titlesByPath.has(target) || files.includes(target)) {
+      continue;
+    }
+    if (fs.existsSync(target) && fs.statSync(target).isFile()) {
+      if (!isMarkdownFile(target)) {
+        files.push(target);
+      }
+    } else if (images.includes(reference)) {
+      warnings.push(`${page.file}: image not found: ${reference}`);
+    }
+  }
+  return files;
+}
+
+/**
+ * Find an existing page in the space by title
+ */
+async function findByTitle(client: ConfluenceClient, spaceKey: string, title: string): Promise<RemotePage | undefined> {
+  const response = (await client.content.getContent({
+    spaceKey,
+    title,
+    type: 'page',
+    expand: ['version', 'ancestors'],
+  })) as { results?: RemotePage[] };
+  return response.results?.[0];
+}
+
+/**
+ * Decide what to do with each page
+ * Pages are matched by the page ID in their front matter, or else by title. A matched page is
+ * unchanged when its content hash matches the front matter and it is still under the same parent.
+ * A page matched by title only is moved under the pushed tree if forced, as it may be unrelated.
+ */
+async function planPages(
+  client: ConfluenceClient,
+  pages: PushPage[],
+  spaceKey: string,
+  rootParentId: string,
+  force: boolean
+): Promise<void> {
+  for (const page of pages) {
+    const { plan, frontMatter } = page;
+    const parentId = page.parent ? page.parent.plan.pageId : rootParentId;
+
+    let remote: RemotePage | undefined;
+    if (frontMatter.pageId) {
+      try {
+        remote = (await client.content.getContentById({
+          id: frontMatter.pageId,
+          expand: ['version', 'ancestors'],
+        })) as RemotePage;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`${plan.path}: page ${frontMatter.pageId} from front matter cannot be read: ${errorMessage}`);
+      }
+    } else {
+      remote = await findByTitle(client, spaceKey, plan.title);
+    }
+
+    if (!remote) {
+      plan.action = 'create';
+      continue;
+    }
+
+    plan.pageId = remote.id;
+    page.remoteVersion = remote.version?.number;
+    // A page whose parent is still to be created moves under it
+    const moved = parentId === undefined || remote.ancestors?.at(-1)?.id !== parentId;
+    const edited =
+      page.file !== undefined && (page.contentHash !== frontMatter.contentHash || remote.title !== plan.title);
+    const { version } = frontMatter;
+    const changedRemotely = version !== undefined && (page.remoteVersion ?? 0) > version;
+    if (!moved && !edited) {
+      plan.action = 'unchanged';
+    } else if (force) {
+      plan.action = 'update';
+    } else if (moved && !frontMatter.pageId) {
+      plan.action = 'conflict';
+      plan.reason = 'a page with this title is elsewhere in the space';
+    } else if (changedRemotely) {
+      plan.action = 'conflict';
+      plan.reason = `changed in Confluence since version ${version}`;
+    } else {
+      plan.action = 'update';
+    }
+  }
+}
+
+/**
+ * Create or update a page and upload its attachments, recording the result in its front matter
+ */
+async function applyPage(
+  client: ConfluenceClient,
+  page: PushPage,
+  spaceKey: string,
+  rootParentId: string,
+  titlesByPath: Map<string, string>
+): Promise<void> {
+  const { plan } = page;
+  const parentId = page.parent ? page.parent.plan.pageId : rootParentId;
+  if (!parentId) {
+    throw new Error(`${plan.path}: parent page has not been pushed`);
+  }
+  const storage = {
+    value: page.file ? markdownToStorage(page.body, { resolveLink: linkResolver(page.file, titlesByPath) }) : '',
+    representation: 'storage' as const,
+  };
+
+  let version: number;
+  if (plan.action === 'create') {
+    const created = await client.content.createContent({
+      type: 'page',
+      title: plan.title,
+      space: { key: spaceKey },
+      ancestors: [{ id: parentId }],
+      body: { storage },
+    });
+    plan.pageId = created.id;
+    version = created.version?.number ?? 1;
+  } else if (plan.pageId) {
+    version = (page.remoteVersion ?? 0) + 1;
+    await client.content.updateContent({
+      id: plan.pageId,
+      type: 'page',
+      title: plan.title,
+      ancestors: [{ id: parentId }],
+      version: { number: version },
+      // Directory pages without an index file keep the content they have
+      ...(page.file ? { body: { storage } } : {}),
+    });
+  } else {
+    throw new Error(`${plan.path}: no page ID to update`);
+  }
+
+  if (plan.attachments.length > 0) {
+    await client.contentAttachments.createOrUpdateAttachments({
+      id: plan.pageId,
+      attachments: plan.attachments.map(file => ({
+        file: fs.readFileSync(file),
+        filename: path.basename(file),
+        minorEdit: true,
+      })),
+    });
+  }
+
+  if (page.file) {
+    const frontMatter: PageFrontMatter = {
+      ...page.frontMatter,
+      pageId: plan.pageId,
+      version,
+      spaceKey,
+      parentId,
+      contentHash: page.contentHash,
+    };
+    fs.writeFileSync(page.file, formatPageFile({ frontMatter, body: page.source }));
+  }
+}
+
+/**
+ * Push a directory of Markdown files to a page tree
+ *
+ * Pages are planned first; unless this is a dry run or a page is in conflict, they are then
+ * created or updated in tree order. Relative links between the files become page links, and
+ * referenced images and files are uploaded as attachments. Each written file's front matter is updated with its page ID, version
+ * and content hash, so a push that stops part-way can be run again.
+ *
+ * @param client - Confluence client
+ * @param options - Directory, parent page and whether to apply the plan
+ * @returns The plan, with page IDs filled in for created pages when applied
+ */
+export async function pushPages(client: ConfluenceClient, options: PushOptions): Promise<PushPlan> {
+  if (!fs.existsSync(options.sourceDir) || !fs.statSync(options.sourceDir).isDirectory()) {
+    throw new Error(`Directory not found: ${options.sourceDir}`);
+  }
+
+  const parent = (await client.content.getContentById({ id: options.parentId, expand: ['space'] })) as {
+    space?: { key?: string };
+  };
+  const spaceKey = parent.space?.key;
+  if (!spaceKey) {
+    throw new Error(`Space of page ${options.parentId} not found`);
+  }
+
+  const pages = flatten(scanPageTree(options.sourceDir));
+  const titlesByPath = new Map<string, string>();
+  const pathsByTitle = new Map<string, string>();
+  for (const page of pages) {
+    const duplicate = pathsByTitle.get(page.plan.title.toLowerCase());
+    if (duplicate) {
+      throw new Error(`Duplicate title "${page.plan.title}" in ${duplicate} and ${page.plan.path}`);
+    }
+    pathsByTitle.set(page.plan.title.toLowerCase(), page.plan.path);
+    titlesByPath.set(path.resolve(page.plan.path), page.plan.title);
+  }
+
+  const warnings: string[] = [];
+  for (const page of pages) {
+    page.plan.attachments = attachmentFiles(page, titlesByPath, warnings);
+  }
+  await planPages(client, pages, spaceKey, options.parentId, options.force ?? false);
+
+  const plan: PushPlan = {
+    spaceKey,
+    parentId: options.parentId,
+    pages: pages.map(page => page.plan),
+    warnings,
+    applied: false,
+  };
+  if (options.dryRun || plan.pages.some(page => page.action === 'conflict')) {
+    return plan;
+  }
+
+  for (const page of pages) {
+    if (page.plan.action === 'unchanged') {
+      continue;
+    }
+    try {
+      await applyPage(client, page, spaceKey, options.parentId, titlesByPath);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Push stopped at ${page.plan.path}: ${errorMessage}`);
+    }
+  }
+  plan.applied = true;
+
+  return plan;
+}
@@ -0,0 +1,175 @@
+import type { ConfluenceClient } from 'confluence.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { ATTACHMENTS_DIR, scanPageTree } from './local-docs.js';
+import type { LocalPage } from './local-docs.js';
+import { unifiedDiff } from './page-diff.js';
+import { storageToMarkdown } from './storage-to-markdown.js';
+
+/**
+ * Compare local page files with the pages in Confluence
+ *
+ * A file is modified locally when its content hash no longer matches the hash recorded in its
+ * front matter, and modified remotely when the page's version is newer than the recorded one.
+ */
+
+/**
+ * How a local page file relates to its page in Confluence
+ * - new: not pushed yet (no page ID in the front matter)
+ * - deleted-remotely: the page ID in the front matter no longer exists
+ */
+export type SyncState =
+  | 'unchanged'
+  | 'modified-locally'
+  | 'modified-remotely'
+  | 'conflicted'
+  | 'new'
+  | 'deleted-remotely';
+
+/**
+ * Sync state of one local page file
+ */
+export interface PageSyncStatus {
+  path: string;
+  title: string;
+  pageId?: string;
+  state: SyncState;
+  /** Version recorded in the front matter */
+  localVersion?: number;
+  remoteVersion?: number;
+}
+
+/**
+ * Page fields used to compare with a local file
+ */
+interface RemotePage {
+  title: string;
+  version?: { number?: number };
+  body?: { storage?: { value?: string } };
+}
+
+/**
+ * Fetch the page a local file was pulled from or pushed to
+ * @returns The page, or undefined if it no longer exists
+ */
+async function fetchRemote(client: ConfluenceClient, pageId: string): Promise<RemotePage | undefined> {
+  try {
+    return (await client.content.getContentById({ id: pageId, expand: ['version', 'body.storage'] })) as RemotePage;
+  } catch (error: unknown) {
+    // confluence.js rethrows the response body, which carries the HTTP status
+    if ((error as { statusCode?: number } | undefined)?.statusCode === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Classify a local page by its content hash and the recorded and remote versions
+ */
+export function syncState(page: LocalPage, remoteVersion: number | undefined): SyncState {
+  const localChange = page.contentHash !== page.frontMatter.contentHash;
+  const localVersion = page.frontMatter.version;
+  const remoteChange = localVersion === undefined || (remoteVersion ?? 0) > localVersion;
+  if (localChange && remoteChange) {
+    return 'conflicted';
+  }
+  if (localChange) {
+    return 'modified-locally';
+  }
+  return remoteChange ? 'modified-remotely' : 'unchanged';
+}
+
+/**
+ * Pages of a local directory that are backed by a Markdown file, in tree order
+ */
+function pageFiles(dir: string): LocalPage[] {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    throw new Error(`Directory not found: ${dir}`);
+  }
+  const flatten = (pages: LocalPage[]): LocalPage[] => pages.flatMap(page => [page, ...flatten(page.children)]);
+  return flatten(scanPageTree(dir)).filter(page => page.file);
+}
+
+async function statusOf(client: ConfluenceClient, page: LocalPage): Promise<[PageSyncStatus, RemotePage?]> {
+  const { pageId, version } = page.frontMatter;
+  const status: PageSyncStatus = { path: page.path, title: page.title, pageId, state: 'new', localVersion: version };
+  if (!pageId) {
+    return [status];
+  }
+  const remote = await fetchRemote(client, pageId);
+  if (!remote) {
+    return [{ ...status, state: 'deleted-remotely' }];
+  }
+  const remoteVersion = remote.version?.number;
+  return [{ ...status, remoteVersion, state: syncState(page, remoteVersion) }, remote];
+}
+
+/**
+ * Report the sync state of every page file in a directory
+ * @param client - Confluence client
+ * @param dir - Directory of pulled or pushed page files
+ */
+export async function syncStatus(client: ConfluenceClient, dir: string): Promise<PageSyncStatus[]> {
+  const statuses: PageSyncStatus[] = [];
+  for (const page of pageFiles(dir)) {
+    const [status] = await statusOf(client, page);
+    statuses.push(status);
+  }
+  return statuses;
+}
+
+/**
+ * Show how local page files differ from their pages in Confluence
+ * The remote body is converted to Markdown the way pull writes it, with links to local pages and
+ * pulled attachments, and compared with the local body as a unified diff (remote to local).
+ * @param client - Confluence client
+ * @param dir - Directory of pulled or pushed page files
+ * @param file - Only compare this file
+ * @returns One patch per page that differs
+ */
+export async function syncDiff(client: ConfluenceClient, dir: string, file?: string): Promise<string[]> {
+  const pages = pageFiles(dir);
+  const selected = file ? pages.filter(page => path.resolve(page.path) === path.resolve(file)) : pages;
+  if (file && selected.length === 0) {
+    throw new Error(`Not a page file in ${dir}: ${file}`);
+  }
+  const filesByTitle = new Map(pages.map(page => [page.title, page.path]));
+
+  const patches: string[] = [];
+  for (const page of selected) {
+    const [status, remote] = await statusOf(client, page);
+    if (!remote || status.state === 'unchanged') {
+      continue;
+    }
+
+    const pageFile = page.path;
+    const pageDir = pageFile.replace(/\.[^./\\]+$/, '');
+    const relative = (target: string): string =>
+      path.relative(path.dirname(pageFile), target).split(path.sep).join('/');
+    const { content } = storageToMarkdown(remote.body?.storage?.value ?? '', {
+      attachmentPath: filename => relative(path.join(pageDir, ATTACHMENTS_DIR, filename)),
+      pagePath: (title, spaceKey) => {
+        const target = spaceKey && spaceKey !== page.frontMatter.spaceKey ? undefined : filesByTitle.get(title);
+        return target ? relative(target) : undefined;
+      },
+    });
+
+    const remoteText = `${content.trim()}\n`;
+    const localText = `${page.body.trim()}\n`;
+    if (remoteText === localText && remote.title === page.title) {
+      continue;
+    }
+    patches.push(
+      unifiedDiff(
+        remoteText,
+        localText,
+        `${remote.title} (version ${status.remoteVersion ?? '?'})`,
+        `${pageFile} (${status.state})`
+      )
+    );
+  }
+
+  return patches;
+}
@@ -0,0 +1,176 @@
+import type { ConfluenceClient } from 'confluence.js';
+
+/**
+ * Navigate the page hierarchy: children, descendants, ancestors and whole trees
+ */
+
+/** Number of results requested per page of a listing */
+export const PAGE_SIZE = 100;
+
+/**
+ * A page in the hierarchy
+ */
+export interface TreePage {
+  id: string;
+  title: string;
+}
+
+/**
+ * A page with its descendants
+ */
+export interface TreeNode extends TreePage {
+  children: TreeNode[];
+}
+
+/**
+ * A descendant of a page, listed in tree order
+ */
+export interface DescendantPage extends TreePage {
+  parentId: string;
+  /** 1 for children, 2 for grandchildren, ... */
+  depth: number;
+}
+
+/**
+ * Fetch every result of a paginated content listing
+ */
+export async function fetchAll<T>(fetchPage: (start: number) => Promise<{ results?: T[] }>): Promise<T[]> {
+  const all: T[] = [];
+  for (let start = 0; ; start += PAGE_SIZE) {
+    const { results = [] } = await fetchPage(start);
+    all.push(...results);
+    if (results.length < PAGE_SIZE) {
+      return all;
+    }
+  }
+}
+
+/**
+ * Fetch the child pages of a page, in their order in the page tree
+ */
+export async function fetchChildren<T = TreePage>(
+  client: ConfluenceClient,
+  pageId: string,
+  expand: string[] = []
+): Promise<T[]> {
+  return fetchAll(
+    start =>
+      client.contentChildrenAndDescendants.getContentChildrenByType({
+        id: pageId,
+        type: 'page',
+        expand,
+        start,
+        limit: PAGE_SIZE,
+      }) as Promise<{ results?: T[] }>
+  );
+}
+
+/**
+ * Fetch the top-level pages of a space
+ */
+export async function fetchRootPages<T = TreePage>(
+  client: ConfluenceClient,
+  spaceKey: string,
+  expand: string[] = []
+): Promise<T[]> {
+  return fetchAll(
+    start =>
+      client.space.getContentByTypeForSpace({
+        spaceKey,
+        type: 'page',
+        depth: 'root',
+        expand,
+        start,
+        limit: PAGE_SIZE,
+      }) as Promise<{ results?: T[] }>
+  );
+}
+
+/**
+ * List the descendants of a page in tree order, parents before their children
+ * @param client - Confluence client
+ * @param pageId - Page whose descendants are listed
+ * @param depth - Levels to descend (default: all)
+ */
+export async function fetchDescendants(
+  client: ConfluenceClient,
+  pageId: string,
+  depth = Infinity
+): Promise<DescendantPage[]> {
+  const visit = async (parentId: string, level: number): Promise<DescendantPage[]> => {
+    if (level > depth) {
+      return [];
+    }
+    const descendants: DescendantPage[] = [];
+    for (const child of await fetchChildren(client, parentId)) {
+      descendants.push({ id: child.id, title: child.title, parentId, depth: level });
+      descendants.push(...(await visit(child.id, level + 1)));
+    }
+    return descendants;
+  };
+  return visit(pageId, 1);
+}
+
+/**
+ * List the ancestors of a page, from the top of the space down to its parent
+ */
+export async function fetchAncestors(client: ConfluenceClient, pageId: string): Promise<TreePage[]> {
+  const page = (await client.content.getContentById({ id: pageId, expand: ['ancestors'] })) as {
+    ancestors?: TreePage[];
+  };
+  return (page.ancestors ?? []).map(ancestor => ({ id: ancestor.id, title: ancestor.title }));
+}
+
+/**
+ * Fetch the page tree of a space, or the subtree of a page
+ * @param client - Confluence client
+ * @param root - Space whose top-level pages are the roots, or the page at the root
+ * @param depth - Levels below the roots to include (default: all)
+ * @returns The root pages with their descendants
+ */
+export async function fetchTree(
+  client: ConfluenceClient,
+  root: { spaceKey?: string; pageId?: string },
+  depth = Infinity
+): Promise<TreeNode[]> {
+  const build = async (page: TreePage, level: number): Promise<TreeNode> => {
+    const children: TreeNode[] = [];
+    if (level < depth) {
+      for (const child of await fetchChildren(client, page.id)) {
+        children.push(await build(child, level + 1));
+      }
+    }
+    return { id: page.id, title: page.title, children };
+  };
+
+  let roots: TreePage[];
+  if (root.pageId) {
+    roots = [(await client.content.getContentById({ id: root.pageId })) as TreePage];
+  } else if (root.spaceKey) {
+    roots = await fetchRootPages(client, root.spaceKey);
+  } else {
+    throw new Error('Either spaceKey or pageId is required');
+  }
+
+  const tree: TreeNode[] = [];
+  for (const page of roots) {
+    tree.push(await build(page, 0));
+  }
+  return tree;
+}
+
+/**
+ * Render page trees as indented ASCII lines
+ */
+export function renderTree(nodes: TreeNode[]): string {
+  const lines: string[] = [];
+  const visit = (node: TreeNode, prefix: string, childPrefix: string): void => {
+    lines.push(`${prefix}${node.title} (${node.id})`);
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      visit(child, `${childPrefix}${last ? '└── ' : '├── '}`, `${childPrefix}${last ? '    ' : '│   '}`);
+    });
+  };
+  nodes.forEach(node => visit(node, '', ''));
+  return lines.join('\n');
+}
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { PROFILE_NAME_PATTERN } from './config-loader.js';
+
+/**
+ * Project-local settings from a `.connicli.yaml` committed alongside the docs
+ *
+ * The file is found by walking up from the working directory, like `.gitignore` or
+ * `.editorconfig`. It holds per-project defaults only; credentials stay in ~/.connicli.
+ *
+ * ```yaml
+ * spaceKey: DOCS
+ * parentId: "123456"
+ * format: toon
+ * profile: work
+ * ```
+ */
+
+/** File name searched for in the working directory and its parents */
+export const PROJECT_CONFIG_FILE = '.connicli.yaml';
+
+/** Keys that would put secrets under version control */
+const CREDENTIAL_KEYS = ['api_token', 'apiToken', 'token_command', 'tokenCommand'];
+
+/**
+ * Settings read from a project config file
+ */
+export interface ProjectConfig {
+  /** Absolute path of the file the settings were read from */
+  path: string;
+  /** Default space for commands that create content */
+  spaceKey?: string;
+  /** Default parent page for new pages */
+  parentId?: string;
+  format?: 'json' | 'toon';
+  /** Profile from ~/.connicli to use in this project */
+  profile?: string;
+}
+
+/**
+ * Find the nearest project config file
+ * @param startDir - Directory to start searching from
+ * @returns The file path, or undefined if no directory up to the root has one
+ */
+export function findProjectConfig(startDir: string = process.cwd()): string | undefined {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the nearest project config file
+ * Unknown keys are reported as warnings; invalid values are errors.
+ * @param startDir - Directory to start searching from
+ * @param collectWarnings - Array to collect warnings into; warnings are logged when omitted
+ * @returns The project settings, or undefined if there is no project config
+ * @throws Error if the file cannot be read, is not valid YAML, has invalid values or contains credentials
+ */
+export function loadProjectConfig(startDir?: string, collectWarnings?: string[]): ProjectConfig | undefined {
+  const filePath = findProjectConfig(startDir);
+  if (!filePath) {
+    return undefined;
+  }
+
+  let document: unknown;
+  try {
+    document = parseYaml(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read ${filePath}: ${errorMessage}`);
+  }
+
+  const project: ProjectConfig = { path: filePath };
+  if (document === null || document === undefined) {
+    return project;
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(`Invalid ${filePath}: expected a mapping of settings`);
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = collectWarnings ?? [];
+
+  for (const [key, value] of Object.entries(document)) {
+    // IDs are often written unquoted, which YAML reads as numbers
+    const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : undefined;
+
+    if (CREDENTIAL_KEYS.includes(key)) {
+      errors.push(`${key} must not be stored in a project config; keep credentials in ~/.connicli`);
+    } else if (key === 'spaceKey' || key === 'parentId') {
+      if (text) {
+        project[key] = text;
+      } else {
+        errors.push(`${key} must be a non-empty string`);
+      }
+    } else if (key === 'format') {
+      if (text === 'json' || text === 'toon') {
+        project.format = text;
+      } else {
+        errors.push(`format must be 'json' or 'toon'`);
+      }
+    } else if (key === 'profile') {
+      if (text && PROFILE_NAME_PATTERN.test(text)) {
+        project.profile = text;
+      } else {
+        errors.push(`profile must be a profile name from ~/.connicli`);
+      }
+    } else {
+      warnings.push(`Unknown key: ${key}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${filePath}: ${errors.join('; ')}`);
+  }
+  if (!collectWarnings && warnings.length > 0) {
+    console.warn(`Project configuration warnings (${filePath}):`);
+    warnings.forEach(w => console.warn(` - ${w}`));
+  }
+
+  return project;
+}
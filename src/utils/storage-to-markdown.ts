@@ -0,0 +1,505 @@
+import { isCDATA, isTag, isText } from 'domhandler';
+import type { ChildNode, Element } from 'domhandler';
+import { parseDocument } from 'htmlparser2';
+
+/**
+ * Conversion of Confluence storage format to Markdown or plain text
+ *
+ * Common macros are rendered with a Markdown equivalent: code blocks become fences, info/tip/note/warning
+ * panels become GitHub admonitions, expand becomes <details>, status becomes a bold label and Jira issues
+ * their key. Macros without an equivalent keep their body, or leave an HTML comment naming the macro.
+ */
+
+/**
+ * Result of converting a page body
+ */
+export interface ConvertedBody {
+  content: string;
+  /** Link targets in order of first appearance: URLs, `page: <title>`, `attachment: <file>` or `jira: <key>` */
+  links: string[];
+}
+
+/**
+ * Resolvers rendering references to pages and attachments as relative links
+ */
+export interface ConvertOptions {
+  /** Path of an attachment of the page, by file name */
+  attachmentPath?: (filename: string) => string;
+  /** Path of another page, or undefined to render the reference by name */
+  pagePath?: (title: string, spaceKey?: string) => string | undefined;
+}
+
+/**
+ * GitHub admonition type for each Confluence panel macro
+ */
+const PANEL_ADMONITIONS: Record<string, string> = {
+  info: 'NOTE',
+  tip: 'TIP',
+  note: 'IMPORTANT',
+  warning: 'WARNING',
+};
+
+/** Macros rendered inline within a paragraph */
+const INLINE_MACROS = ['status', 'jira', 'anchor'];
+
+/** Elements that start a new block */
+const BLOCK_TAGS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'table',
+  'pre',
+  'blockquote',
+  'hr',
+  'div',
+  'section',
+  'ac:task-list',
+  'ac:layout',
+  'ac:layout-section',
+  'ac:layout-cell',
+]);
+
+/**
+ * Walks a parsed storage document, rendering Markdown or plain text
+ */
+class StorageRenderer {
+  readonly links: string[] = [];
+
+  constructor(
+    private readonly plain: boolean,
+    private readonly options: ConvertOptions = {}
+  ) {}
+
+  /**
+   * Render a sequence of nodes as blocks separated by blank lines
+   * Runs of inline content between blocks become paragraphs. Within a list item, nested lists
+   * follow the item text directly so the list stays tight.
+   */
+  blocks(nodes: ChildNode[], listItem = false): string {
+    let output = '';
+    let run: ChildNode[] = [];
+    const append = (text: string, tight: boolean): void => {
+      if (text) {
+        output += output ? `${tight ? '\n' : '\n\n'}${text}` : text;
+      }
+    };
+    const flush = (): void => {
+      append(this.inline(run).trim(), false);
+      run = [];
+    };
+
+    for (const node of nodes) {
+      if (this.isBlock(node)) {
+        flush();
+        const element = node as Element;
+        append(this.block(element).trim(), listItem && ['ul', 'ol', 'ac:task-list'].includes(element.name));
+      } else {
+        run.push(node);
+      }
+    }
+    flush();
+
+    return output;
+  }
+
+  /**
+   * Render a sequence of nodes as inline text
+   */
+  inline(nodes: ChildNode[]): string {
+    return nodes
+      .map(node => this.inlineNode(node))
+      .join('')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n /g, '\n');
+  }
+
+  private isBlock(node: ChildNode): boolean {
+    if (!isTag(node)) {
+      return false;
+    }
+    if (node.name === 'ac:structured-macro') {
+      return !INLINE_MACROS.includes(node.attribs['ac:name']);
+    }
+    return BLOCK_TAGS.has(node.name);
+  }
+
+  private block(element: Element): string {
+    const { name } = element;
+
+    if (/^h[1-6]$/.test(name)) {
+      const text = this.inline(element.children).trim();
+      return this.plain ? text : `${'#'.repeat(Number(name[1]))} ${text}`;
+    }
+
+    switch (name) {
+      case 'p':
+        return this.inline(element.children).trim();
+      case 'ul':
+      case 'ol':
+        return this.list(element);
+      case 'ac:task-list':
+        return this.taskList(element);
+      case 'table':
+        return this.table(element);
+      case 'pre':
+        return this.codeBlock(textOf(element));
+      case 'blockquote':
+        return this.quote(this.blocks(element.children));
+      case 'hr':
+        return this.plain ? '' : '---';
+      case 'ac:structured-macro':
+        return this.blockMacro(element);
+      default:
+        return this.blocks(element.children);
+    }
+  }
+
+  private inlineNode(node: ChildNode): string {
+    if (isText(node)) {
+      const text = node.data.replace(/\s+/g, ' ');
+      return this.plain ? text : escapeMarkdown(text);
+    }
+    if (isCDATA(node)) {
+      return node.children.map(child => (isText(child) ? child.data : '')).join('');
+    }
+    if (!isTag(node)) {
+      return '';
+    }
+
+    const content = (): string => this.inline(node.children);
+
+    switch (node.name) {
+      case 'strong':
+      case 'b':
+        return this.wrap('**', content());
+      case 'em':
+      case 'i':
+        return this.wrap('*', content());
+      case 's':
+      case 'del':
+      case 'strike':
+        return this.wrap('~~', content());
+      case 'code':
+        return this.plain ? textOf(node) : codeSpan(textOf(node));
+      case 'br':
+        return this.plain ? '\n' : '\\\n';
+      case 'a':
+        return this.link(content(), node.attribs.href);
+      case 'img':
+        return this.image(node.attribs.alt ?? '', node.attribs.src ?? '');
+      case 'ac:image':
+        return this.acImage(node);
+      case 'ac:link':
+        return this.acLink(node);
+      case 'ac:emoticon':
+        return node.attribs['ac:emoji-fallback'] ?? '';
+      case 'time':
+        return node.attribs.datetime ?? content();
+      case 'ac:placeholder':
+        return '';
+      case 'ac:structured-macro':
+        return this.inlineMacro(node);
+      default:
+        return content();
+    }
+  }
+
+  /**
+   * Wrap text in emphasis markers, keeping surrounding whitespace outside them
+   */
+  private wrap(marker: string, text: string): string {
+    const inner = text.trim();
+    if (this.plain || !inner) {
+      return text;
+    }
+    const start = text.length - text.trimStart().length;
+    return `${text.slice(0, start)}${marker}${inner}${marker}${text.slice(start + inner.length)}`;
+  }
+
+  private addLink(target: string): void {
+    if (target && !this.links.includes(target)) {
+      this.links.push(target);
+    }
+  }
+
+  private link(text: string, href: string | undefined): string {
+    if (!href) {
+      return text;
+    }
+    this.addLink(href);
+    if (this.plain) {
+      return text && text !== href ? `${text} (${href})` : href;
+    }
+    return `[${text || href}](${href})`;
+  }
+
+  private image(alt: string, source: string): string {
+    return this.plain ? `[image: ${alt || source}]` : `![${alt}](${encodeURI(source)})`;
+  }
+
+  private acImage(element: Element): string {
+    const alt = element.attribs['ac:alt'] ?? '';
+    const resource = element.children.find(isTag);
+    if (resource?.name === 'ri:url') {
+      return this.image(alt, resource.attribs['ri:value'] ?? '');
+    }
+    const filename = resource?.attribs['ri:filename'] ?? '';
+    return this.image(alt, this.options.attachmentPath?.(filename) ?? filename);
+  }
+
+  /**
+   * Render a link to another page, an attachment or a user
+   * Page and attachment links have no URL in storage format, so they are shown by name and listed as links,
+   * unless the conversion options resolve them to a path.
+   */
+  private acLink(element: Element): string {
+    const resource = element.children.find(child => isTag(child) && child.name.startsWith('ri:')) as
+      | Element
+      | undefined;
+    const body = element.children.find(
+      child => isTag(child) && (child.name === 'ac:link-body' || child.name === 'ac:plain-text-link-body')
+    ) as Element | undefined;
+    const label = body ? this.inline(body.children).trim() : '';
+
+    switch (resource?.name) {
+      case 'ri:page': {
+        const title = resource.attribs['ri:content-title'] ?? '';
+        this.addLink(`page: ${title}`);
+        const target = this.plain ? undefined : this.options.pagePath?.(title, resource.attribs['ri:space-key']);
+        return target ? `[${label || escapeMarkdown(title)}](${encodeURI(target)})` : label || title;
+      }
+      case 'ri:attachment': {
+        const filename = resource.attribs['ri:filename'] ?? '';
+        this.addLink(`attachment: ${filename}`);
+        const target = this.plain ? undefined : this.options.attachmentPath?.(filename);
+        return target ? `[${label || escapeMarkdown(filename)}](${encodeURI(target)})` : label || filename;
+      }
+      case 'ri:user':
+        return label || `@${resource.attribs['ri:username'] ?? resource.attribs['ri:account-id'] ?? 'user'}`;
+      case 'ri:url':
+        return this.link(label, resource.attribs['ri:value']);
+      default:
+        return label;
+    }
+  }
+
+  private list(element: Element): string {
+    const ordered = element.name === 'ol';
+    const start = Number(element.attribs.start ?? 1) || 1;
+    const items = element.children.filter(child => isTag(child) && child.name === 'li') as Element[];
+
+    return items
+      .map((item, index) => indentItem(ordered ? `${start + index}.` : '-', this.blocks(item.children, true)))
+      .join('\n');
+  }
+
+  private taskList(element: Element): string {
+    const tasks = element.children.filter(child => isTag(child) && child.name === 'ac:task') as Element[];
+
+    return tasks
+      .map(task => {
+        const status = findChild(task, 'ac:task-status');
+        const body = findChild(task, 'ac:task-body');
+        const checked = status && textOf(status).trim() === 'complete';
+        return indentItem(checked ? '- [x]' : '- [ ]', body ? this.blocks(body.children, true) : '');
+      })
+      .join('\n');
+  }
+
+  private table(element: Element): string {
+    const rows = findAll(element, 'tr').map(row =>
+      row.children
+        .filter(cell => isTag(cell) && (cell.name === 'th' || cell.name === 'td'))
+        .map(cell => this.blocks((cell as Element).children))
+    );
+    if (rows.length === 0) {
+      return '';
+    }
+
+    if (this.plain) {
+      return rows.map(cells => cells.map(cell => cell.replace(/\s*\n+\s*/g, ' ')).join('\t')).join('\n');
+    }
+
+    const columns = Math.max(...rows.map(cells => cells.length));
+    const line = (cells: string[]): string => {
+      const padded = [...cells, ...Array<string>(columns - cells.length).fill('')];
+      return `| ${padded.map(cell => cell.replace(/\|/g, '\\|').replace(/\s*\n+\s*/g, '<br>')).join(' | ')} |`;
+    };
+    return [line(rows[0]), `|${' --- |'.repeat(columns)}`, ...rows.slice(1).map(line)].join('\n');
+  }
+
+  private codeBlock(code: string, language = ''): string {
+    const text = code.replace(/\n$/, '');
+    if (this.plain) {
+      return text;
+    }
+    const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence}${language}\n${text}\n${fence}`;
+  }
+
+  private quote(text: string): string {
+    if (this.plain) {
+      return text;
+    }
+    return text
+      .split('\n')
+      .map(line => (line ? `> ${line}` : '>'))
+      .join('\n');
+  }
+
+  private blockMacro(element: Element): string {
+    const name = element.attribs['ac:name'];
+    const title = macroParameter(element, 'title');
+    const richBody = findChild(element, 'ac:rich-text-body');
+    const body = richBody ? this.blocks(richBody.children) : '';
+
+    switch (name) {
+      case 'code':
+      case 'noformat': {
+        const plainBody = findChild(element, 'ac:plain-text-body');
+        return this.codeBlock(plainBody ? textOf(plainBody) : '', macroParameter(element, 'language') ?? '');
+      }
+      case 'info':
+      case 'tip':
+      case 'note':
+      case 'warning': {
+        if (this.plain) {
+          const label = `${name[0].toUpperCase()}${name.slice(1)}`;
+          return [`${label}:${title ? ` ${title}` : ''}`, body].filter(Boolean).join('\n');
+        }
+        const header = `[!${PANEL_ADMONITIONS[name]}]${title ? ` ${title}` : ''}`;
+        return this.quote([header, body].filter(Boolean).join('\n'));
+      }
+      case 'panel':
+        return this.plain || !title ? this.quote(body) : this.quote(`**${title}**\n\n${body}`);
+      case 'expand': {
+        const summary = title ?? 'Click here to expand...';
+        return this.plain ? `${summary}\n${body}` : `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`;
+      }
+      case 'toc':
+        return this.plain ? '' : '[TOC]';
+      default:
+        if (body) {
+          return body;
+        }
+        return this.plain ? '' : `<!-- ${name} macro -->`;
+    }
+  }
+
+  private inlineMacro(element: Element): string {
+    const name = element.attribs['ac:name'];
+
+    switch (name) {
+      case 'status': {
+        const title = macroParameter(element, 'title') ?? macroParameter(element, 'colour') ?? '';
+        return this.plain ? `[${title}]` : `**[${title.toUpperCase()}]**`;
+      }
+      case 'jira': {
+        const key = macroParameter(element, 'key');
+        if (key) {
+          this.addLink(`jira: ${key}`);
+          return key;
+        }
+        const jql = macroParameter(element, 'jqlQuery');
+        return jql ? `Jira issues: ${jql}` : '';
+      }
+      default:
+        return '';
+    }
+  }
+}
+
+/**
+ * Concatenated text of a node and its descendants, including CDATA sections
+ */
+function textOf(node: ChildNode): string {
+  if (isText(node)) {
+    return node.data;
+  }
+  if (isTag(node) || isCDATA(node)) {
+    return node.children.map(textOf).join('');
+  }
+  return '';
+}
+
+function findChild(element: Element, name: string): Element | undefined {
+  return element.children.find(child => isTag(child) && child.name === name) as Element | undefined;
+}
+
+/**
+ * Find descendant elements by name, not descending into matches
+ */
+function findAll(element: Element, name: string): Element[] {
+  return element.children.flatMap(child => {
+    if (!isTag(child)) {
+      return [];
+    }
+    return child.name === name ? [child] : findAll(child, name);
+  });
+}
+
+function macroParameter(element: Element, name: string): string | undefined {
+  const parameter = element.children.find(
+    child => isTag(child) && child.name === 'ac:parameter' && child.attribs['ac:name'] === name
+  );
+  return parameter ? textOf(parameter).trim() : undefined;
+}
+
+/**
+ * Prefix a list item with its marker, indenting continuation lines to align with the content
+ */
+function indentItem(marker: string, content: string): string {
+  const indent = ' '.repeat(marker.length + 1);
+  const [first, ...rest] = content.split('\n');
+  return [`${marker} ${first}`.trimEnd(), ...rest.map(line => (line ? indent + line : line))].join('\n');
+}
+
+/**
+ * Escape characters that Markdown would otherwise interpret in running text
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*[\]]|<(?=[a-z/!?])/gi, '\\$&')
+    .replace(/(^|\W)_|_(?=\W|$)/g, match => match.replace('_', '\\_'));
+}
+
+/**
+ * Render inline code, choosing a delimiter longer than any backtick run in the text
+ */
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const delimiter = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${delimiter}${padding}${text}${padding}${delimiter}`;
+}
+
+function convert(storage: string, plain: boolean, options?: ConvertOptions): ConvertedBody {
+  const document = parseDocument(storage, { recognizeCDATA: true, recognizeSelfClosing: true });
+  const renderer = new StorageRenderer(plain, options);
+  const content = renderer.blocks(document.children);
+  return { content, links: renderer.links };
+}
+
+/**
+ * Convert storage-format XHTML to GitHub-flavored Markdown
+ * @param storage - Page body in storage format
+ * @param options - Resolvers for linking pages and attachments by path
+ */
+export function storageToMarkdown(storage: string, options?: ConvertOptions): ConvertedBody {
+  return convert(storage, false, options);
+}
+
+/**
+ * Convert storage-format XHTML to plain text
+ * @param storage - Page body in storage format
+ */
+export function storageToText(storage: string): ConvertedBody {
+  return convert(storage, true);
+}
@@ -16,6 +16,8 @@ vi.mock('../../src/utils/confluence-client.js', () => ({
   getUser: vi.fn(),
   testConnection: vi.fn(),
   clearClients: vi.fn(),
+  getActiveProfile: vi.fn(),
+  setActiveProfile: vi.fn(),
 }));
 
 // Mock helper functions - only where we need to spy on them
@@ -38,6 +40,11 @@ vi.mock('../../src/utils/config-loader.js', async () => {
   };
 });
 
+// No project config (.connicli.yaml) in the working directory
+vi.mock('../../src/utils/project-config.js', () => ({
+  loadProjectConfig: vi.fn(),
+}));
+
 // Integration tests that test the entire flow through multiple modules
 
 describe('CLI Integration', () => {
@@ -262,16 +269,16 @@ email=test@test.com
 
     it('should display detailed help for each command', async () => {
       const { printCommandDetail } = await import('../../src/commands/helpers.js');
-      const { COMMANDS, COMMANDS_INFO } = await import('../../src/config/constants.js');
+      const { COMMAND_DEFINITIONS } = await import('../../src/config/constants.js');
 
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      COMMANDS.forEach((command, index) => {
+      COMMAND_DEFINITIONS.forEach(definition => {
         consoleLogSpy.mockClear();
-        printCommandDetail(command);
+        printCommandDetail(definition.name);
 
-        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining(command));
-        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining(COMMANDS_INFO[index]));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining(definition.name));
+        expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining(definition.description));
       });
 
       consoleLogSpy.mockRestore();
@@ -388,7 +395,7 @@ api_token=token
       });
 
       try {
-        await runCommand('list-spaces', null, null);
+        await runCommand('list-spaces');
       } catch {
         // Expected
       }
@@ -425,20 +432,18 @@ api_token=token
       });
 
       try {
-        await runCommand(
-          'create-page',
+        await runCommand('create-page', [
           JSON.stringify({
             spaceKey: 'DOCS',
             title: 'New Page',
             body: '<p>Page content</p>',
           }),
-          null
-        );
+        ]);
       } catch {
         // Expected
       }
 
-      expect(createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Page content</p>', undefined, 'json');
+      expect(createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Page content</p>', undefined, 'json', undefined);
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('12345'));
 
       exitSpy.mockRestore();
@@ -473,7 +478,7 @@ api_token=token
       });
 
       try {
-        await runCommand('get-user', '{"accountId":"5b10a2844c20165700ede21g"}', null);
+        await runCommand('get-user', ['{"accountId":"5b10a2844c20165700ede21g"}']);
       } catch {
         // Expected
       }
@@ -505,7 +510,7 @@ api_token=token
       });
 
       try {
-        await runCommand('test-connection', null, null);
+        await runCommand('test-connection');
       } catch {
         // Expected
       }
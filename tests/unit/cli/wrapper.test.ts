@@ -18,27 +18,15 @@ vi.mock('readline', () => ({
 }));
 
 // Mock the commands module
-vi.mock('../../../src/commands/index.js', () => ({
-  getCurrentVersion: vi.fn().mockReturnValue('0.0.0'),
-  printAvailableCommands: vi.fn(),
-  printCommandDetail: vi.fn(),
-}));
-
-// Mock the config module
-vi.mock('../../../src/config/index.js', () => ({
-  COMMANDS: [
-    'list-spaces',
-    'get-space',
-    'list-pages',
-    'get-page',
-    'create-page',
-    'update-page',
-    'add-comment',
-    'delete-page',
-    'get-user',
-    'test-connection',
-  ],
-}));
+vi.mock('../../../src/commands/index.js', async () => {
+  const actual = await vi.importActual('../../../src/commands/index.js');
+  return {
+    ...actual,
+    getCurrentVersion: vi.fn().mockReturnValue('0.0.0'),
+    printAvailableCommands: vi.fn(),
+    printCommandDetail: vi.fn(),
+  };
+});
 
 // Mock the utils module
 vi.mock('../../../src/utils/index.js', () => ({
@@ -46,15 +34,45 @@ vi.mock('../../../src/utils/index.js', () => ({
   clearClients: vi.fn(),
   createPage: vi.fn(),
   deletePage: vi.fn(),
+  listLabels: vi.fn(),
+  addLabels: vi.fn(),
+  removeLabels: vi.fn(),
+  listAttachments: vi.fn(),
+  uploadAttachments: vi.fn(),
+  deleteAttachment: vi.fn(),
   downloadAttachment: vi.fn(),
+  pull: vi.fn(),
+  push: vi.fn(),
+  syncStatus: vi.fn(),
+  syncDiff: vi.fn(),
+  getActiveProfile: vi.fn(),
   getPage: vi.fn(),
+  getChildren: vi.fn(),
+  getDescendants: vi.fn(),
+  getAncestors: vi.fn(),
+  tree: vi.fn(),
+  movePage: vi.fn(),
+  copyPage: vi.fn(),
+  reorderChildren: vi.fn(),
+  listVersions: vi.fn(),
+  diffPage: vi.fn(),
+  restoreVersion: vi.fn(),
   getSpace: vi.fn(),
   getUser: vi.fn(),
   listPages: vi.fn(),
+  search: vi.fn(),
+  listProfiles: vi.fn(),
   listSpaces: vi.fn(),
   loadConfig: vi.fn(),
+  loadProjectConfig: vi.fn(),
+  setActiveProfile: vi.fn(),
   testConnection: vi.fn(),
   updatePage: vi.fn(),
+  editPage: vi.fn(),
+  replace: vi.fn(),
+  listBlogPosts: vi.fn(),
+  createBlogPost: vi.fn(),
+  updateBlogPost: vi.fn(),
 }));
 
 describe('cli/wrapper', () => {
@@ -272,6 +290,60 @@ describe('cli/wrapper', () => {
         consoleErrorSpy.mockRestore();
       });
 
+      it('should switch to another profile', async () => {
+        const { loadConfig, setActiveProfile } = await import('../../../src/utils/index.js');
+        vi.mocked(loadConfig).mockReturnValue({
+          profile: 'staging',
+          host: 'https://staging.atlassian.net',
+          email: 'test@test.com',
+          apiToken: 'token',
+          defaultFormat: 'toon',
+        });
+        const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await cli['handleCommand']('profile staging');
+
+        expect(loadConfig).toHaveBeenCalledWith('staging');
+        expect(setActiveProfile).toHaveBeenCalledWith('staging', expect.objectContaining({ profile: 'staging' }));
+        expect(consoleLogSpy).toHaveBeenCalledWith('Switched to profile: staging (https://staging.atlassian.net)');
+        // @ts-expect-error - accessing private property for testing
+        expect(cli.currentFormat).toBe('toon');
+        expect(mockRlInterface.prompt).toHaveBeenCalled();
+
+        consoleLogSpy.mockRestore();
+      });
+
+      it('should keep the current profile if the new one cannot be loaded', async () => {
+        const { loadConfig, setActiveProfile } = await import('../../../src/utils/index.js');
+        vi.mocked(loadConfig).mockImplementation(() => {
+          throw new Error('Unknown profile: missing. Available profiles: default');
+        });
+        vi.mocked(setActiveProfile).mockClear();
+        const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        await cli['handleCommand']('profile missing');
+
+        expect(setActiveProfile).not.toHaveBeenCalled();
+        expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: Unknown profile: missing. Available profiles: default');
+
+        consoleErrorSpy.mockRestore();
+      });
+
+      it('should list profiles and mark the current one', async () => {
+        const { listProfiles } = await import('../../../src/utils/index.js');
+        vi.mocked(listProfiles).mockReturnValue(['default', 'staging']);
+        // @ts-expect-error - accessing private property for testing
+        cli.config = { ...cli.config, profile: 'staging' };
+        const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await cli['handleCommand']('profile');
+
+        expect(consoleLogSpy).toHaveBeenCalledWith('  default');
+        expect(consoleLogSpy).toHaveBeenCalledWith('* staging');
+
+        consoleLogSpy.mockRestore();
+      });
+
       it('should show command detail with -h flag', async () => {
         const { printCommandDetail } = await import('../../../src/commands/index.js');
 
@@ -349,7 +421,7 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('get-space', '{}');
 
-        expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "spaceKey" parameter is required');
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"spaceKey" is required'));
         expect(mockRlInterface.prompt).toHaveBeenCalled();
 
         consoleErrorSpy.mockRestore();
@@ -362,7 +434,7 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('list-pages', '{"spaceKey":"DOCS","title":"Test","limit":10}');
 
-        expect(listPages).toHaveBeenCalledWith('DOCS', 'Test', 10, undefined, 'json');
+        expect(listPages).toHaveBeenCalledWith('DOCS', 'Test', 10, 0, 'json', undefined);
 
         consoleLogSpy.mockRestore();
       });
@@ -374,7 +446,7 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('get-page', '{"pageId":"123"}');
 
-        expect(getPage).toHaveBeenCalledWith('123', 'json');
+        expect(getPage).toHaveBeenCalledWith('123', 'json', false, undefined);
 
         consoleLogSpy.mockRestore();
       });
@@ -384,7 +456,7 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('get-page', '{}');
 
-        expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "pageId" parameter is required');
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"pageId" is required'));
         expect(mockRlInterface.prompt).toHaveBeenCalled();
 
         consoleErrorSpy.mockRestore();
@@ -397,7 +469,7 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('create-page', '{"spaceKey":"DOCS","title":"New","body":"<p>Content</p>"}');
 
-        expect(createPage).toHaveBeenCalledWith('DOCS', 'New', '<p>Content</p>', undefined, 'json');
+        expect(createPage).toHaveBeenCalledWith('DOCS', 'New', '<p>Content</p>', undefined, 'json', undefined);
 
         consoleLogSpy.mockRestore();
       });
@@ -407,7 +479,57 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('create-page', '{"spaceKey":"DOCS"}');
 
-        expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "spaceKey", "title", and "body" parameters are required');
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"title" is required'));
+        expect(mockRlInterface.prompt).toHaveBeenCalled();
+
+        consoleErrorSpy.mockRestore();
+      });
+
+      it('should execute get-page with flag arguments', async () => {
+        const { getPage } = await import('../../../src/utils/index.js');
+        vi.mocked(getPage).mockResolvedValue({ success: true, result: '{"id":"123"}' });
+        const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await cli['runCommand']('get-page', '--page-id 123 --format toon');
+
+        expect(getPage).toHaveBeenCalledWith('123', 'toon', false, undefined);
+
+        consoleLogSpy.mockRestore();
+      });
+
+      it('should accept JSON followed by flags', async () => {
+        const { getPage } = await import('../../../src/utils/index.js');
+        vi.mocked(getPage).mockResolvedValue({ success: true, result: '{"id":"1"}' });
+        const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await cli['runCommand']('get-page', '{"pageId":"1"} --format toon');
+
+        expect(getPage).toHaveBeenCalledWith('1', 'toon', false, undefined);
+
+        consoleLogSpy.mockRestore();
+      });
+
+      it('should keep quoted flag values together', async () => {
+        const { listPages } = await import('../../../src/utils/index.js');
+        vi.mocked(listPages).mockResolvedValue({ success: true, result: '[]' });
+        const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await cli['runCommand']('list-pages', '--space-key DOCS --title "Getting Started"');
+
+        expect(listPages).toHaveBeenCalledWith('DOCS', 'Getting Started', 25, 0, 'json', undefined);
+
+        consoleLogSpy.mockRestore();
+      });
+
+      it('should show validation errors for invalid parameters', async () => {
+        const { getPage } = await import('../../../src/utils/index.js');
+        const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        await cli['runCommand']('get-page', '{"pageID":"123","format":"xml"}');
+
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('did you mean "pageId"?'));
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"format" must be one of: json, toon'));
+        expect(getPage).not.toHaveBeenCalled();
         expect(mockRlInterface.prompt).toHaveBeenCalled();
 
         consoleErrorSpy.mockRestore();
@@ -420,22 +542,33 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('update-page', '{"pageId":"123","title":"Updated","body":"<p>New</p>","version":1}');
 
-        expect(updatePage).toHaveBeenCalledWith('123', 'Updated', '<p>New</p>', 1);
+        expect(updatePage).toHaveBeenCalledWith('123', 'Updated', '<p>New</p>', 1, undefined, {
+          expectedVersion: undefined,
+          retries: 0,
+          versionMessage: undefined,
+          minorEdit: false,
+        });
 
         consoleLogSpy.mockRestore();
       });
 
-      it('should show error if update-page missing version', async () => {
-        const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      it('should execute update-page without a version', async () => {
+        const { updatePage } = await import('../../../src/utils/index.js');
+        vi.mocked(updatePage).mockResolvedValue({ success: true, result: 'Page 123 updated successfully!' });
+        const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
         await cli['runCommand']('update-page', '{"pageId":"123","title":"Updated","body":"<p>New</p>"}');
 
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-          'ERROR: "pageId", "title", "body", and "version" parameters are required'
+        expect(updatePage).toHaveBeenCalledWith(
+          '123',
+          'Updated',
+          '<p>New</p>',
+          undefined,
+          undefined,
+          expect.objectContaining({ retries: 0 })
         );
-        expect(mockRlInterface.prompt).toHaveBeenCalled();
 
-        consoleErrorSpy.mockRestore();
+        consoleLogSpy.mockRestore();
       });
 
       it('should execute add-comment', async () => {
@@ -455,7 +588,7 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('add-comment', '{"pageId":"123"}');
 
-        expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "pageId" and "body" parameters are required');
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"body" is required'));
         expect(mockRlInterface.prompt).toHaveBeenCalled();
 
         consoleErrorSpy.mockRestore();
@@ -478,7 +611,7 @@ describe('cli/wrapper', () => {
 
         await cli['runCommand']('delete-page', '{}');
 
-        expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "pageId" parameter is required');
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"pageId" is required'));
         expect(mockRlInterface.prompt).toHaveBeenCalled();
 
         consoleErrorSpy.mockRestore();
@@ -0,0 +1,340 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { parseCommandArgs, splitCommandLine, toFlagName } from '../../../src/commands/flag-parser.js';
+import { findCommand } from '../../../src/commands/helpers.js';
+import { ValidationError } from '../../../src/commands/validator.js';
+
+describe('commands/flag-parser', () => {
+  describe('toFlagName', () => {
+    it('should convert camelCase names to kebab-case', () => {
+      expect(toFlagName('pageId')).toBe('page-id');
+      expect(toFlagName('outputPath')).toBe('output-path');
+      expect(toFlagName('format')).toBe('format');
+    });
+  });
+
+  describe('splitCommandLine', () => {
+    it('should split on whitespace', () => {
+      expect(splitCommandLine('  --page-id   123 ')).toEqual(['--page-id', '123']);
+    });
+
+    it('should keep quoted strings together', () => {
+      expect(splitCommandLine(`--title "Getting Started" --body '<p>Hi there</p>'`)).toEqual([
+        '--title',
+        'Getting Started',
+        '--body',
+        '<p>Hi there</p>',
+      ]);
+    });
+
+    it('should honour backslash escapes', () => {
+      expect(splitCommandLine('--title Hello\\ World "say \\"hi\\""')).toEqual(['--title', 'Hello World', 'say "hi"']);
+    });
+
+    it('should keep empty quoted strings', () => {
+      expect(splitCommandLine(`--title ''`)).toEqual(['--title', '']);
+    });
+
+    it('should keep JSON objects verbatim next to flags', () => {
+      expect(splitCommandLine('{"pageId": "1", "title": "a } b", "q": "say \\"hi\\""} --format toon')).toEqual([
+        '{"pageId": "1", "title": "a } b", "q": "say \\"hi\\""}',
+        '--format',
+        'toon',
+      ]);
+    });
+  });
+
+  describe('parseCommandArgs', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conni-flags-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should parse a JSON argument', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(parseCommandArgs(definition, ['{"pageId":"123"}'])).toEqual({ pageId: '123', bodyOnly: false });
+    });
+
+    it('should map kebab-case flags to parameters', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(parseCommandArgs(definition, ['--page-id', '123456', '--format', 'toon'])).toEqual({
+        pageId: '123456',
+        bodyOnly: false,
+        format: 'toon',
+      });
+    });
+
+    it('should accept --flag=value and camelCase flag names', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(parseCommandArgs(definition, ['--pageId=123'])).toEqual({ pageId: '123', bodyOnly: false });
+    });
+
+    it('should coerce number flags using the schema', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(parseCommandArgs(definition, ['--limit', '10', '--start=5'])).toEqual({ limit: 10, start: 5 });
+    });
+
+    it('should report non-numeric values for number flags', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(() => parseCommandArgs(definition, ['--limit', 'abc'])).toThrow('"limit" must be a number');
+    });
+
+    it('should let flags override JSON keys', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(parseCommandArgs(definition, ['{"pageId":"1","format":"json"}', '--format', 'toon'])).toEqual({
+        pageId: '1',
+        bodyOnly: false,
+        format: 'toon',
+      });
+    });
+
+    it('should read @file values from disk', () => {
+      const definition = findCommand('create-page')!;
+      const bodyPath = path.join(tmpDir, 'page.html');
+      fs.writeFileSync(bodyPath, '<p>From file</p>');
+
+      const args = parseCommandArgs(definition, ['--space-key', 'DOCS', '--title', 'T', '--body', `@${bodyPath}`]);
+
+      expect(args.body).toBe('<p>From file</p>');
+    });
+
+    it('should report unreadable @file values', () => {
+      const definition = findCommand('create-page')!;
+
+      expect(() =>
+        parseCommandArgs(definition, ['--space-key', 'DOCS', '--title', 'T', '--body', `@${tmpDir}/missing.html`])
+      ).toThrow('cannot read file for "body"');
+    });
+
+    it('should read @file values in the JSON argument', () => {
+      const definition = findCommand('add-comment')!;
+      const bodyPath = path.join(tmpDir, 'comment.html');
+      fs.writeFileSync(bodyPath, '<p>Looks good</p>');
+
+      const args = parseCommandArgs(definition, [JSON.stringify({ pageId: '1', body: `@${bodyPath}` })]);
+
+      expect(args.body).toBe('<p>Looks good</p>');
+    });
+
+    it('should read bodyFile from JSON and --body-file from flags', () => {
+      const definition = findCommand('add-comment')!;
+      const bodyPath = path.join(tmpDir, 'comment.html');
+      fs.writeFileSync(bodyPath, '<p>From body file</p>');
+
+      expect(parseCommandArgs(definition, [JSON.stringify({ pageId: '1', bodyFile: bodyPath })])).toEqual({
+        pageId: '1',
+        body: '<p>From body file</p>',
+      });
+      expect(parseCommandArgs(definition, ['--page-id', '1', '--body-file', bodyPath])).toEqual({
+        pageId: '1',
+        body: '<p>From body file</p>',
+      });
+    });
+
+    it('should treat .md body files as Markdown unless bodyFormat is given', () => {
+      const definition = findCommand('create-page')!;
+      const bodyPath = path.join(tmpDir, 'page.md');
+      fs.writeFileSync(bodyPath, '# Title');
+
+      expect(
+        parseCommandArgs(definition, ['--space-key', 'DOCS', '--title', 'T', '--body-file', bodyPath])
+      ).toMatchObject({
+        body: '# Title',
+        bodyFormat: 'markdown',
+      });
+      expect(
+        parseCommandArgs(definition, [
+          '--space-key',
+          'DOCS',
+          '--title',
+          'T',
+          '--body',
+          `@${bodyPath}`,
+          '--body-format',
+          'storage',
+        ]).bodyFormat
+      ).toBe('storage');
+    });
+
+    it('should reject both body and bodyFile', () => {
+      const definition = findCommand('add-comment')!;
+
+      expect(() =>
+        parseCommandArgs(definition, ['--page-id', '1', '--body', '<p>x</p>', '--body-file', 'a.html'])
+      ).toThrow('use either "body" or "bodyFile", not both');
+    });
+
+    it('should treat @@ as an escaped literal @', () => {
+      const definition = findCommand('add-comment')!;
+
+      expect(parseCommandArgs(definition, ['--page-id', '1', '--body', '@@team please review']).body).toBe(
+        '@team please review'
+      );
+    });
+
+    it('should not read files for parameters that do not accept them', () => {
+      const definition = findCommand('create-page')!;
+
+      const args = parseCommandArgs(definition, ['--space-key', 'DOCS', '--title', '@standup', '--body', '<p>x</p>']);
+
+      expect(args.title).toBe('@standup');
+    });
+
+    it('should read the JSON argument from stdin when given -', () => {
+      const definition = findCommand('get-page')!;
+      const readSpy = vi.spyOn(fs, 'readFileSync').mockReturnValue('{"pageId":"42"}');
+
+      expect(parseCommandArgs(definition, ['-'])).toEqual({ pageId: '42', bodyOnly: false });
+      expect(readSpy).toHaveBeenCalledWith(0, 'utf-8');
+
+      readSpy.mockRestore();
+    });
+
+    it('should read a body from stdin with @-', () => {
+      const definition = findCommand('add-comment')!;
+      const readSpy = vi.spyOn(fs, 'readFileSync').mockReturnValue('<p>piped</p>');
+
+      expect(parseCommandArgs(definition, ['--page-id', '1', '--body', '@-']).body).toBe('<p>piped</p>');
+
+      readSpy.mockRestore();
+    });
+
+    it('should only read stdin once', () => {
+      const definition = findCommand('add-comment')!;
+      const readSpy = vi.spyOn(fs, 'readFileSync').mockReturnValue('{"pageId":"1"}');
+
+      expect(() => parseCommandArgs(definition, ['-', '--body', '@-'])).toThrow('stdin can only be read once');
+
+      readSpy.mockRestore();
+    });
+
+    it('should refuse stdin input when it is not allowed', () => {
+      const definition = findCommand('add-comment')!;
+
+      expect(() => parseCommandArgs(definition, ['-'], { allowStdin: false })).toThrow(
+        'cannot read arguments from stdin in interactive mode'
+      );
+      expect(() => parseCommandArgs(definition, ['--page-id', '1', '--body', '@-'], { allowStdin: false })).toThrow(
+        'cannot read "body" from stdin in interactive mode'
+      );
+    });
+
+    it('should fill omitted parameters from the project config', () => {
+      const definition = findCommand('create-page')!;
+      const project = { path: '/repo/.connicli.yaml', spaceKey: 'DOCS', parentId: '123' };
+
+      expect(parseCommandArgs(definition, ['--title', 'T', '--body', 'x'], { project })).toMatchObject({
+        spaceKey: 'DOCS',
+        parentId: '123',
+      });
+      expect(
+        parseCommandArgs(definition, ['--space-key', 'DOCS', '--title', 'T', '--body', 'x'], { project })
+      ).toMatchObject({ spaceKey: 'DOCS', parentId: '123' });
+    });
+
+    it('should not use the project parent page in another space', () => {
+      const definition = findCommand('create-page')!;
+      const project = { path: '/repo/.connicli.yaml', spaceKey: 'DOCS', parentId: '123' };
+
+      const args = parseCommandArgs(definition, ['--space-key', 'OTHER', '--title', 'T', '--body', 'x'], { project });
+
+      expect(args).toMatchObject({ spaceKey: 'OTHER' });
+      expect(args.parentId).toBeUndefined();
+    });
+
+    it('should only use project defaults for parameters that declare them', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(parseCommandArgs(definition, [], { project: { path: '/repo/.connicli.yaml', spaceKey: 'DOCS' } })).toEqual(
+        {
+          limit: 25,
+          start: 0,
+        }
+      );
+    });
+
+    it('should treat arguments after -- as positional', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(parseCommandArgs(definition, ['--format', 'toon', '--', '{"pageId":"7"}'])).toEqual({
+        pageId: '7',
+        bodyOnly: false,
+        format: 'toon',
+      });
+    });
+
+    it('should not interpret flag-like values after --', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(() => parseCommandArgs(definition, ['--', '--page-id'])).toThrow('arguments are not valid JSON');
+    });
+
+    it('should report unknown flags with a suggestion', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(() => parseCommandArgs(definition, ['--page', '123'])).toThrow(
+        'unknown option "--page" (did you mean "--page-id"?)'
+      );
+    });
+
+    it('should report unknown short options', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(() => parseCommandArgs(definition, ['-x'])).toThrow('unknown option "-x"');
+    });
+
+    it('should report flags missing a value', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(() => parseCommandArgs(definition, ['--page-id'])).toThrow('option "--page-id" requires a value');
+    });
+
+    it('should reject more than one positional argument', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(() => parseCommandArgs(definition, ['{"pageId":"1"}', 'extra'])).toThrow('unexpected argument "extra"');
+    });
+
+    it('should collect repeated flags and extra arguments for a repeatable parameter', () => {
+      const definition = findCommand('upload-attachment')!;
+
+      // `--files *.png` after the shell expands the glob
+      expect(
+        parseCommandArgs(definition, ['--page-id', '1', '--files', 'a.png', 'b.png', '--files', 'c,d.pdf'])
+      ).toEqual({ pageId: '1', files: ['a.png', 'c,d.pdf', 'b.png'], minorEdit: false });
+      expect(parseCommandArgs(definition, ['{"pageId":"1","files":["a.png","b.png"]}'])).toMatchObject({
+        files: ['a.png', 'b.png'],
+      });
+      expect(parseCommandArgs(definition, ['{"pageId":"1"}', 'a.png'])).toMatchObject({ files: ['a.png'] });
+      expect(() => parseCommandArgs(definition, ['{"pageId":"1","files":[1]}'])).toThrow(
+        '"files" must be a string or a list of non-empty strings'
+      );
+    });
+
+    it('should collect all flag problems into one ValidationError', () => {
+      const definition = findCommand('get-page')!;
+
+      try {
+        parseCommandArgs(definition, ['--bogus', '1', '-x', '--page-id']);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).issues).toHaveLength(3);
+      }
+    });
+  });
+});
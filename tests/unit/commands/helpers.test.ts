@@ -1,7 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { getCurrentVersion, printAvailableCommands, printCommandDetail } from '../../../src/commands/helpers.js';
-import { COMMANDS, COMMANDS_INFO } from '../../../src/config/constants.js';
+import {
+  findCommand,
+  getCurrentVersion,
+  printAvailableCommands,
+  printCommandDetail,
+} from '../../../src/commands/helpers.js';
+import { COMMANDS, COMMAND_DEFINITIONS } from '../../../src/config/constants.js';
 
 describe('commands/helpers', () => {
   beforeEach(() => {
@@ -41,7 +46,7 @@ describe('commands/helpers', () => {
         // Check command name is included
         expect(output).toContain(COMMANDS[index]);
         // Check description is included
-        expect(output).toContain(COMMANDS_INFO[index]);
+        expect(output).toContain(COMMAND_DEFINITIONS[index].description);
       });
 
       consoleLogSpy.mockRestore();
@@ -98,6 +103,21 @@ describe('commands/helpers', () => {
       consoleLogSpy.mockRestore();
     });
 
+    it('should print examples in both JSON and flag form', () => {
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      printCommandDetail('create-page');
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining(`create-page '{"spaceKey":"DOCS","title":"New Page","body":"<p>Hello World</p>"`)
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining(`create-page --space-key DOCS --title 'New Page' --body '<p>Hello World</p>'`)
+      );
+
+      consoleLogSpy.mockRestore();
+    });
+
     it('should handle all valid commands from constants', () => {
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
@@ -203,6 +223,19 @@ describe('commands/helpers', () => {
     });
   });
 
+  describe('findCommand', () => {
+    it('should return the definition for a known command', () => {
+      const definition = findCommand('get-page');
+
+      expect(definition?.name).toBe('get-page');
+      expect(definition?.params.map(param => param.name)).toContain('pageId');
+    });
+
+    it('should return undefined for an unknown command', () => {
+      expect(findCommand('unknown-command')).toBeUndefined();
+    });
+  });
+
   describe('getCurrentVersion', () => {
     it('should return version as string', () => {
       const version = getCurrentVersion();
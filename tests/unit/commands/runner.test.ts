@@ -7,16 +7,46 @@ vi.mock('../../../src/utils/index.js', () => ({
   listSpaces: vi.fn(),
   getSpace: vi.fn(),
   listPages: vi.fn(),
+  search: vi.fn(),
   getPage: vi.fn(),
+  getChildren: vi.fn(),
+  getDescendants: vi.fn(),
+  getAncestors: vi.fn(),
+  tree: vi.fn(),
+  movePage: vi.fn(),
+  copyPage: vi.fn(),
+  reorderChildren: vi.fn(),
+  listVersions: vi.fn(),
+  diffPage: vi.fn(),
+  restoreVersion: vi.fn(),
   createPage: vi.fn(),
   updatePage: vi.fn(),
+  editPage: vi.fn(),
+  replace: vi.fn(),
+  listBlogPosts: vi.fn(),
+  createBlogPost: vi.fn(),
+  updateBlogPost: vi.fn(),
   addComment: vi.fn(),
   deletePage: vi.fn(),
+  listLabels: vi.fn(),
+  addLabels: vi.fn(),
+  removeLabels: vi.fn(),
+  listAttachments: vi.fn(),
+  uploadAttachments: vi.fn(),
+  deleteAttachment: vi.fn(),
   downloadAttachment: vi.fn(),
+  pull: vi.fn(),
+  push: vi.fn(),
+  syncStatus: vi.fn(),
+  syncDiff: vi.fn(),
   getUser: vi.fn(),
   testConnection: vi.fn(),
   loadConfig: vi.fn(),
+  loadProjectConfig: vi.fn(),
   clearClients: vi.fn(),
+  getActiveProfile: vi.fn(),
+  setActiveProfile: vi.fn(),
+  setupConfig: vi.fn(),
 }));
 
 describe('commands/runner', () => {
@@ -26,22 +56,24 @@ describe('commands/runner', () => {
 
   describe('runCommand', () => {
     it('should execute list-spaces command', async () => {
-      const { listSpaces, loadConfig, clearClients } = await import('../../../src/utils/index.js');
-      loadConfig.mockReturnValue({
+      const { listSpaces, loadConfig, clearClients, setActiveProfile } = await import('../../../src/utils/index.js');
+      const config = {
         host: 'https://test.atlassian.net',
         email: 'test@test.com',
         apiToken: 'token',
         defaultFormat: 'json',
-      });
+      };
+      loadConfig.mockReturnValue(config);
       listSpaces.mockResolvedValue({ success: true, result: '{"spaces": []}' });
 
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('list-spaces', null, null);
+      await runCommand('list-spaces');
 
-      expect(loadConfig).toHaveBeenCalled();
+      expect(loadConfig).toHaveBeenCalledTimes(1);
+      expect(setActiveProfile).toHaveBeenCalledWith(undefined, config);
       expect(listSpaces).toHaveBeenCalledWith('json');
       expect(consoleLogSpy).toHaveBeenCalledWith('{"spaces": []}');
       expect(clearClients).toHaveBeenCalled();
@@ -65,7 +97,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('list-spaces', '{"format":"toon"}', null);
+      await runCommand('list-spaces', ['{"format":"toon"}']);
 
       expect(listSpaces).toHaveBeenCalledWith('toon');
       expect(consoleLogSpy).toHaveBeenCalledWith('{"spaces": []}');
@@ -89,7 +121,7 @@ describe('commands/runner', () => {
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('get-space', '{"spaceKey":"DOCS"}', null);
+      await runCommand('get-space', ['{"spaceKey":"DOCS"}']);
 
       expect(getSpace).toHaveBeenCalledWith('DOCS', 'json');
       expect(consoleLogSpy).toHaveBeenCalledWith('{"key":"DOCS","name":"Documentation"}');
@@ -112,10 +144,10 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('get-space', '{}', null);
+      await runCommand('get-space', ['{}']);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "spaceKey" parameter is required');
-      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"spaceKey" is required'));
+      expect(exitSpy).toHaveBeenCalledWith(2);
 
       exitSpy.mockRestore();
       consoleErrorSpy.mockRestore();
@@ -134,9 +166,9 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('list-pages', '{"spaceKey":"DOCS","title":"Test","limit":10,"start":5}', null);
+      await runCommand('list-pages', ['{"spaceKey":"DOCS","title":"Test","label":"runbook","limit":10,"start":5}']);
 
-      expect(listPages).toHaveBeenCalledWith('DOCS', 'Test', 10, 5, 'json');
+      expect(listPages).toHaveBeenCalledWith('DOCS', 'Test', 10, 5, 'json', 'runbook');
       expect(consoleLogSpy).toHaveBeenCalledWith('{"pages": []}');
       expect(exitSpy).toHaveBeenCalledWith(0);
 
@@ -157,9 +189,35 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('list-pages', null, null);
+      await runCommand('list-pages');
+
+      expect(listPages).toHaveBeenCalledWith(undefined, undefined, 25, 0, 'json', undefined);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute search with filters and all', async () => {
+      const { search, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      search.mockResolvedValue({ success: true, result: '{"results": []}' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('search', ['--label', 'runbook', '--type', 'page', '--all']);
 
-      expect(listPages).toHaveBeenCalledWith(undefined, undefined, undefined, undefined, 'json');
+      expect(search).toHaveBeenCalledWith(
+        expect.objectContaining({ label: 'runbook', type: 'page', cql: undefined }),
+        { limit: 25, cursor: undefined, all: true },
+        'json'
+      );
       expect(exitSpy).toHaveBeenCalledWith(0);
 
       exitSpy.mockRestore();
@@ -179,9 +237,9 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('get-page', '{"pageId":"123"}', null);
+      await runCommand('get-page', ['{"pageId":"123"}']);
 
-      expect(getPage).toHaveBeenCalledWith('123', 'json');
+      expect(getPage).toHaveBeenCalledWith('123', 'json', false, undefined);
       expect(consoleLogSpy).toHaveBeenCalledWith('{"id":"123","title":"Test Page"}');
       expect(exitSpy).toHaveBeenCalledWith(0);
 
@@ -201,10 +259,10 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('get-page', '{}', null);
+      await runCommand('get-page', ['{}']);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "pageId" parameter is required');
-      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"pageId" is required'));
+      expect(exitSpy).toHaveBeenCalledWith(2);
 
       exitSpy.mockRestore();
       consoleErrorSpy.mockRestore();
@@ -223,9 +281,9 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('create-page', '{"spaceKey":"DOCS","title":"New Page","body":"<p>Content</p>"}', null);
+      await runCommand('create-page', ['{"spaceKey":"DOCS","title":"New Page","body":"<p>Content</p>"}']);
 
-      expect(createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Content</p>', undefined, 'json');
+      expect(createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Content</p>', undefined, 'json', undefined);
       expect(consoleLogSpy).toHaveBeenCalledWith('{"id":"456","title":"New Page"}');
       expect(exitSpy).toHaveBeenCalledWith(0);
 
@@ -245,13 +303,32 @@ describe('commands/runner', () => {
 
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
 
-      await runCommand(
-        'create-page',
+      await runCommand('create-page', [
         '{"spaceKey":"DOCS","title":"Child Page","body":"<p>Child</p>","parentId":"123"}',
-        null
-      );
+      ]);
+
+      expect(createPage).toHaveBeenCalledWith('DOCS', 'Child Page', '<p>Child</p>', '123', 'json', undefined);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should fill in create-page defaults from the project config', async () => {
+      const { createPage, loadConfig, loadProjectConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      loadProjectConfig.mockReturnValueOnce({ path: '/repo/.connicli.yaml', spaceKey: 'DOCS', parentId: '123' });
+      createPage.mockResolvedValue({ success: true, result: '{"id":"789"}' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+
+      await runCommand('create-page', ['--title', 'Child Page', '--body', '<p>Child</p>']);
 
-      expect(createPage).toHaveBeenCalledWith('DOCS', 'Child Page', '<p>Child</p>', '123', 'json');
+      expect(createPage).toHaveBeenCalledWith('DOCS', 'Child Page', '<p>Child</p>', '123', 'json', undefined);
       expect(exitSpy).toHaveBeenCalledWith(0);
 
       exitSpy.mockRestore();
@@ -269,10 +346,10 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('create-page', '{"spaceKey":"DOCS"}', null);
+      await runCommand('create-page', ['{"spaceKey":"DOCS"}']);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "spaceKey", "title", and "body" parameters are required');
-      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"title" is required'));
+      expect(exitSpy).toHaveBeenCalledWith(2);
 
       exitSpy.mockRestore();
       consoleErrorSpy.mockRestore();
@@ -291,9 +368,14 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('update-page', '{"pageId":"123","title":"Updated","body":"<p>New</p>","version":1}', null);
+      await runCommand('update-page', ['{"pageId":"123","title":"Updated","body":"<p>New</p>","version":1}']);
 
-      expect(updatePage).toHaveBeenCalledWith('123', 'Updated', '<p>New</p>', 1);
+      expect(updatePage).toHaveBeenCalledWith('123', 'Updated', '<p>New</p>', 1, undefined, {
+        expectedVersion: undefined,
+        retries: 0,
+        versionMessage: undefined,
+        minorEdit: false,
+      });
       expect(consoleLogSpy).toHaveBeenCalledWith('{"id":"123"}');
       expect(exitSpy).toHaveBeenCalledWith(0);
 
@@ -301,8 +383,8 @@ describe('commands/runner', () => {
       consoleLogSpy.mockRestore();
     });
 
-    it('should exit with error if update-page missing version', async () => {
-      const { loadConfig } = await import('../../../src/utils/index.js');
+    it('should leave the version of update-page to be fetched when omitted', async () => {
+      const { updatePage, loadConfig } = await import('../../../src/utils/index.js');
       loadConfig.mockReturnValue({
         host: 'https://test.atlassian.net',
         email: 'test@test.com',
@@ -310,18 +392,191 @@ describe('commands/runner', () => {
         defaultFormat: 'json',
       });
 
+      updatePage.mockResolvedValue({ success: true, result: 'Page 123 updated successfully!' });
+
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
-      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('update-page', [
+        '--page-id',
+        '123',
+        '--title',
+        'Updated',
+        '--body',
+        '<p>New</p>',
+        '--expected-version',
+        '4',
+        '--retries',
+        '2',
+        '--version-message',
+        'Fix typos',
+        '--minor-edit',
+      ]);
+
+      expect(updatePage).toHaveBeenCalledWith('123', 'Updated', '<p>New</p>', undefined, undefined, {
+        expectedVersion: 4,
+        retries: 2,
+        versionMessage: 'Fix typos',
+        minorEdit: true,
+      });
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute edit-page with the edit and version options', async () => {
+      const { editPage, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      editPage.mockResolvedValue({ success: true, result: 'Page 123 updated to version 5 (find-replace)' });
 
-      await runCommand('update-page', '{"pageId":"123","title":"Updated","body":"<p>New</p>"}', null);
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'ERROR: "pageId", "title", "body", and "version" parameters are required'
+      await runCommand('edit-page', [
+        '--page-id',
+        '123',
+        '--operation',
+        'find-replace',
+        '--find',
+        'v1',
+        '--replace',
+        'v2',
+        '--retries',
+        '3',
+      ]);
+
+      expect(editPage).toHaveBeenCalledWith(
+        '123',
+        { operation: 'find-replace', content: undefined, heading: undefined, find: 'v1', replace: 'v2' },
+        undefined,
+        { expectedVersion: undefined, retries: 3, versionMessage: undefined, minorEdit: false }
       );
-      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(exitSpy).toHaveBeenCalledWith(0);
 
       exitSpy.mockRestore();
-      consoleErrorSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute replace in the project space', async () => {
+      const { replace, loadConfig, loadProjectConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      loadProjectConfig.mockReturnValueOnce({ path: '/repo/.connicli.yaml', spaceKey: 'DOCS' });
+      replace.mockResolvedValue({ success: true, result: 'Dry run: nothing was changed.' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('replace', ['--find', 'billing-api', '--replace', 'payments-api']);
+
+      expect(replace).toHaveBeenCalledWith(
+        { cql: undefined, spaceKey: 'DOCS', label: undefined, ancestorId: undefined },
+        { find: 'billing-api', replace: 'payments-api', regex: false },
+        { dryRun: true, batchSize: 10, reportFile: undefined, versionMessage: undefined, minorEdit: false }
+      );
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute tree in the project space as text by default', async () => {
+      const { tree, loadConfig, loadProjectConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      loadProjectConfig.mockReturnValueOnce({ path: '/repo/.connicli.yaml', spaceKey: 'DOCS' });
+      tree.mockResolvedValue({ success: true, result: 'Home (1)' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('tree', ['--depth', '2']);
+
+      expect(tree).toHaveBeenCalledWith('DOCS', undefined, 2, 'text');
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute reorder-children with the comma-separated order', async () => {
+      const { reorderChildren, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      reorderChildren.mockResolvedValue({ success: true, result: 'Reordered the children of page 1 (1 moved)' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('reorder-children', ['--page-id', '1', '--order', '3, 2']);
+
+      expect(reorderChildren).toHaveBeenCalledWith('1', ['3', '2']);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute add-labels on the pages of a CQL query', async () => {
+      const { addLabels, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      addLabels.mockResolvedValue({ success: true, result: 'Added labels runbook, ops to 2 page(s)' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('add-labels', ['--cql', 'space=OPS', '--labels', 'runbook, ops']);
+
+      expect(addLabels).toHaveBeenCalledWith({ pageId: undefined, cql: 'space=OPS' }, ['runbook', 'ops']);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute get-blogpost through the page rendering', async () => {
+      const { getPage, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      getPage.mockResolvedValue({ success: true, result: '# Week 3' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('get-blogpost', ['--blog-post-id', '10', '--format', 'markdown']);
+
+      expect(getPage).toHaveBeenCalledWith('10', 'markdown', false);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
     });
 
     it('should execute add-comment command', async () => {
@@ -337,7 +592,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('add-comment', '{"pageId":"123","body":"<p>Comment</p>"}', null);
+      await runCommand('add-comment', ['{"pageId":"123","body":"<p>Comment</p>"}']);
 
       expect(addComment).toHaveBeenCalledWith('123', '<p>Comment</p>', 'json');
       expect(consoleLogSpy).toHaveBeenCalledWith('{"id":"comment123"}');
@@ -359,10 +614,10 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('add-comment', '{"pageId":"123"}', null);
+      await runCommand('add-comment', ['{"pageId":"123"}']);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "pageId" and "body" parameters are required');
-      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"body" is required'));
+      expect(exitSpy).toHaveBeenCalledWith(2);
 
       exitSpy.mockRestore();
       consoleErrorSpy.mockRestore();
@@ -381,7 +636,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('delete-page', '{"pageId":"123"}', null);
+      await runCommand('delete-page', ['{"pageId":"123"}']);
 
       expect(deletePage).toHaveBeenCalledWith('123');
       expect(consoleLogSpy).toHaveBeenCalledWith('Page deleted');
@@ -403,10 +658,10 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('delete-page', '{}', null);
+      await runCommand('delete-page', ['{}']);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: "pageId" parameter is required');
-      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"pageId" is required'));
+      expect(exitSpy).toHaveBeenCalledWith(2);
 
       exitSpy.mockRestore();
       consoleErrorSpy.mockRestore();
@@ -428,7 +683,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('download-attachment', '{"attachmentId":"att123","outputPath":"./file.pdf"}', null);
+      await runCommand('download-attachment', ['{"attachmentId":"att123","outputPath":"./file.pdf"}']);
 
       expect(downloadAttachment).toHaveBeenCalledWith('att123', './file.pdf');
       expect(consoleLogSpy).toHaveBeenCalledWith('Attachment downloaded to ./file.pdf');
@@ -438,6 +693,126 @@ describe('commands/runner', () => {
       consoleLogSpy.mockRestore();
     });
 
+    it('should execute upload-attachment with several files', async () => {
+      const { uploadAttachments, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      uploadAttachments.mockResolvedValue({ success: true, result: 'Uploaded 2 attachment(s) to page 123:' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('upload-attachment', [
+        '--page-id',
+        '123',
+        '--files',
+        'out/*.png',
+        '--files',
+        'notes, v2.pdf',
+        '--comment',
+        'Release 2.4',
+      ]);
+
+      expect(uploadAttachments).toHaveBeenCalledWith('123', ['out/*.png', 'notes, v2.pdf'], 'Release 2.4', false);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute list-attachment-versions through the version history', async () => {
+      const { listVersions, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      listVersions.mockResolvedValue({ success: true, result: '[]' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('list-attachment-versions', ['--attachment-id', 'att123']);
+
+      expect(listVersions).toHaveBeenCalledWith('att123', 25, 0, 'json');
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute pull into the current directory by default', async () => {
+      const { pull, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      pull.mockResolvedValue({ success: true, result: 'Pulled 2 page(s) and 0 attachment(s) into .' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('pull', ['--page-id', '123']);
+
+      expect(pull).toHaveBeenCalledWith(undefined, '123', '.', false);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should execute push under the project parent page', async () => {
+      const { push, loadConfig, loadProjectConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      loadProjectConfig.mockReturnValueOnce({ path: '/repo/.connicli.yaml', parentId: '123' });
+      push.mockResolvedValue({ success: true, result: 'Dry run: nothing was changed.' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('push', ['--source-dir', 'docs']);
+
+      expect(push).toHaveBeenCalledWith('docs', '123', true, false);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should apply a push only when the dry run is turned off', async () => {
+      const { push, loadConfig } = await import('../../../src/utils/index.js');
+      loadConfig.mockReturnValue({
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json',
+      });
+      push.mockResolvedValue({ success: true, result: 'Push complete.' });
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runCommand('push', ['--source-dir', 'docs', '--parent-id', '123', '--no-dry-run']);
+
+      expect(push).toHaveBeenCalledWith('docs', '123', false, false);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
     it('should execute get-user with accountId', async () => {
       const { getUser, loadConfig } = await import('../../../src/utils/index.js');
       loadConfig.mockReturnValue({
@@ -451,7 +826,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('get-user', '{"accountId":"123"}', null);
+      await runCommand('get-user', ['{"accountId":"123"}']);
 
       expect(getUser).toHaveBeenCalledWith('123', undefined, 'json');
       expect(consoleLogSpy).toHaveBeenCalledWith('{"displayName":"John Doe"}');
@@ -474,7 +849,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('get-user', '{"username":"janedoe"}', null);
+      await runCommand('get-user', ['{"username":"janedoe"}']);
 
       expect(getUser).toHaveBeenCalledWith(undefined, 'janedoe', 'json');
       expect(exitSpy).toHaveBeenCalledWith(0);
@@ -496,7 +871,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('get-user', null, null);
+      await runCommand('get-user');
 
       expect(getUser).toHaveBeenCalledWith(undefined, undefined, 'json');
       expect(consoleLogSpy).toHaveBeenCalledWith('{"displayName":"Current User"}');
@@ -519,7 +894,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await runCommand('test-connection', null, null);
+      await runCommand('test-connection');
 
       expect(testConnection).toHaveBeenCalledWith();
       expect(consoleLogSpy).toHaveBeenCalledWith('Connected successfully');
@@ -542,7 +917,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('get-space', '{"spaceKey":"INVALID"}', null);
+      await runCommand('get-space', ['{"spaceKey":"INVALID"}']);
 
       expect(consoleErrorSpy).toHaveBeenCalledWith('Space not found');
       expect(exitSpy).toHaveBeenCalledWith(1);
@@ -551,6 +926,25 @@ describe('commands/runner', () => {
       consoleErrorSpy.mockRestore();
     });
 
+    it('should report invalid parameters with validation exit code', async () => {
+      const { listPages, loadConfig, clearClients } = await import('../../../src/utils/index.js');
+
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await runCommand('list-pages', ['{"limit":"abc","spaceKy":"DOCS"}']);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"limit" must be a number'));
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('did you mean "spaceKey"?'));
+      expect(listPages).not.toHaveBeenCalled();
+      expect(loadConfig).not.toHaveBeenCalled();
+      expect(clearClients).toHaveBeenCalled();
+      expect(exitSpy).toHaveBeenCalledWith(2);
+
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
     it('should handle unknown command', async () => {
       const { loadConfig } = await import('../../../src/utils/index.js');
       loadConfig.mockReturnValue({
@@ -563,7 +957,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('unknown-command', '{}', null);
+      await runCommand('unknown-command', ['{}']);
 
       expect(consoleErrorSpy).toHaveBeenCalledWith('Unknown command: unknown-command');
       expect(exitSpy).toHaveBeenCalledWith(1);
@@ -584,21 +978,19 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('list-spaces', 'invalid json', null);
+      await runCommand('list-spaces', ['invalid json']);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error executing command:',
-        expect.stringContaining('not valid JSON')
-      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('arguments are not valid JSON'));
       expect(clearClients).toHaveBeenCalled();
-      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(exitSpy).toHaveBeenCalledWith(2);
 
       exitSpy.mockRestore();
       consoleErrorSpy.mockRestore();
     });
 
-    it('should call loadConfig without parameters', async () => {
-      const { loadConfig } = await import('../../../src/utils/index.js');
+    it('should call loadConfig with the active profile', async () => {
+      const { getActiveProfile, loadConfig } = await import('../../../src/utils/index.js');
+      getActiveProfile.mockReturnValue('staging');
       loadConfig.mockReturnValue({
         host: 'https://test.atlassian.net',
         email: 'test@test.com',
@@ -608,11 +1000,12 @@ describe('commands/runner', () => {
 
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
 
-      await runCommand('test-connection', null, null);
+      await runCommand('test-connection');
 
-      expect(loadConfig).toHaveBeenCalledWith();
+      expect(loadConfig).toHaveBeenCalledWith('staging');
       expect(exitSpy).toHaveBeenCalledWith(0);
 
+      getActiveProfile.mockReturnValue(undefined);
       exitSpy.mockRestore();
     });
 
@@ -628,7 +1021,7 @@ describe('commands/runner', () => {
 
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
 
-      await runCommand('list-spaces', null, null);
+      await runCommand('list-spaces');
 
       expect(clearClients).toHaveBeenCalled();
       expect(exitSpy).toHaveBeenCalledWith(0);
@@ -645,7 +1038,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('list-spaces', null, null);
+      await runCommand('list-spaces');
 
       expect(clearClients).toHaveBeenCalled();
 
@@ -662,7 +1055,7 @@ describe('commands/runner', () => {
       const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await runCommand('list-spaces', null, null);
+      await runCommand('list-spaces');
 
       expect(consoleErrorSpy).toHaveBeenCalledWith('Error executing command:', 'Configuration load failed');
       expect(exitSpy).toHaveBeenCalledWith(1);
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+
+import { findCommand } from '../../../src/commands/helpers.js';
+import { ValidationError, parseJsonArgs, suggestName, validateCommandArgs } from '../../../src/commands/validator.js';
+
+describe('commands/validator', () => {
+  describe('validateCommandArgs', () => {
+    it('should accept valid arguments', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(validateCommandArgs(definition, { pageId: '123', format: 'toon' })).toEqual({
+        pageId: '123',
+        format: 'toon',
+        bodyOnly: false,
+      });
+    });
+
+    it('should fill in declared defaults for missing parameters', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(validateCommandArgs(definition, { spaceKey: 'DOCS' })).toEqual({ spaceKey: 'DOCS', limit: 25, start: 0 });
+    });
+
+    it('should not override provided values', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(validateCommandArgs(definition, { limit: 10, start: 5 })).toEqual({ limit: 10, start: 5 });
+    });
+
+    it('should report missing required parameters', () => {
+      const definition = findCommand('update-page')!;
+
+      expect(() => validateCommandArgs(definition, { pageId: '123' })).toThrow(ValidationError);
+      try {
+        validateCommandArgs(definition, { pageId: '123' });
+      } catch (error) {
+        expect((error as ValidationError).issues).toEqual(['"title" is required', '"body" is required']);
+      }
+    });
+
+    it('should reject empty required strings', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(() => validateCommandArgs(definition, { pageId: '  ' })).toThrow('"pageId" must not be empty');
+    });
+
+    it('should reject values of the wrong type', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(() => validateCommandArgs(definition, { limit: 'abc' })).toThrow('"limit" must be a number');
+      expect(() => validateCommandArgs(definition, { title: 42 })).toThrow('"title" must be a string');
+    });
+
+    it('should accept whole numbers for ID parameters', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(validateCommandArgs(definition, { pageId: 123456 })).toEqual({ pageId: '123456', bodyOnly: false });
+      expect(() => validateCommandArgs(definition, { pageId: 1.5 })).toThrow('"pageId" must be a string');
+    });
+
+    it('should reject numeric strings for number parameters', () => {
+      const definition = findCommand('update-page')!;
+
+      expect(() =>
+        validateCommandArgs(definition, { pageId: '1', title: 'T', body: '<p>B</p>', version: '3' })
+      ).toThrow('"version" must be a number');
+    });
+
+    it('should enforce numeric ranges and integers', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(() => validateCommandArgs(definition, { limit: 0 })).toThrow('"limit" must be at least 1');
+      expect(() => validateCommandArgs(definition, { limit: 1000 })).toThrow('"limit" must be at most 250');
+      expect(() => validateCommandArgs(definition, { start: 1.5 })).toThrow('"start" must be an integer');
+    });
+
+    it('should enforce enum values', () => {
+      const definition = findCommand('list-spaces')!;
+
+      expect(() => validateCommandArgs(definition, { format: 'xml' })).toThrow(
+        '"format" must be one of: json, toon (got "xml")'
+      );
+    });
+
+    it('should report unknown parameters with a suggestion', () => {
+      const definition = findCommand('get-page')!;
+
+      expect(() => validateCommandArgs(definition, { pageID: '123' })).toThrow(
+        'unknown parameter "pageID" (did you mean "pageId"?)'
+      );
+    });
+
+    it('should report unknown parameters without a suggestion when nothing is close', () => {
+      const definition = findCommand('test-connection')!;
+
+      expect(() => validateCommandArgs(definition, { verbose: true })).toThrow('unknown parameter "verbose"');
+    });
+
+    it('should report all problems at once', () => {
+      const definition = findCommand('get-page')!;
+
+      try {
+        validateCommandArgs(definition, { pageID: '123', format: 'xml' });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).issues).toHaveLength(3);
+        expect((error as ValidationError).message).toContain('Invalid arguments for get-page:');
+      }
+    });
+  });
+
+  describe('parseJsonArgs', () => {
+    it('should return an empty object for empty input', () => {
+      const definition = findCommand('list-pages')!;
+
+      expect(parseJsonArgs(definition, null)).toEqual({});
+      expect(parseJsonArgs(definition, '  ')).toEqual({});
+    });
+
+    it('should parse a JSON object', () => {
+      const definition = findCommand('get-space')!;
+
+      expect(parseJsonArgs(definition, '{"spaceKey":"DOCS"}')).toEqual({ spaceKey: 'DOCS' });
+    });
+
+    it('should reject malformed JSON', () => {
+      const definition = findCommand('get-space')!;
+
+      expect(() => parseJsonArgs(definition, '{spaceKey:DOCS}')).toThrow('arguments are not valid JSON');
+    });
+
+    it('should reject JSON that is not an object', () => {
+      const definition = findCommand('get-space')!;
+
+      expect(() => parseJsonArgs(definition, '["DOCS"]')).toThrow('arguments must be a JSON object');
+    });
+  });
+
+  describe('suggestName', () => {
+    it('should match names case-insensitively', () => {
+      expect(suggestName('SPACEKEY', ['spaceKey', 'title'])).toBe('spaceKey');
+    });
+
+    it('should match small typos', () => {
+      expect(suggestName('titel', ['spaceKey', 'title'])).toBe('title');
+    });
+
+    it('should match abbreviations', () => {
+      expect(suggestName('space', ['spaceKey', 'title'])).toBe('spaceKey');
+    });
+
+    it('should return undefined when no candidate is close', () => {
+      expect(suggestName('something', ['spaceKey', 'title'])).toBeUndefined();
+    });
+  });
+});
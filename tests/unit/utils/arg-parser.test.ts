@@ -10,7 +10,26 @@ vi.mock('../../../src/commands/index.js', () => ({
   runCommand: vi.fn(),
 }));
 
+vi.mock('../../../src/utils/config-loader.js', () => ({
+  CONFIG_PATH: '/home/test/.connicli',
+  setupConfig: vi.fn(),
+  showConfig: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/config-editor.js', () => ({
+  getConfigValue: vi.fn(),
+  listConfigValues: vi.fn(),
+  setConfigValue: vi.fn(),
+  unsetConfigValue: vi.fn(),
+  validateConfigFile: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/confluence-client.js', () => ({
+  setActiveProfile: vi.fn(),
+}));
+
 vi.mock('../../../src/config/index.js', () => ({
+  VALIDATION_EXIT_CODE: 2,
   COMMANDS: [
     'list-spaces',
     'get-space',
@@ -22,6 +41,7 @@ vi.mock('../../../src/config/index.js', () => ({
     'delete-page',
     'get-user',
     'test-connection',
+    'sync-status',
   ],
 }));
 
@@ -160,7 +180,7 @@ describe('arg-parser', () => {
         // Expected
       }
 
-      expect(runCommand).toHaveBeenCalledWith('list-spaces', '{"profile":"cloud"}', null);
+      expect(runCommand).toHaveBeenCalledWith('list-spaces', ['{"profile":"cloud"}']);
       expect(exitSpy).toHaveBeenCalledWith(0);
 
       exitSpy.mockRestore();
@@ -178,7 +198,7 @@ describe('arg-parser', () => {
         // Expected
       }
 
-      expect(runCommand).toHaveBeenCalledWith('test-connection', null, null);
+      expect(runCommand).toHaveBeenCalledWith('test-connection', []);
       expect(exitSpy).toHaveBeenCalledWith(0);
 
       exitSpy.mockRestore();
@@ -196,10 +216,236 @@ describe('arg-parser', () => {
         // Expected
       }
 
-      expect(runCommand).toHaveBeenCalledWith('get-page', '{"pageId":"123"}', '--format');
+      expect(runCommand).toHaveBeenCalledWith('get-page', ['{"pageId":"123"}', '--format', 'json']);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should run a two-word command as its hyphenated name', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const { runCommand } = await import('../../../src/commands/index.js');
+
+      try {
+        await parseArguments(['sync', 'status', '--dir', 'docs']);
+      } catch {
+        // Expected
+      }
+
+      expect(runCommand).toHaveBeenCalledWith('sync-status', ['--dir', 'docs']);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should select the profile given with --profile', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const { runCommand } = await import('../../../src/commands/index.js');
+      const { setActiveProfile } = await import('../../../src/utils/confluence-client.js');
+
+      try {
+        await parseArguments(['--profile', 'staging', 'get-page', '--page-id=123']);
+      } catch {
+        // Expected
+      }
+
+      expect(setActiveProfile).toHaveBeenCalledWith('staging');
+      expect(runCommand).toHaveBeenCalledWith('get-page', ['--page-id=123']);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should accept --profile=<name> after the command', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const { runCommand } = await import('../../../src/commands/index.js');
+      const { setActiveProfile } = await import('../../../src/utils/confluence-client.js');
+
+      try {
+        await parseArguments(['list-spaces', '--profile=sandbox']);
+      } catch {
+        // Expected
+      }
+
+      expect(setActiveProfile).toHaveBeenCalledWith('sandbox');
+      expect(runCommand).toHaveBeenCalledWith('list-spaces', []);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should configure the profile given with config --profile', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const { setupConfig } = await import('../../../src/utils/config-loader.js');
+
+      try {
+        await parseArguments(['config', '--profile', 'staging']);
+      } catch {
+        // Expected
+      }
+
+      expect(setupConfig).toHaveBeenCalledWith('staging');
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should show the effective configuration with config show', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const { setupConfig, showConfig } = await import('../../../src/utils/config-loader.js');
+
+      await expect(parseArguments(['config', 'show', '--profile', 'staging'])).rejects.toThrow('process.exit called');
+
+      expect(showConfig).toHaveBeenCalledWith('staging');
+      expect(setupConfig).not.toHaveBeenCalled();
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should reject unknown config subcommands', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(parseArguments(['config', 'shwo'])).rejects.toThrow('process.exit called');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown config command: shwo'));
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should set a config value with config set', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const { setConfigValue } = await import('../../../src/utils/config-editor.js');
+
+      await expect(parseArguments(['config', 'set', 'defaults.format', 'toon'])).rejects.toThrow('process.exit called');
+
+      expect(setConfigValue).toHaveBeenCalledWith('defaults.format', 'toon', undefined);
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Set defaults.format in /home/test/.connicli');
+      expect(exitSpy).toHaveBeenCalledWith(0);
+
+      exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should print a config value with config get', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const { getConfigValue } = await import('../../../src/utils/config-editor.js');
+      vi.mocked(getConfigValue).mockReturnValue('https://staging.atlassian.net/wiki');
+
+      await expect(parseArguments(['--profile', 'staging', 'config', 'get', 'host'])).rejects.toThrow(
+        'process.exit called'
+      );
+
+      expect(getConfigValue).toHaveBeenCalledWith('host', 'staging');
+      expect(consoleLogSpy).toHaveBeenCalledWith('https://staging.atlassian.net/wiki');
       expect(exitSpy).toHaveBeenCalledWith(0);
 
       exitSpy.mockRestore();
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should exit with 1 when config get finds no value', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const { getConfigValue } = await import('../../../src/utils/config-editor.js');
+      vi.mocked(getConfigValue).mockReturnValue(undefined);
+
+      await expect(parseArguments(['config', 'get', 'defaults.format'])).rejects.toThrow('process.exit called');
+
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+    });
+
+    it('should report invalid config values', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { setConfigValue } = await import('../../../src/utils/config-editor.js');
+      vi.mocked(setConfigValue).mockImplementation(() => {
+        throw new Error('Invalid value for auth.email: Invalid email format');
+      });
+
+      await expect(parseArguments(['config', 'set', 'auth.email', 'nope'])).rejects.toThrow('process.exit called');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: Invalid value for auth.email: Invalid email format');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should print usage when config arguments are missing', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(parseArguments(['config', 'set', 'defaults.format'])).rejects.toThrow('process.exit called');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Usage: conni-cli config set <key> <value>');
+      expect(exitSpy).toHaveBeenCalledWith(2);
+
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should fail config validate when there are errors', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { validateConfigFile } = await import('../../../src/utils/config-editor.js');
+      vi.mocked(validateConfigFile).mockReturnValue({
+        errors: ['[auth] host is required'],
+        warnings: ['Unknown section: [custom]'],
+      });
+
+      await expect(parseArguments(['config', 'validate'])).rejects.toThrow('process.exit called');
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith('WARNING: Unknown section: [custom]');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: [auth] host is required');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should exit with an error when --profile has no name', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((): never => {
+        throw new Error('process.exit called');
+      });
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(parseArguments(['list-spaces', '--profile'])).rejects.toThrow('process.exit called');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('ERROR: option "--profile" requires a profile name');
+      expect(exitSpy).toHaveBeenCalledWith(2);
+
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
     });
 
     it('should return false for interactive mode (no arguments)', async () => {
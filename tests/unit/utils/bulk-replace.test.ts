@@ -0,0 +1,132 @@
+import type { ConfluenceClient } from 'confluence.js';
+import { describe, expect, it, vi } from 'vitest';
+
+import { planReplacements, scopeCql } from '../../../src/utils/bulk-replace.js';
+
+describe('bulk-replace', () => {
+  describe('scopeCql', () => {
+    it('should combine the scope conditions', () => {
+      expect(scopeCql({ spaceKey: 'DOCS', label: 'billing', ancestorId: '123', cql: 'title ~ "API"' })).toBe(
+        'type=page AND space="DOCS" AND label="billing" AND ancestor="123" AND (title ~ "API")'
+      );
+    });
+
+    it('should escape quoted values', () => {
+      expect(scopeCql({ label: 'say "hi"\\' })).toBe('type=page AND label="say \\"hi\\"\\\\"');
+    });
+
+    it('should require a scope', () => {
+      expect(() => scopeCql({})).toThrow('One of cql, spaceKey, label or ancestorId is required');
+    });
+  });
+
+  describe('planReplacements', () => {
+    const page = (id: string, body: string) => ({
+      id,
+      title: `Page ${id}`,
+      version: { number: 3 },
+      body: { storage: { value: body } },
+    });
+
+    const clientWith = (...responses: unknown[]) => {
+      const searchContentByCQL = vi.fn();
+      responses.forEach(response => searchContentByCQL.mockResolvedValueOnce(response));
+      return { content: { searchContentByCQL } };
+    };
+
+    it('should replace literal text and preview each match', async () => {
+      const client = clientWith({
+        results: [page('1', '<p>Call the billing-api (v1.2) now</p>'), page('2', '<p>Nothing here</p>')],
+      });
+
+      const pages = await planReplacements(client as unknown as ConfluenceClient, 'type=page', {
+        find: 'billing-api (v1.2)',
+        replace: 'payments-api $1',
+      });
+
+      expect(pages).toEqual([
+        {
+          pageId: '1',
+          title: 'Page 1',
+          version: 3,
+          matches: 1,
+          body: '<p>Call the payments-api $1 now</p>',
+          preview: ['- …<p>Call the billing-api (v1.2) now</p>…', '+ …<p>Call the payments-api $1 now</p>…'],
+        },
+      ]);
+      expect(client.content.searchContentByCQL).toHaveBeenCalledWith({
+        cql: 'type=page',
+        cursor: undefined,
+        limit: 50,
+        expand: ['body.storage', 'version'],
+      });
+    });
+
+    it('should replace regular expression matches with capture groups', async () => {
+      const client = clientWith({ results: [page('1', '<p>v1.0 v1.5</p>')] });
+
+      const [replaced] = await planReplacements(client as unknown as ConfluenceClient, 'type=page', {
+        find: 'v1\\.(\\d)',
+        replace: 'v2.$1',
+        regex: true,
+      });
+
+      expect(replaced.body).toBe('<p>v2.0 v2.5</p>');
+      expect(replaced.matches).toBe(2);
+    });
+
+    it('should keep the context of lookarounds and expand named groups', async () => {
+      const client = clientWith({ results: [page('1', 'foobar bar v1.2')] });
+
+      const [replaced] = await planReplacements(client as unknown as ConfluenceClient, 'type=page', {
+        find: '(?<=foo)bar|v(?<major>\\d)\\.(\\d)',
+        replace: '[$&:$<major>$2$$]',
+        regex: true,
+      });
+
+      expect(replaced.body).toBe('foo[bar:$] bar [v1.2:12$]');
+      expect(replaced.matches).toBe(2);
+    });
+
+    it('should limit the preview of a page', async () => {
+      const client = clientWith({ results: [page('1', 'x '.repeat(8))] });
+
+      const [replaced] = await planReplacements(client as unknown as ConfluenceClient, 'type=page', {
+        find: 'x',
+        replace: 'y',
+      });
+
+      expect(replaced.preview).toHaveLength(11);
+      expect(replaced.preview.at(-1)).toBe('  … 3 more');
+    });
+
+    it('should follow the search cursor', async () => {
+      const client = clientWith(
+        { results: [page('1', 'a')], _links: { next: '/rest/api/content/search?cql=type%3Dpage&cursor=abc' } },
+        { results: [page('2', 'a')] }
+      );
+
+      const pages = await planReplacements(client as unknown as ConfluenceClient, 'type=page', {
+        find: 'a',
+        replace: 'b',
+      });
+
+      expect(pages.map(p => p.pageId)).toEqual(['1', '2']);
+      expect(client.content.searchContentByCQL).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'abc' }));
+    });
+
+    it('should reject a missing replacement and invalid patterns', async () => {
+      const client = clientWith();
+
+      await expect(
+        planReplacements(client as unknown as ConfluenceClient, 'type=page', {
+          find: 'a',
+          replace: undefined as unknown as string,
+        })
+      ).rejects.toThrow('"replace" is required');
+      await expect(
+        planReplacements(client as unknown as ConfluenceClient, 'type=page', { find: '(', replace: '', regex: true })
+      ).rejects.toThrow('Invalid pattern');
+    });
+  });
+});
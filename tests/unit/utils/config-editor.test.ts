@@ -0,0 +1,182 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  getConfigValue,
+  listConfigValues,
+  setConfigValue,
+  unsetConfigValue,
+  validateConfigFile,
+} from '../../../src/utils/config-editor.js';
+
+describe('config-editor', () => {
+  const configContent = `# Production site
+[auth]
+host=https://prod.atlassian.net/wiki
+email=prod@example.com
+api_token=prod-secret-token
+
+# Sandbox
+[profile staging]
+host=https://staging.atlassian.net/wiki
+email=staging@example.com
+token_command=pass show confluence
+
+[custom]
+keep=me
+`;
+
+  let existsSyncMock: ReturnType<typeof vi.spyOn>;
+  let readFileSyncMock: ReturnType<typeof vi.spyOn>;
+  let writeFileSyncMock: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    existsSyncMock = vi.spyOn(fs, 'existsSync').mockReturnValue(true);
+    readFileSyncMock = vi.spyOn(fs, 'readFileSync').mockReturnValue(configContent);
+    writeFileSyncMock = vi.spyOn(fs, 'writeFileSync').mockImplementation(() => {});
+    vi.spyOn(fs, 'unlinkSync').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const writtenContent = (): string => writeFileSyncMock.mock.calls[0][1] as string;
+
+  describe('getConfigValue', () => {
+    it('should read section keys', () => {
+      expect(getConfigValue('auth.host')).toBe('https://prod.atlassian.net/wiki');
+      expect(getConfigValue('profile.staging.token_command')).toBe('pass show confluence');
+    });
+
+    it('should resolve bare keys against the selected profile', () => {
+      expect(getConfigValue('email')).toBe('prod@example.com');
+      expect(getConfigValue('email', 'staging')).toBe('staging@example.com');
+    });
+
+    it('should return undefined for unset keys', () => {
+      expect(getConfigValue('defaults.format')).toBeUndefined();
+    });
+
+    it('should reject malformed and unknown keys', () => {
+      expect(() => getConfigValue('auth')).toThrow('Unknown key "auth" in [auth]');
+      expect(() => getConfigValue('foo.bar')).toThrow('Invalid config key: foo.bar');
+      expect(() => getConfigValue('defaults.host')).toThrow(
+        'Unknown key "host" in [defaults]. Valid keys: format, profile'
+      );
+    });
+  });
+
+  describe('setConfigValue', () => {
+    it('should update an existing key in place', () => {
+      setConfigValue('profile.staging.host', 'https://new-staging.atlassian.net/wiki');
+
+      expect(writtenContent()).toBe(
+        configContent.replace('https://staging.atlassian.net/wiki', 'https://new-staging.atlassian.net/wiki')
+      );
+      expect(writeFileSyncMock).toHaveBeenCalledWith(expect.any(String), expect.any(String), { mode: 0o600 });
+    });
+
+    it('should add a new key at the end of its section', () => {
+      setConfigValue('auth.auth_type', 'pat');
+
+      expect(writtenContent()).toContain('api_token=prod-secret-token\nauth_type=pat\n\n# Sandbox');
+    });
+
+    it('should append a missing section and keep everything else', () => {
+      setConfigValue('defaults.format', 'toon');
+
+      expect(writtenContent()).toBe(`${configContent}\n[defaults]\nformat=toon\n`);
+    });
+
+    it('should create the file when none exists', () => {
+      existsSyncMock.mockReturnValue(false);
+
+      setConfigValue('host', 'https://ci.atlassian.net/wiki', 'ci');
+
+      expect(writtenContent()).toBe('[profile ci]\nhost=https://ci.atlassian.net/wiki\n');
+    });
+
+    it('should validate values', () => {
+      expect(() => setConfigValue('auth.host', 'not a url')).toThrow('Invalid value for auth.host: Invalid URL format');
+      expect(() => setConfigValue('auth.email', 'nope')).toThrow('Invalid value for auth.email: Invalid email format');
+      expect(() => setConfigValue('defaults.format', 'xml')).toThrow(`Must be 'json' or 'toon'`);
+      expect(() => setConfigValue('auth.auth_type', 'kerberos')).toThrow('Must be one of: basic, pat, oauth');
+      expect(() => setConfigValue('auth.api_token', '  ')).toThrow('must not be empty');
+      expect(writeFileSyncMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unsetConfigValue', () => {
+    it('should remove only the key line', () => {
+      expect(unsetConfigValue('profile.staging.token_command')).toBe(true);
+
+      expect(writtenContent()).toBe(configContent.replace('token_command=pass show confluence\n', ''));
+    });
+
+    it('should return false when the key is not set', () => {
+      expect(unsetConfigValue('defaults.profile')).toBe(false);
+      expect(writeFileSyncMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listConfigValues', () => {
+    it('should list values in file order with tokens redacted', () => {
+      expect(listConfigValues()).toEqual([
+        'auth.host=https://prod.atlassian.net/wiki',
+        'auth.email=prod@example.com',
+        'auth.api_token=********oken',
+        'profile.staging.host=https://staging.atlassian.net/wiki',
+        'profile.staging.email=staging@example.com',
+        'profile.staging.token_command=pass show confluence',
+        'custom.keep=me',
+      ]);
+    });
+  });
+
+  describe('validateConfigFile', () => {
+    it('should accept a valid file and warn about unknown sections', () => {
+      expect(validateConfigFile()).toEqual({ errors: [], warnings: ['Unknown section: [custom]'] });
+    });
+
+    it('should report unusable profiles', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=prod.atlassian.net
+email=prod@example.com
+
+[profile dc]
+host=https://confluence.example.com
+auth_type=pat
+api_token=token
+
+[defaults]
+profile=missing
+`);
+
+      expect(validateConfigFile().errors).toEqual([
+        '[auth] invalid host: prod.atlassian.net',
+        '[auth] api_token or token_command is required',
+        '[defaults] profile refers to unknown profile: missing',
+      ]);
+    });
+
+    it('should accept a file with only named profiles', () => {
+      readFileSyncMock.mockReturnValue(`[defaults]
+profile=staging
+
+[profile staging]
+host=https://staging.atlassian.net/wiki
+email=staging@example.com
+api_token=staging-token
+`);
+
+      expect(validateConfigFile()).toEqual({ errors: [], warnings: [] });
+    });
+
+    it('should report a missing config file', () => {
+      existsSyncMock.mockReturnValue(false);
+
+      expect(validateConfigFile().errors[0]).toContain('No config file at');
+    });
+  });
+});
@@ -1,9 +1,21 @@
+import childProcess from 'child_process';
 import fs from 'fs';
 import readline from 'readline';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { getConfluenceClientOptions, loadConfig, setupConfig } from '../../../src/utils/config-loader.js';
+import {
+  getConfluenceClientOptions,
+  listProfiles,
+  loadConfig,
+  setupConfig,
+  showConfig,
+} from '../../../src/utils/config-loader.js';
 import type { Config } from '../../../src/utils/config-loader.js';
+import { loadProjectConfig } from '../../../src/utils/project-config.js';
+
+vi.mock('../../../src/utils/project-config.js', () => ({
+  loadProjectConfig: vi.fn(),
+}));
 
 describe('config-loader', () => {
   let existsSyncMock: ReturnType<typeof vi.spyOn>;
@@ -180,6 +192,316 @@ unknown_setting=value
     });
   });
 
+  describe('profiles', () => {
+    const profilesContent = `[auth]
+host=https://prod.atlassian.net/wiki
+email=prod@example.com
+api_token=prod-token
+
+[defaults]
+format=toon
+
+[profile staging]
+host=https://staging.atlassian.net/wiki
+email=staging@example.com
+api_token=staging-token
+
+[profile sandbox]
+host=https://sandbox.atlassian.net/wiki
+email=sandbox@example.com
+api_token=sandbox-token
+format=json
+`;
+
+    beforeEach(() => {
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(profilesContent);
+      vi.stubEnv('CONNI_PROFILE', '');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should load the [auth] section as the default profile', () => {
+      const config = loadConfig();
+
+      expect(config.profile).toBe('default');
+      expect(config.host).toBe('https://prod.atlassian.net/wiki');
+    });
+
+    it('should load a named profile', () => {
+      const config = loadConfig('staging');
+
+      expect(config.profile).toBe('staging');
+      expect(config.host).toBe('https://staging.atlassian.net/wiki');
+      expect(config.email).toBe('staging@example.com');
+      expect(config.apiToken).toBe('staging-token');
+    });
+
+    it('should inherit the default format unless the profile sets one', () => {
+      expect(loadConfig('staging').defaultFormat).toBe('toon');
+      expect(loadConfig('sandbox').defaultFormat).toBe('json');
+    });
+
+    it('should select the profile from CONNI_PROFILE', () => {
+      vi.stubEnv('CONNI_PROFILE', 'sandbox');
+
+      expect(loadConfig().profile).toBe('sandbox');
+      expect(loadConfig('staging').profile).toBe('staging');
+    });
+
+    it('should select the profile from [defaults] profile', () => {
+      readFileSyncMock.mockReturnValue(`${profilesContent}\n[defaults]\nprofile=staging\n`);
+
+      expect(loadConfig().profile).toBe('staging');
+    });
+
+    it('should throw error for an unknown profile', () => {
+      expect(() => loadConfig('missing')).toThrow(
+        'Unknown profile: missing. Available profiles: default, staging, sandbox'
+      );
+    });
+
+    it('should report which profile has missing fields', () => {
+      readFileSyncMock.mockReturnValue(`[profile broken]\nhost=https://broken.atlassian.net\n`);
+
+      expect(() => loadConfig('broken')).toThrow('Missing required fields in [profile broken]');
+    });
+
+    it('should list profiles with the default first', () => {
+      expect(listProfiles()).toEqual(['default', 'staging', 'sandbox']);
+    });
+
+    it('should not add a default profile to a file with only named profiles', () => {
+      readFileSyncMock.mockReturnValue(
+        `[defaults]\nprofile=staging\n\n[profile staging]\nhost=https://staging.atlassian.net/wiki\nemail=staging@example.com\napi_token=staging-token\n`
+      );
+
+      expect(listProfiles()).toEqual(['staging']);
+      expect(loadConfig().profile).toBe('staging');
+    });
+  });
+
+  describe('environment variables', () => {
+    const fileContent = `[auth]
+host=https://file.atlassian.net/wiki
+email=file@example.com
+api_token=file-token
+
+[defaults]
+format=toon
+`;
+
+    beforeEach(() => {
+      vi.stubEnv('CONNI_PROFILE', '');
+      vi.stubEnv('CONNI_HOST', '');
+      vi.stubEnv('CONNI_AUTH_TYPE', '');
+      vi.stubEnv('CONNI_EMAIL', '');
+      vi.stubEnv('CONNI_API_TOKEN', '');
+      vi.stubEnv('CONNI_FORMAT', '');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should load config from environment variables without a config file', () => {
+      existsSyncMock.mockReturnValue(false);
+      vi.stubEnv('CONNI_HOST', 'https://ci.atlassian.net/wiki');
+      vi.stubEnv('CONNI_EMAIL', 'ci@example.com');
+      vi.stubEnv('CONNI_API_TOKEN', 'ci-token');
+
+      expect(loadConfig()).toEqual({
+        profile: 'default',
+        host: 'https://ci.atlassian.net/wiki',
+        authType: 'basic',
+        email: 'ci@example.com',
+        apiToken: 'ci-token',
+        defaultFormat: 'json',
+      });
+    });
+
+    it('should prefer environment variables over the config file', () => {
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(fileContent);
+      vi.stubEnv('CONNI_API_TOKEN', 'env-token');
+      vi.stubEnv('CONNI_FORMAT', 'json');
+
+      const config = loadConfig();
+
+      expect(config.host).toBe('https://file.atlassian.net/wiki');
+      expect(config.apiToken).toBe('env-token');
+      expect(config.defaultFormat).toBe('json');
+    });
+
+    it('should mention environment variables when nothing is configured', () => {
+      existsSyncMock.mockReturnValue(false);
+      vi.stubEnv('CONNI_HOST', 'https://ci.atlassian.net/wiki');
+
+      expect(() => loadConfig()).toThrow('or set CONNI_HOST, CONNI_EMAIL and CONNI_API_TOKEN');
+    });
+
+    it('should reject an invalid CONNI_FORMAT', () => {
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(fileContent);
+      vi.stubEnv('CONNI_FORMAT', 'xml');
+
+      expect(() => loadConfig()).toThrow(`Invalid CONNI_FORMAT: "xml". Must be 'json' or 'toon'.`);
+    });
+
+    it('should name the environment variable holding an invalid value', () => {
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(fileContent);
+      vi.stubEnv('CONNI_EMAIL', 'not-an-email');
+
+      expect(() => loadConfig()).toThrow('Invalid email: not-an-email in $CONNI_EMAIL');
+    });
+
+    it('should show the effective config with sources and a redacted token', () => {
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(fileContent);
+      vi.stubEnv('CONNI_API_TOKEN', 'env-secret-token-1234');
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      showConfig();
+
+      const output = consoleLogSpy.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toMatch(/profile\s+default\s+\(built-in default\)/);
+      expect(output).toMatch(/host\s+https:\/\/file\.atlassian\.net\/wiki\s+\(\[auth\] of .*\)/);
+      expect(output).toMatch(/api_token\s+\*{8}1234\s+\(\$CONNI_API_TOKEN\)/);
+      expect(output).toMatch(/format\s+toon\s+\(\[defaults\] of .*\)/);
+      expect(output).not.toContain('env-secret-token');
+    });
+
+    it('should show missing values instead of failing', () => {
+      existsSyncMock.mockReturnValue(false);
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      showConfig();
+
+      const output = consoleLogSpy.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toMatch(/host\s+-\s+\(not set\)/);
+    });
+  });
+
+  describe('token_command', () => {
+    beforeEach(() => {
+      vi.stubEnv('CONNI_PROFILE', '');
+      vi.stubEnv('CONNI_API_TOKEN', '');
+      existsSyncMock.mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should read the token from the command output', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://test.atlassian.net/wiki
+email=user@example.com
+token_command=echo helper-token
+`);
+
+      expect(loadConfig().apiToken).toBe('helper-token');
+    });
+
+    it('should prefer CONNI_API_TOKEN over the command', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://test.atlassian.net/wiki
+email=user@example.com
+token_command=exit 1
+`);
+      vi.stubEnv('CONNI_API_TOKEN', 'env-token');
+
+      expect(loadConfig().apiToken).toBe('env-token');
+    });
+
+    it('should report where a failing command is configured', () => {
+      readFileSyncMock.mockReturnValue(`[profile vault]
+host=https://test.atlassian.net/wiki
+email=user@example.com
+token_command=echo locked >&2; exit 1
+`);
+
+      expect(() => loadConfig('vault')).toThrow(/token_command failed: locked \(token_command in \[profile vault\]/);
+    });
+
+    it('should show the command in config show without running it', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://test.atlassian.net/wiki
+email=user@example.com
+token_command=pass show confluence
+`);
+      const execSpy = vi.spyOn(childProcess, 'execSync');
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      showConfig();
+
+      const output = consoleLogSpy.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toMatch(/api_token\s+\$\(pass show confluence\)\s+\(token_command in \[auth\]/);
+      expect(execSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('project config', () => {
+    const fileContent = `[auth]
+host=https://test.atlassian.net/wiki
+email=user@example.com
+api_token=token
+
+[profile work]
+host=https://work.atlassian.net/wiki
+email=user@work.com
+api_token=work-token
+format=json
+`;
+
+    beforeEach(() => {
+      vi.stubEnv('CONNI_PROFILE', '');
+      vi.stubEnv('CONNI_FORMAT', '');
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(fileContent);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.mocked(loadProjectConfig).mockReset();
+    });
+
+    it("should use the project's profile and format", () => {
+      vi.mocked(loadProjectConfig).mockReturnValue({ path: '/repo/.connicli.yaml', profile: 'work', format: 'toon' });
+
+      const config = loadConfig();
+
+      expect(config.profile).toBe('work');
+      expect(config.host).toBe('https://work.atlassian.net/wiki');
+      expect(config.defaultFormat).toBe('toon');
+    });
+
+    it('should let the selected profile and environment override the project', () => {
+      vi.mocked(loadProjectConfig).mockReturnValue({ path: '/repo/.connicli.yaml', profile: 'work', format: 'toon' });
+      vi.stubEnv('CONNI_FORMAT', 'json');
+
+      const config = loadConfig('default');
+
+      expect(config.host).toBe('https://test.atlassian.net/wiki');
+      expect(config.defaultFormat).toBe('json');
+    });
+
+    it('should show project settings with the project file as their source', () => {
+      vi.mocked(loadProjectConfig).mockReturnValue({ path: '/repo/.connicli.yaml', spaceKey: 'DOCS', format: 'toon' });
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      showConfig();
+
+      const output = consoleLogSpy.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toMatch(/format\s+toon\s+\(\/repo\/\.connicli\.yaml\)/);
+      expect(output).toMatch(/spaceKey\s+DOCS\s+\(\/repo\/\.connicli\.yaml\)/);
+      expect(output).toMatch(/parentId\s+-\s+\(not set\)/);
+    });
+  });
+
   describe('getConfluenceClientOptions', () => {
     let config: Config;
 
@@ -215,6 +537,83 @@ format=json
       expect(options.authentication.basic).toHaveProperty('email');
       expect(options.authentication.basic).toHaveProperty('apiToken');
     });
+
+    it('should send personal access tokens and OAuth tokens as Bearer tokens', () => {
+      for (const authType of ['pat', 'oauth'] as const) {
+        const options = getConfluenceClientOptions({ ...config, authType, email: undefined });
+
+        expect(options.authentication).toEqual({ oauth2: { accessToken: 'API_TOKEN_HERE' } });
+      }
+    });
+  });
+
+  describe('auth types', () => {
+    beforeEach(() => {
+      vi.stubEnv('CONNI_PROFILE', '');
+      vi.stubEnv('CONNI_AUTH_TYPE', '');
+      vi.stubEnv('CONNI_EMAIL', '');
+      existsSyncMock.mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should load a PAT profile without an email', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://confluence.example.com
+auth_type=pat
+api_token=pat-token
+`);
+
+      const config = loadConfig();
+
+      expect(config.authType).toBe('pat');
+      expect(config.email).toBeUndefined();
+      expect(config.apiToken).toBe('pat-token');
+    });
+
+    it('should default to basic auth and require an email', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://confluence.example.com
+api_token=token
+`);
+
+      expect(() => loadConfig()).toThrow(/Missing required fields in .*: email/);
+    });
+
+    it('should take the auth type from CONNI_AUTH_TYPE', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://confluence.example.com
+api_token=token
+`);
+      vi.stubEnv('CONNI_AUTH_TYPE', 'oauth');
+
+      expect(loadConfig().authType).toBe('oauth');
+    });
+
+    it('should reject an invalid CONNI_AUTH_TYPE', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://confluence.example.com
+api_token=token
+`);
+      vi.stubEnv('CONNI_AUTH_TYPE', 'kerberos');
+
+      expect(() => loadConfig()).toThrow('Invalid CONNI_AUTH_TYPE: "kerberos". Must be one of: basic, pat, oauth.');
+    });
+
+    it('should warn about an invalid auth_type in the config file', () => {
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://confluence.example.com
+auth_type=token
+email=user@example.com
+api_token=token
+`);
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(loadConfig().authType).toBe('basic');
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid auth_type value: "token"'));
+    });
   });
 
   describe('setupConfig', () => {
@@ -239,7 +638,7 @@ format=json
 
       // Mock the readline interface to provide answers
       let questionIndex = 0;
-      const answers = ['https://test.atlassian.net/wiki', 'test@example.com', 'test-token', 'json'];
+      const answers = ['https://test.atlassian.net/wiki', 'basic', 'test@example.com', 'file', 'test-token', 'json'];
       vi.spyOn(readline, 'createInterface').mockImplementation(() => {
         const mockRl = {
           close: vi.fn(),
@@ -276,7 +675,7 @@ format=toon
       readFileSyncMock.mockReturnValue(existingConfigContent);
 
       let questionIndex = 0;
-      const answers = ['', '', '', '']; // Empty answers mean accept existing
+      const answers = ['', '', '', '', '', '']; // Empty answers mean accept existing
       vi.spyOn(readline, 'createInterface').mockImplementation(() => {
         const mockRl = {
           close: vi.fn(),
@@ -303,7 +702,7 @@ format=toon
       existsSyncMock.mockReturnValue(false);
 
       let questionIndex = 0;
-      const answers = ['https://test.atlassian.net/wiki', 'test@example.com', 'test-token', 'json'];
+      const answers = ['https://test.atlassian.net/wiki', 'basic', 'test@example.com', 'file', 'test-token', 'json'];
       vi.spyOn(readline, 'createInterface').mockImplementation(() => {
         const mockRl = {
           close: vi.fn(),
@@ -329,7 +728,7 @@ format=toon
       existsSyncMock.mockReturnValue(false);
 
       let questionIndex = 0;
-      const answers = ['https://test.atlassian.net/wiki', 'test@example.com', 'test-token', 'json'];
+      const answers = ['https://test.atlassian.net/wiki', 'basic', 'test@example.com', 'file', 'test-token', 'json'];
       vi.spyOn(readline, 'createInterface').mockImplementation(() => {
         const mockRl = {
           close: vi.fn(),
@@ -352,7 +751,7 @@ format=toon
       existsSyncMock.mockReturnValue(false);
 
       let questionIndex = 0;
-      const answers = ['https://test.atlassian.net/wiki', 'test@example.com', 'test-token', 'toon'];
+      const answers = ['https://test.atlassian.net/wiki', 'basic', 'test@example.com', 'file', 'test-token', 'toon'];
       vi.spyOn(readline, 'createInterface').mockImplementation(() => {
         const mockRl = {
           close: vi.fn(),
@@ -372,6 +771,179 @@ format=toon
       expect(writtenContent).toContain('format=toon');
     });
 
+    it('should create a named profile and keep existing profiles', async () => {
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://prod.atlassian.net/wiki
+email=prod@example.com
+api_token=prod-token
+`);
+
+      let questionIndex = 0;
+      const answers = [
+        'https://staging.atlassian.net/wiki',
+        'basic',
+        'staging@example.com',
+        'file',
+        'staging-token',
+        'toon',
+      ];
+      vi.spyOn(readline, 'createInterface').mockImplementation(() => {
+        const mockRl = {
+          close: vi.fn(),
+          write: vi.fn(),
+          question: vi.fn((_query: string, callback: (answer: string) => void) => {
+            callback(answers[questionIndex++] || '');
+          }),
+          on: vi.fn().mockReturnThis(),
+        } as unknown as readline.Interface;
+        return mockRl;
+      });
+
+      await setupConfig('staging');
+
+      const writtenContent = writeFileSyncMock.mock.calls[0][1] as string;
+      expect(writtenContent).toContain('[auth]\nhost=https://prod.atlassian.net/wiki');
+      expect(writtenContent).toContain(
+        '[profile staging]\nhost=https://staging.atlassian.net/wiki\nemail=staging@example.com\napi_token=staging-token\nformat=toon'
+      );
+      expect(writtenContent).not.toContain('[defaults]');
+    });
+
+    it('should skip the email prompt for personal access tokens', async () => {
+      existsSyncMock.mockReturnValue(false);
+
+      let questionIndex = 0;
+      const questions: string[] = [];
+      const answers = ['https://confluence.example.com', 'pat', 'file', 'pat-token', 'json'];
+      vi.spyOn(readline, 'createInterface').mockImplementation(() => {
+        const mockRl = {
+          close: vi.fn(),
+          write: vi.fn(),
+          question: vi.fn((query: string, callback: (answer: string) => void) => {
+            questions.push(query);
+            callback(answers[questionIndex++] || '');
+          }),
+          on: vi.fn().mockReturnThis(),
+        } as unknown as readline.Interface;
+        return mockRl;
+      });
+
+      await setupConfig();
+
+      expect(questions).toEqual([
+        'host: ',
+        'auth_type (basic, pat, oauth): ',
+        'token_storage (file, secret-service, command): ',
+        'api_token (personal access token): ',
+        'format: ',
+      ]);
+      const writtenContent = writeFileSyncMock.mock.calls[0][1] as string;
+      expect(writtenContent).toBe('[auth]\nhost=https://confluence.example.com\nauth_type=pat\napi_token=pat-token\n');
+    });
+
+    it('should store the token in the Secret Service when chosen', async () => {
+      existsSyncMock.mockReturnValue(false);
+      const execSpy = vi.spyOn(childProcess, 'execFileSync').mockReturnValue(Buffer.from(''));
+
+      let questionIndex = 0;
+      const answers = [
+        'https://test.atlassian.net/wiki',
+        'basic',
+        'test@example.com',
+        'secret-service',
+        'test-token',
+        'json',
+      ];
+      vi.spyOn(readline, 'createInterface').mockImplementation(() => {
+        const mockRl = {
+          close: vi.fn(),
+          write: vi.fn(),
+          question: vi.fn((_query: string, callback: (answer: string) => void) => {
+            callback(answers[questionIndex++] || '');
+          }),
+          on: vi.fn().mockReturnThis(),
+        } as unknown as readline.Interface;
+        return mockRl;
+      });
+
+      await setupConfig();
+
+      expect(execSpy).toHaveBeenCalledWith(
+        'secret-tool',
+        expect.arrayContaining(['store', 'profile', 'default']),
+        expect.objectContaining({ input: 'test-token' })
+      );
+      const writtenContent = writeFileSyncMock.mock.calls[0][1] as string;
+      expect(writtenContent).toContain('token_command=secret-tool lookup service conni-cli profile default');
+      expect(writtenContent).not.toContain('test-token');
+    });
+
+    it('should keep the token already in the Secret Service', async () => {
+      existsSyncMock.mockReturnValue(true);
+      readFileSyncMock.mockReturnValue(`[auth]
+host=https://test.atlassian.net/wiki
+email=test@example.com
+token_command=secret-tool lookup service conni-cli profile default
+`);
+      const execSpy = vi.spyOn(childProcess, 'execFileSync');
+
+      let questionIndex = 0;
+      const answers = ['', '', '', '', '', ''];
+      vi.spyOn(readline, 'createInterface').mockImplementation(() => {
+        const mockRl = {
+          close: vi.fn(),
+          write: vi.fn(),
+          question: vi.fn((_query: string, callback: (answer: string) => void) => {
+            callback(answers[questionIndex++] || '');
+          }),
+          on: vi.fn().mockReturnThis(),
+        } as unknown as readline.Interface;
+        return mockRl;
+      });
+
+      await setupConfig();
+
+      expect(execSpy).not.toHaveBeenCalled();
+      const writtenContent = writeFileSyncMock.mock.calls[0][1] as string;
+      expect(writtenContent).toContain('token_command=secret-tool lookup service conni-cli profile default');
+    });
+
+    it('should write a token_command when chosen', async () => {
+      existsSyncMock.mockReturnValue(false);
+
+      let questionIndex = 0;
+      const answers = [
+        'https://test.atlassian.net/wiki',
+        'basic',
+        'test@example.com',
+        'command',
+        'pass show confluence',
+        'json',
+      ];
+      vi.spyOn(readline, 'createInterface').mockImplementation(() => {
+        const mockRl = {
+          close: vi.fn(),
+          write: vi.fn(),
+          question: vi.fn((_query: string, callback: (answer: string) => void) => {
+            callback(answers[questionIndex++] || '');
+          }),
+          on: vi.fn().mockReturnThis(),
+        } as unknown as readline.Interface;
+        return mockRl;
+      });
+
+      await setupConfig();
+
+      const writtenContent = writeFileSyncMock.mock.calls[0][1] as string;
+      expect(writtenContent).toContain('token_command=pass show confluence');
+      expect(writtenContent).not.toContain('api_token=');
+    });
+
+    it('should reject invalid profile names', async () => {
+      await expect(setupConfig('bad name')).rejects.toThrow('Invalid profile name: bad name');
+    });
+
     it('should handle config read errors gracefully', async () => {
       existsSyncMock.mockReturnValue(true);
       readFileSyncMock.mockImplementation(() => {
@@ -379,7 +951,7 @@ format=toon
       });
 
       let questionIndex = 0;
-      const answers = ['https://test.atlassian.net/wiki', 'test@example.com', 'test-token', 'json'];
+      const answers = ['https://test.atlassian.net/wiki', 'basic', 'test@example.com', 'file', 'test-token', 'json'];
       vi.spyOn(readline, 'createInterface').mockImplementation(() => {
         const mockRl = {
           close: vi.fn(),
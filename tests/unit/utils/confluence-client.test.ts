@@ -174,10 +174,10 @@ describe('confluence-client', () => {
       vi.resetModules();
       const { listPages: freshListPages } = await import('../../../src/utils/confluence-client.js');
 
-      const result = await freshListPages('DOCS', 'Test', 10, 5, 'json');
+      const result = await freshListPages('DOCS', 'Test', 10, 5, 'json', 'runbook');
 
       expect(result).toEqual({ success: true, result: '{}' });
-      expect(instance.listPages).toHaveBeenCalledWith('DOCS', 'Test', 10, 5, 'json');
+      expect(instance.listPages).toHaveBeenCalledWith('DOCS', 'Test', 10, 5, 'json', 'runbook');
     });
 
     it('should use default values for limit, start, and format', async () => {
@@ -192,7 +192,7 @@ describe('confluence-client', () => {
 
       await freshListPages();
 
-      expect(instance.listPages).toHaveBeenCalledWith(undefined, undefined, 25, 0, 'json');
+      expect(instance.listPages).toHaveBeenCalledWith(undefined, undefined, 25, 0, 'json', undefined);
     });
 
     it('should pass undefined for optional parameters', async () => {
@@ -207,7 +207,7 @@ describe('confluence-client', () => {
 
       await freshListPages(undefined, 'Title Only');
 
-      expect(instance.listPages).toHaveBeenCalledWith(undefined, 'Title Only', 25, 0, 'json');
+      expect(instance.listPages).toHaveBeenCalledWith(undefined, 'Title Only', 25, 0, 'json', undefined);
     });
   });
 
@@ -225,7 +225,7 @@ describe('confluence-client', () => {
       const result = await freshGetPage('123', 'json');
 
       expect(result).toEqual({ success: true, result: '{}' });
-      expect(instance.getPage).toHaveBeenCalledWith('123', 'json');
+      expect(instance.getPage).toHaveBeenCalledWith('123', 'json', false, undefined);
     });
 
     it('should use default format when not specified', async () => {
@@ -240,7 +240,7 @@ describe('confluence-client', () => {
 
       await freshGetPage('123');
 
-      expect(instance.getPage).toHaveBeenCalledWith('123', 'json');
+      expect(instance.getPage).toHaveBeenCalledWith('123', 'json', false, undefined);
     });
   });
 
@@ -258,7 +258,7 @@ describe('confluence-client', () => {
       const result = await freshCreatePage('DOCS', 'New Page', '<p>Content</p>', '123', 'json');
 
       expect(result).toEqual({ success: true, result: '{}' });
-      expect(instance.createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Content</p>', '123', 'json');
+      expect(instance.createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Content</p>', '123', 'json', 'storage');
     });
 
     it('should use default values for parentId and format', async () => {
@@ -273,7 +273,14 @@ describe('confluence-client', () => {
 
       await freshCreatePage('DOCS', 'New Page', '<p>Content</p>');
 
-      expect(instance.createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Content</p>', undefined, 'json');
+      expect(instance.createPage).toHaveBeenCalledWith(
+        'DOCS',
+        'New Page',
+        '<p>Content</p>',
+        undefined,
+        'json',
+        'storage'
+      );
     });
 
     it('should pass undefined for optional parentId', async () => {
@@ -288,7 +295,14 @@ describe('confluence-client', () => {
 
       await freshCreatePage('DOCS', 'New Page', '<p>Content</p>', undefined);
 
-      expect(instance.createPage).toHaveBeenCalledWith('DOCS', 'New Page', '<p>Content</p>', undefined, 'json');
+      expect(instance.createPage).toHaveBeenCalledWith(
+        'DOCS',
+        'New Page',
+        '<p>Content</p>',
+        undefined,
+        'json',
+        'storage'
+      );
     });
   });
 
@@ -306,7 +320,7 @@ describe('confluence-client', () => {
       const result = await freshUpdatePage('123', 'Updated Page', '<p>New Content</p>', 2);
 
       expect(result).toEqual({ success: true, result: '{}' });
-      expect(instance.updatePage).toHaveBeenCalledWith('123', 'Updated Page', '<p>New Content</p>', 2);
+      expect(instance.updatePage).toHaveBeenCalledWith('123', 'Updated Page', '<p>New Content</p>', 2, 'storage', {});
     });
   });
 
@@ -537,6 +551,33 @@ describe('confluence-client', () => {
       expect(freshLoadConfig).toHaveBeenCalledTimes(1);
     });
 
+    it('should use the configuration passed with the active profile', async () => {
+      const instance = createMockInstance();
+      instance.listSpaces.mockResolvedValue({ success: true, result: '{}' });
+      ConfluenceUtil.mockImplementation(function (this: MockConfluenceUtil) {
+        Object.assign(this, instance);
+      });
+
+      vi.resetModules();
+      const configLoaderModule = await import('../../../src/utils/config-loader.js');
+      const freshLoadConfig = vi.mocked(configLoaderModule.loadConfig);
+      const config = {
+        host: 'https://test.atlassian.net',
+        email: 'test@test.com',
+        apiToken: 'token',
+        defaultFormat: 'json' as const,
+      };
+
+      const { listSpaces: freshListSpaces, setActiveProfile: freshSetActiveProfile } =
+        await import('../../../src/utils/confluence-client.js');
+
+      freshSetActiveProfile('staging', config);
+      await freshListSpaces();
+
+      expect(freshLoadConfig).not.toHaveBeenCalled();
+      expect(ConfluenceUtil).toHaveBeenCalledWith(config);
+    });
+
     it('should throw error if initialization fails', async () => {
       vi.resetModules();
       const configLoaderModule = await import('../../../src/utils/config-loader.js');
@@ -4,6 +4,12 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 // Import the mocked module to access mocked functions
 import * as configLoaderModule from '../../../src/utils/config-loader.js';
 import { ConfluenceUtil } from '../../../src/utils/confluence-utils.js';
+import { expandFiles } from '../../../src/utils/file-glob.js';
+import { copyPages, reorderChildren } from '../../../src/utils/page-move.js';
+import { pullPages } from '../../../src/utils/page-pull.js';
+import { pushPages } from '../../../src/utils/page-push.js';
+import { syncDiff, syncStatus } from '../../../src/utils/page-sync.js';
+import { fetchAncestors, fetchChildren, fetchDescendants, fetchTree } from '../../../src/utils/page-tree.js';
 
 // Import mocked modules
 vi.mock('@toon-format/toon', () => ({
@@ -24,9 +30,45 @@ vi.mock('../../../src/utils/config-loader.js', async () => {
 });
 
 vi.mock('node:fs', () => ({
+  readFileSync: vi.fn(),
   writeFileSync: vi.fn(),
 }));
 
+vi.mock('../../../src/utils/file-glob.js', () => ({
+  expandFiles: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/page-pull.js', () => ({
+  pullPages: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/page-push.js', () => ({
+  pushPages: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/page-sync.js', () => ({
+  syncStatus: vi.fn(),
+  syncDiff: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/page-move.js', () => ({
+  copyPages: vi.fn(),
+  reorderChildren: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/page-tree.js', async () => {
+  const actual = await vi.importActual<typeof import('../../../src/utils/page-tree.js')>(
+    '../../../src/utils/page-tree.js'
+  );
+  return {
+    ...actual,
+    fetchChildren: vi.fn(),
+    fetchDescendants: vi.fn(),
+    fetchAncestors: vi.fn(),
+    fetchTree: vi.fn(),
+  };
+});
+
 // Define mock client type
 interface MockConfluenceClient {
   space: {
@@ -41,14 +83,29 @@ interface MockConfluenceClient {
     deleteContent: ReturnType<typeof vi.fn>;
   };
   contentAttachments: {
+    getAttachments: ReturnType<typeof vi.fn>;
+    createOrUpdateAttachments: ReturnType<typeof vi.fn>;
     downloadAttachment: ReturnType<typeof vi.fn>;
   };
+  contentChildrenAndDescendants: {
+    movePage: ReturnType<typeof vi.fn>;
+  };
+  contentLabels: {
+    getLabelsForContent: ReturnType<typeof vi.fn>;
+    addLabelsToContent: ReturnType<typeof vi.fn>;
+    removeLabelFromContentUsingQueryParameter: ReturnType<typeof vi.fn>;
+  };
+  contentVersions: {
+    getContentVersions: ReturnType<typeof vi.fn>;
+    restoreContentVersion: ReturnType<typeof vi.fn>;
+  };
   users: {
     getUser: ReturnType<typeof vi.fn>;
     getCurrentUser: ReturnType<typeof vi.fn>;
   };
   search: {
     searchUser: ReturnType<typeof vi.fn>;
+    searchByCQL: ReturnType<typeof vi.fn>;
   };
 }
 
@@ -69,14 +126,29 @@ vi.mock('confluence.js', () => {
         deleteContent: vi.fn(),
       };
       this.contentAttachments = {
+        getAttachments: vi.fn(),
+        createOrUpdateAttachments: vi.fn(),
         downloadAttachment: vi.fn(),
       };
+      this.contentChildrenAndDescendants = {
+        movePage: vi.fn(),
+      };
+      this.contentLabels = {
+        getLabelsForContent: vi.fn(),
+        addLabelsToContent: vi.fn(),
+        removeLabelFromContentUsingQueryParameter: vi.fn(),
+      };
+      this.contentVersions = {
+        getContentVersions: vi.fn(),
+        restoreContentVersion: vi.fn(),
+      };
       this.users = {
         getUser: vi.fn(),
         getCurrentUser: vi.fn(),
       };
       this.search = {
         searchUser: vi.fn(),
+        searchByCQL: vi.fn(),
       };
     }),
   };
@@ -105,14 +177,29 @@ describe('confluence-utils', () => {
         deleteContent: vi.fn(),
       },
       contentAttachments: {
+        getAttachments: vi.fn(),
+        createOrUpdateAttachments: vi.fn(),
         downloadAttachment: vi.fn(),
       },
+      contentChildrenAndDescendants: {
+        movePage: vi.fn(),
+      },
+      contentLabels: {
+        getLabelsForContent: vi.fn(),
+        addLabelsToContent: vi.fn(),
+        removeLabelFromContentUsingQueryParameter: vi.fn(),
+      },
+      contentVersions: {
+        getContentVersions: vi.fn(),
+        restoreContentVersion: vi.fn(),
+      },
       users: {
         getUser: vi.fn(),
         getCurrentUser: vi.fn(),
       },
       search: {
         searchUser: vi.fn(),
+        searchByCQL: vi.fn(),
       },
     };
 
@@ -131,7 +218,9 @@ describe('confluence-utils', () => {
   describe('ConfluenceUtil', () => {
     let confluenceUtil: ConfluenceUtil;
     const mockConfig = {
+      profile: 'default',
       host: 'https://test.atlassian.net',
+      authType: 'basic' as const,
       email: 'test@test.com',
       apiToken: 'token',
       defaultFormat: 'json' as const,
@@ -319,61 +408,99 @@ describe('confluence-utils', () => {
 
     describe('listPages', () => {
       it('should search pages with CQL query', async () => {
-        mockClient.content.searchContentByCQL.mockResolvedValue({
+        mockClient.search.searchByCQL.mockResolvedValue({
           results: [
-            { id: '1', title: 'Page 1', type: 'page', status: 'current', space: { key: 'DOCS' } },
-            { id: '2', title: 'Page 2', type: 'page', status: 'current', space: { key: 'DOCS' } },
+            {
+              content: {
+                id: '1',
+                title: 'Page 1',
+                type: 'page',
+                status: 'current',
+                space: { key: 'DOCS' },
+                metadata: { labels: { results: [{ name: 'runbook' }] } },
+              },
+            },
+            { content: { id: '2', title: 'Page 2', type: 'page', status: 'current', space: { key: 'DOCS' } } },
           ],
         });
 
         const result = await confluenceUtil.listPages('DOCS', 'Test', 10, 0, 'json');
 
-        expect(mockClient.content.searchContentByCQL).toHaveBeenCalledWith({
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledWith({
           cql: 'type=page AND space="DOCS" AND title~"Test"',
           limit: 10,
+          start: 0,
+          expand: ['content.space', 'content.metadata.labels'],
         });
         expect(result.success).toBe(true);
         expect(result.data).toEqual([
-          { id: '1', title: 'Page 1', type: 'page', status: 'current', spaceKey: 'DOCS' },
-          { id: '2', title: 'Page 2', type: 'page', status: 'current', spaceKey: 'DOCS' },
+          { id: '1', title: 'Page 1', type: 'page', status: 'current', spaceKey: 'DOCS', labels: ['runbook'] },
+          { id: '2', title: 'Page 2', type: 'page', status: 'current', spaceKey: 'DOCS', labels: [] },
         ]);
       });
 
+      it('should start at the given result', async () => {
+        mockClient.search.searchByCQL.mockResolvedValue({ results: [] });
+
+        await confluenceUtil.listPages('DOCS', undefined, 25, 50);
+
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledWith(expect.objectContaining({ limit: 25, start: 50 }));
+      });
+
       it('should build CQL query with spaceKey only', async () => {
-        mockClient.content.searchContentByCQL.mockResolvedValue({ results: [] });
+        mockClient.search.searchByCQL.mockResolvedValue({ results: [] });
 
         await confluenceUtil.listPages('DOCS');
 
-        expect(mockClient.content.searchContentByCQL).toHaveBeenCalledWith({
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledWith({
           cql: 'type=page AND space="DOCS"',
           limit: 25,
+          start: 0,
+          expand: ['content.space', 'content.metadata.labels'],
         });
       });
 
       it('should build CQL query with title only', async () => {
-        mockClient.content.searchContentByCQL.mockResolvedValue({ results: [] });
+        mockClient.search.searchByCQL.mockResolvedValue({ results: [] });
 
         await confluenceUtil.listPages(undefined, 'Test');
 
-        expect(mockClient.content.searchContentByCQL).toHaveBeenCalledWith({
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledWith({
           cql: 'type=page AND title~"Test"',
           limit: 25,
+          start: 0,
+          expand: ['content.space', 'content.metadata.labels'],
+        });
+      });
+
+      it('should filter by label', async () => {
+        mockClient.search.searchByCQL.mockResolvedValue({ results: [] });
+
+        await confluenceUtil.listPages('DOCS', undefined, 25, 0, 'json', 'runbook');
+
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledWith({
+          cql: 'type=page AND space="DOCS" AND label="runbook"',
+          limit: 25,
+          start: 0,
+          expand: ['content.space', 'content.metadata.labels'],
         });
       });
 
       it('should build minimal CQL query without filters', async () => {
-        mockClient.content.searchContentByCQL.mockResolvedValue({ results: [] });
+        mockClient.search.searchByCQL.mockResolvedValue({ results: [] });
 
         await confluenceUtil.listPages();
 
-        expect(mockClient.content.searchContentByCQL).toHaveBeenCalledWith({
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledWith({
           cql: 'type=page',
           limit: 25,
+          start: 0,
+          expand: ['content.space', 'content.metadata.labels'],
         });
       });
 
       it('should handle API errors', async () => {
-        mockClient.content.searchContentByCQL.mockRejectedValue(new Error('Search failed'));
+        mockClient.search.searchByCQL.mockRejectedValue(new Error('Search failed'));
 
         const result = await confluenceUtil.listPages('DOCS');
 
@@ -382,6 +509,71 @@ describe('confluence-utils', () => {
       });
     });
 
+    describe('search', () => {
+      const hit = (id: string) => ({
+        title: `Rate @@@hl@@@limits@@@endhl@@@ ${id}`,
+        excerpt: 'Requests over the @@@hl@@@limit@@@endhl@@@\nare rejected',
+        url: `/spaces/DOCS/pages/${id}`,
+        lastModified: '2026-01-02T10:00:00.000Z',
+        content: { id, type: 'page', space: { key: 'DOCS' } },
+      });
+
+      it('should search with the built query and mark highlights in excerpts', async () => {
+        mockClient.search.searchByCQL.mockResolvedValue({
+          results: [hit('1')],
+          _links: { next: '/rest/api/search?cql=x&cursor=next1' },
+        });
+
+        const result = await confluenceUtil.search({ spaceKey: 'DOCS', text: 'limit' }, { limit: 10 });
+
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledWith({
+          cql: 'space = "DOCS" AND text ~ "limit"',
+          cursor: undefined,
+          limit: 10,
+          excerpt: 'highlight',
+          expand: ['content.space'],
+        });
+        expect(result.data).toEqual({
+          cql: 'space = "DOCS" AND text ~ "limit"',
+          results: [
+            {
+              id: '1',
+              type: 'page',
+              title: 'Rate limits 1',
+              spaceKey: 'DOCS',
+              lastModified: '2026-01-02T10:00:00.000Z',
+              url: 'https://test.atlassian.net/spaces/DOCS/pages/1',
+              excerpt: 'Requests over the **limit** are rejected',
+            },
+          ],
+          nextCursor: 'next1',
+        });
+      });
+
+      it('should follow the cursor with all', async () => {
+        mockClient.search.searchByCQL
+          .mockResolvedValueOnce({ results: [hit('1')], _links: { next: '/rest/api/search?cursor=next1' } })
+          .mockResolvedValueOnce({ results: [hit('2')], _links: {} });
+
+        const result = await confluenceUtil.search({ cql: 'type=page' }, { all: true });
+
+        expect(mockClient.search.searchByCQL).toHaveBeenCalledTimes(2);
+        expect(mockClient.search.searchByCQL).toHaveBeenLastCalledWith(
+          expect.objectContaining({ cql: '(type=page)', cursor: 'next1', limit: 25 })
+        );
+        const data = result.data as { results: Array<{ id: string }>; nextCursor?: string };
+        expect(data.results.map(found => found.id)).toEqual(['1', '2']);
+        expect(data.nextCursor).toBeUndefined();
+      });
+
+      it('should return error without a query', async () => {
+        const result = await confluenceUtil.search({});
+
+        expect(result).toEqual({ success: false, error: 'ERROR: A cql query or at least one filter is required' });
+        expect(mockClient.search.searchByCQL).not.toHaveBeenCalled();
+      });
+    });
+
     describe('getPage', () => {
       it('should return page details on success', async () => {
         const mockPage = { id: '123', title: 'Test Page', body: { storage: { value: '<p>Content</p>' } } };
@@ -397,252 +589,1082 @@ describe('confluence-utils', () => {
         expect(result.data).toBe(mockPage);
       });
 
-      it('should return error on API failure', async () => {
-        mockClient.content.getContentById.mockRejectedValue(new Error('Page not found'));
+      it('should get an older version', async () => {
+        mockClient.content.getContentById.mockResolvedValue({ id: '123', version: { number: 2 } });
 
-        const result = await confluenceUtil.getPage('999');
+        await confluenceUtil.getPage('123', 'json', false, 2);
 
-        expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: Page not found');
+        expect(mockClient.content.getContentById).toHaveBeenCalledWith(
+          expect.objectContaining({ id: '123', version: 2 })
+        );
       });
-    });
 
-    describe('createPage', () => {
-      it('should create page without parent', async () => {
-        const mockResponse = { id: '456', title: 'New Page' };
-        mockClient.content.createContent.mockResolvedValue(mockResponse);
+      it('should return only the storage body when bodyOnly is set', async () => {
+        const mockPage = { id: '123', title: 'Test Page', body: { storage: { value: '<p>Content</p>' } } };
+        mockClient.content.getContentById.mockResolvedValue(mockPage);
 
-        const result = await confluenceUtil.createPage('DOCS', 'New Page', '<p>Content</p>', undefined, 'json');
+        const result = await confluenceUtil.getPage('123', 'json', true);
 
-        expect(mockClient.content.createContent).toHaveBeenCalledWith({
-          type: 'page',
-          title: 'New Page',
-          space: { key: 'DOCS' },
-          body: {
-            storage: {
-              value: '<p>Content</p>',
-              representation: 'storage',
+        expect(result.success).toBe(true);
+        expect(result.result).toBe('<p>Content</p>');
+      });
+
+      it('should render the page as Markdown with attachments and links', async () => {
+        mockClient.content.getContentById.mockResolvedValue({
+          id: '123',
+          title: 'Guide',
+          body: { storage: { value: '<h2>Setup</h2><p>See <a href="https://example.com">the site</a>.</p>' } },
+          children: {
+            attachment: {
+              results: [{ title: 'diagram.png', _links: { download: '/download/attachments/123/diagram.png' } }],
             },
           },
         });
+
+        const result = await confluenceUtil.getPage('123', 'markdown');
+
         expect(result.success).toBe(true);
-        expect(result.data).toBe(mockResponse);
+        expect(result.result).toBe(
+          '# Guide\n\n## Setup\n\nSee [the site](https://example.com).\n\n' +
+            '## Attachments\n\n- [diagram.png](https://test.atlassian.net/download/attachments/123/diagram.png)\n\n' +
+            '## Links\n\n- https://example.com'
+        );
       });
 
-      it('should create page with parent', async () => {
-        const mockResponse = { id: '789' };
-        mockClient.content.createContent.mockResolvedValue(mockResponse);
+      it('should render only the converted body as text when bodyOnly is set', async () => {
+        mockClient.content.getContentById.mockResolvedValue({
+          id: '123',
+          title: 'Guide',
+          body: { storage: { value: '<p>Plain <strong>words</strong></p>' } },
+        });
 
-        await confluenceUtil.createPage('DOCS', 'Child Page', '<p>Child</p>', '123', 'json');
+        const result = await confluenceUtil.getPage('123', 'text', true);
 
-        expect(mockClient.content.createContent).toHaveBeenCalledWith({
-          type: 'page',
-          title: 'Child Page',
-          space: { key: 'DOCS' },
-          body: {
-            storage: {
-              value: '<p>Child</p>',
-              representation: 'storage',
-            },
-          },
-          ancestors: [{ id: '123' }],
-        });
+        expect(result.result).toBe('Plain words');
       });
 
       it('should return error on API failure', async () => {
-        mockClient.content.createContent.mockRejectedValue(new Error('Permission denied'));
+        mockClient.content.getContentById.mockRejectedValue(new Error('Page not found'));
 
-        const result = await confluenceUtil.createPage('DOCS', 'New Page', '<p>Content</p>');
+        const result = await confluenceUtil.getPage('999');
 
         expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: Permission denied');
+        expect(result.error).toBe('ERROR: Page not found');
       });
     });
 
-    describe('updatePage', () => {
-      it('should update page with new version', async () => {
-        mockClient.content.updateContent.mockResolvedValue({});
+    describe('getChildren', () => {
+      it('should list the id and title of each child', async () => {
+        vi.mocked(fetchChildren).mockResolvedValue([
+          { id: '2', title: 'Child', extra: true } as unknown as { id: string; title: string },
+        ]);
 
-        const result = await confluenceUtil.updatePage('123', 'Updated Title', '<p>New Content</p>', 1);
+        const result = await confluenceUtil.getChildren('1');
 
-        expect(mockClient.content.updateContent).toHaveBeenCalledWith({
-          id: '123',
-          type: 'page',
-          body: {
-            storage: {
-              value: '<p>New Content</p>',
-              representation: 'storage',
-            },
-          },
-          title: 'Updated Title',
-          version: { number: 2 },
-        });
-        expect(result.success).toBe(true);
-        expect(result.result).toBe('Page 123 updated successfully!');
+        expect(fetchChildren).toHaveBeenCalledWith(mockClient, '1');
+        expect(result.data).toEqual([{ id: '2', title: 'Child' }]);
+        expect(result.result).toBe(JSON.stringify([{ id: '2', title: 'Child' }], null, 2));
       });
 
-      it('should increment version number', async () => {
-        mockClient.content.updateContent.mockResolvedValue({});
+      it('should return error on API failure', async () => {
+        vi.mocked(fetchChildren).mockRejectedValue(new Error('Not found'));
 
-        await confluenceUtil.updatePage('123', 'Title', 'Body', 5);
+        const result = await confluenceUtil.getChildren('1');
 
-        expect(mockClient.content.updateContent).toHaveBeenCalledWith(
-          expect.objectContaining({ version: { number: 6 } })
-        );
+        expect(result).toEqual({ success: false, error: 'ERROR: Not found' });
       });
+    });
 
-      it('should return error on API failure', async () => {
-        mockClient.content.updateContent.mockRejectedValue(new Error('Version conflict'));
+    describe('getDescendants', () => {
+      it('should pass the depth limit', async () => {
+        const descendants = [{ id: '2', title: 'Child', parentId: '1', depth: 1 }];
+        vi.mocked(fetchDescendants).mockResolvedValue(descendants);
 
-        const result = await confluenceUtil.updatePage('123', 'Title', 'Body', 1);
+        const result = await confluenceUtil.getDescendants('1', 2);
 
-        expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: Version conflict');
+        expect(fetchDescendants).toHaveBeenCalledWith(mockClient, '1', 2);
+        expect(result.data).toEqual(descendants);
       });
     });
 
-    describe('addComment', () => {
-      it('should add comment to page', async () => {
-        const mockPage = { space: { key: 'DOCS' } };
-        const mockComment = { id: '999' };
-        mockClient.content.getContentById.mockResolvedValue(mockPage);
-        mockClient.content.createContent.mockResolvedValue(mockComment);
+    describe('getAncestors', () => {
+      it('should list the ancestors from the top down', async () => {
+        const ancestors = [
+          { id: '1', title: 'Home' },
+          { id: '2', title: 'Guides' },
+        ];
+        vi.mocked(fetchAncestors).mockResolvedValue(ancestors);
 
-        const result = await confluenceUtil.addComment('123', '<p>Comment</p>', 'json');
+        const result = await confluenceUtil.getAncestors('3');
 
-        expect(mockClient.content.getContentById).toHaveBeenCalledWith({
-          id: '123',
-          expand: ['space'],
-        });
-        expect(mockClient.content.createContent).toHaveBeenCalledWith({
-          type: 'comment',
-          container: { id: '123', type: 'page' },
-          title: '',
-          space: { key: 'DOCS' },
-          body: {
-            storage: {
-              value: '<p>Comment</p>',
-              representation: 'storage',
-            },
-          },
-        });
-        expect(result.success).toBe(true);
-        expect(result.data).toBe(mockComment);
+        expect(fetchAncestors).toHaveBeenCalledWith(mockClient, '3');
+        expect(result.data).toEqual(ancestors);
       });
+    });
 
-      it('should return error on API failure', async () => {
-        mockClient.content.getContentById.mockRejectedValue(new Error('Page not found'));
+    describe('tree', () => {
+      const nodes = [{ id: '1', title: 'Home', children: [{ id: '2', title: 'Guides', children: [] }] }];
 
-        const result = await confluenceUtil.addComment('999', '<p>Comment</p>');
+      it('should render the tree as text', async () => {
+        vi.mocked(fetchTree).mockResolvedValue(nodes);
 
-        expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: Page not found');
+        const result = await confluenceUtil.tree('DOCS', undefined, 1);
+
+        expect(fetchTree).toHaveBeenCalledWith(mockClient, { spaceKey: 'DOCS', pageId: undefined }, 1);
+        expect(result.result).toBe('Home (1)\n└── Guides (2)');
       });
-    });
 
-    describe('deletePage', () => {
-      it('should delete page successfully', async () => {
-        mockClient.content.deleteContent.mockResolvedValue({});
+      it('should return nested JSON', async () => {
+        vi.mocked(fetchTree).mockResolvedValue(nodes);
 
-        const result = await confluenceUtil.deletePage('123');
+        const result = await confluenceUtil.tree(undefined, '1', undefined, 'json');
 
-        expect(mockClient.content.deleteContent).toHaveBeenCalledWith({ id: '123' });
-        expect(result.success).toBe(true);
-        expect(result.result).toBe('Page 123 deleted successfully!');
+        expect(result.result).toBe(JSON.stringify(nodes, null, 2));
       });
 
-      it('should return error on API failure', async () => {
-        mockClient.content.deleteContent.mockRejectedValue(new Error('Delete failed'));
+      it('should return error without a space or page', async () => {
+        vi.mocked(fetchTree).mockRejectedValue(new Error('Either spaceKey or pageId is required'));
 
-        const result = await confluenceUtil.deletePage('123');
+        const result = await confluenceUtil.tree();
 
-        expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: Delete failed');
+        expect(result).toEqual({ success: false, error: 'ERROR: Either spaceKey or pageId is required' });
       });
     });
 
-    describe('getUser', () => {
-      it('should get user by accountId', async () => {
-        const mockUser = { accountId: '123', displayName: 'Test User' };
-        mockClient.users.getUser.mockResolvedValue(mockUser);
+    describe('movePage', () => {
+      it('should append the page to a new parent', async () => {
+        mockClient.contentChildrenAndDescendants.movePage.mockResolvedValue({ pageId: '123' });
 
-        const result = await confluenceUtil.getUser('123', undefined, 'json');
+        const result = await confluenceUtil.movePage('123', { parentId: '456' });
 
-        expect(mockClient.users.getUser).toHaveBeenCalledWith({ accountId: '123' });
-        expect(result.success).toBe(true);
-        expect(result.data).toBe(mockUser);
+        expect(mockClient.contentChildrenAndDescendants.movePage).toHaveBeenCalledWith({
+          pageId: '123',
+          position: 'append',
+          targetId: '456',
+        });
+        expect(result.result).toBe('Page 123 moved under page 456');
       });
 
-      it('should search user by username', async () => {
-        const mockUser = { displayName: 'Test User' };
-        mockClient.search.searchUser.mockResolvedValue({ results: [mockUser] });
-
-        const result = await confluenceUtil.getUser(undefined, 'testuser', 'json');
+      it('should place the page after a sibling', async () => {
+        const result = await confluenceUtil.movePage('123', { after: '789' });
 
-        expect(mockClient.search.searchUser).toHaveBeenCalledWith({
-          cql: 'user.fullname~"testuser"',
-          limit: 1,
+        expect(mockClient.contentChildrenAndDescendants.movePage).toHaveBeenCalledWith({
+          pageId: '123',
+          position: 'after',
+          targetId: '789',
         });
-        expect(result.success).toBe(true);
-        expect(result.data).toBe(mockUser);
+        expect(result.result).toBe('Page 123 moved after page 789');
       });
 
-      it('should return error if user not found by username', async () => {
-        mockClient.search.searchUser.mockResolvedValue({ results: [] });
+      it("should move the page under another space's home page", async () => {
+        mockClient.space.getSpace.mockResolvedValue({ key: 'NEW', homepage: { id: '1000' } });
 
-        const result = await confluenceUtil.getUser(undefined, 'nonexistent');
+        const result = await confluenceUtil.movePage('123', { spaceKey: 'NEW' });
 
-        expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: User "nonexistent" not found');
+        expect(mockClient.space.getSpace).toHaveBeenCalledWith({ spaceKey: 'NEW', expand: ['homepage'] });
+        expect(mockClient.contentChildrenAndDescendants.movePage).toHaveBeenCalledWith({
+          pageId: '123',
+          position: 'append',
+          targetId: '1000',
+        });
+        expect(result.result).toBe('Page 123 moved to space NEW');
       });
 
-      it('should get current user when no parameters provided', async () => {
-        const mockUser = { displayName: 'Current User', email: 'current@test.com' };
-        mockClient.users.getCurrentUser.mockResolvedValue(mockUser);
+      it('should require exactly one target', async () => {
+        const result = await confluenceUtil.movePage('123', { parentId: '456', before: '789' });
 
-        const result = await confluenceUtil.getUser(undefined, undefined, 'json');
+        expect(result).toEqual({
+          success: false,
+          error: 'ERROR: Exactly one of parentId, spaceKey, before or after is required',
+        });
+        expect(mockClient.contentChildrenAndDescendants.movePage).not.toHaveBeenCalled();
+      });
+    });
 
-        expect(mockClient.users.getCurrentUser).toHaveBeenCalled();
-        expect(result.success).toBe(true);
-        expect(result.data).toBe(mockUser);
+    describe('copyPage', () => {
+      it('should list each copied page', async () => {
+        vi.mocked(copyPages).mockResolvedValue([
+          { sourceId: '1', id: '11', title: 'Copy of Home' },
+          { sourceId: '2', id: '12', title: 'Copy of Guides' },
+        ]);
+
+        const result = await confluenceUtil.copyPage(
+          '1',
+          { parentId: '99' },
+          { recursive: true, titlePrefix: 'Copy of ' }
+        );
+
+        expect(copyPages).toHaveBeenCalledWith(
+          mockClient,
+          '1',
+          { parentId: '99' },
+          { recursive: true, titlePrefix: 'Copy of ' }
+        );
+        expect(result.result).toBe(
+          ['Copied 2 page(s) under page 99:', '  1 → 11 "Copy of Home"', '  2 → 12 "Copy of Guides"'].join('\n')
+        );
       });
 
-      it('should return error on API failure', async () => {
-        mockClient.users.getUser.mockRejectedValue(new Error('User not found'));
+      it('should return error when the copy fails', async () => {
+        vi.mocked(copyPages).mockRejectedValue(new Error('Either parentId or spaceKey is required'));
 
-        const result = await confluenceUtil.getUser('999');
+        const result = await confluenceUtil.copyPage('1', {});
 
-        expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: User not found');
+        expect(result).toEqual({ success: false, error: 'ERROR: Either parentId or spaceKey is required' });
       });
     });
 
-    describe('testConnection', () => {
-      it('should return connection success with user info', async () => {
-        const mockUser = { displayName: 'Test User', email: 'test@test.com' };
-        mockClient.users.getCurrentUser.mockResolvedValue(mockUser);
+    describe('reorderChildren', () => {
+      it('should report the number of moved pages', async () => {
+        vi.mocked(reorderChildren).mockResolvedValue(2);
 
-        const result = await confluenceUtil.testConnection();
+        const result = await confluenceUtil.reorderChildren('1', ['3', '2']);
 
-        expect(mockClient.users.getCurrentUser).toHaveBeenCalled();
-        expect(result.success).toBe(true);
-        expect(result.data).toEqual({ currentUser: mockUser });
-        expect(result.result).toContain('Connection successful!');
-        expect(result.result).toContain('Test User');
-        expect(result.result).toContain('test@test.com');
+        expect(reorderChildren).toHaveBeenCalledWith(mockClient, '1', ['3', '2']);
+        expect(result.result).toBe('Reordered the children of page 1 (2 moved)');
       });
 
-      it('should return error on connection failure', async () => {
-        mockClient.users.getCurrentUser.mockRejectedValue(new Error('Auth failed'));
+      it('should report children already in order', async () => {
+        vi.mocked(reorderChildren).mockResolvedValue(0);
 
-        const result = await confluenceUtil.testConnection();
+        const result = await confluenceUtil.reorderChildren('1', ['2']);
 
-        expect(result.success).toBe(false);
-        expect(result.error).toBe('ERROR: Auth failed');
+        expect(result.result).toBe('Children of page 1 are already in order');
       });
     });
 
-    describe('clearClients', () => {
+    describe('listVersions', () => {
+      it('should list the number, author, date and message of each version', async () => {
+        mockClient.contentVersions.getContentVersions.mockResolvedValue({
+          results: [
+            {
+              number: 2,
+              by: { displayName: 'Ada' },
+              when: '2026-01-02T10:00:00Z',
+              message: 'Fix typos',
+              minorEdit: true,
+            },
+            { number: 1, by: { displayName: 'Bob' }, when: '2026-01-01T10:00:00Z', message: '', minorEdit: false },
+          ],
+        });
+
+        const result = await confluenceUtil.listVersions('123', 10, 0);
+
+        expect(mockClient.contentVersions.getContentVersions).toHaveBeenCalledWith({ id: '123', start: 0, limit: 10 });
+        expect(result.data).toEqual([
+          { number: 2, author: 'Ada', date: '2026-01-02T10:00:00Z', message: 'Fix typos', minorEdit: true },
+          { number: 1, author: 'Bob', date: '2026-01-01T10:00:00Z', message: undefined, minorEdit: false },
+        ]);
+      });
+
+      it('should return error on API failure', async () => {
+        mockClient.contentVersions.getContentVersions.mockRejectedValue(new Error('Not found'));
+
+        const result = await confluenceUtil.listVersions('123');
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Not found' });
+      });
+    });
+
+    describe('diffPage', () => {
+      const versions: Record<number, string> = {
+        3: '<h1>Guide</h1><p>Install the old tool</p>',
+        4: '<h1>Guide</h1><p>Install the new tool</p><p>Done</p>',
+      };
+
+      beforeEach(() => {
+        mockClient.content.getContentById.mockImplementation(async ({ version = 4 }: { version?: number }) => ({
+          title: 'Guide',
+          version: { number: version },
+          body: { storage: { value: versions[version] } },
+        }));
+      });
+
+      it('should diff the current version with the one before it', async () => {
+        const result = await confluenceUtil.diffPage('123');
+
+        expect(mockClient.content.getContentById).toHaveBeenCalledWith({
+          id: '123',
+          expand: ['body.storage', 'version'],
+          version: 3,
+        });
+        expect(result.result).toBe(
+          [
+            '--- Guide (version 3)',
+            '+++ Guide (version 4)',
+            '@@ -1,2 +1,3 @@',
+            ' <h1>Guide</h1>',
+            '-<p>Install the old tool</p>',
+            '+<p>Install the new tool</p>',
+            '+<p>Done</p>',
+          ].join('\n')
+        );
+      });
+
+      it('should mark changed words in the Markdown rendering', async () => {
+        const result = await confluenceUtil.diffPage('123', 3, 4, undefined, 'word', 'markdown');
+
+        expect(result.result).toBe(
+          ['--- Guide (version 3)', '+++ Guide (version 4)', 'Install the [-old-]{+new+} tool', '{+Done+}'].join('\n')
+        );
+      });
+
+      it('should compare a version with a local Markdown file', async () => {
+        vi.mocked(fs.readFileSync).mockReturnValue('---\npageId: "123"\n---\n\n# Guide\n\nInstall the new tool\n');
+
+        const result = await confluenceUtil.diffPage('123', 3, undefined, 'guide.md');
+
+        expect(result.result).toBe(
+          [
+            '--- Guide (version 3)',
+            '+++ guide.md',
+            '@@ -1,3 +1,3 @@',
+            ' # Guide',
+            ' ',
+            '-Install the old tool',
+            '+Install the new tool',
+          ].join('\n')
+        );
+      });
+
+      it('should report a local storage file equal to the page', async () => {
+        vi.mocked(fs.readFileSync).mockReturnValue(versions[4]);
+
+        const result = await confluenceUtil.diffPage('123', undefined, undefined, 'guide.html');
+
+        expect(result.result).toBe('No differences.');
+      });
+
+      it('should render a local storage file as Markdown', async () => {
+        vi.mocked(fs.readFileSync).mockReturnValue('<h1>Guide</h1>\n<p>Install the new tool</p>\n');
+
+        const result = await confluenceUtil.diffPage('123', undefined, undefined, 'guide.html', 'line', 'markdown');
+
+        expect(result.result).toBe(
+          [
+            '--- Guide (version 4)',
+            '+++ guide.html',
+            '@@ -1,5 +1,3 @@',
+            ' # Guide',
+            ' ',
+            ' Install the new tool',
+            '-',
+            '-Done',
+          ].join('\n')
+        );
+      });
+
+      it('should report identical versions', async () => {
+        const result = await confluenceUtil.diffPage('123', 4, 4);
+
+        expect(result.result).toBe('No differences.');
+      });
+
+      it('should need an earlier version', async () => {
+        const result = await confluenceUtil.diffPage('123', undefined, 1);
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Page 123 has no version before 1' });
+      });
+    });
+
+    describe('restoreVersion', () => {
+      it('should restore the version as a new version', async () => {
+        mockClient.contentVersions.restoreContentVersion.mockResolvedValue({ number: 6 });
+
+        const result = await confluenceUtil.restoreVersion('123', 3);
+
+        expect(mockClient.contentVersions.restoreContentVersion).toHaveBeenCalledWith({
+          id: '123',
+          operationKey: 'restore',
+          params: { versionNumber: 3, message: 'Restored version 3' },
+        });
+        expect(result.result).toBe('Page 123 restored from version 3 as version 6');
+      });
+
+      it('should return error on API failure', async () => {
+        mockClient.contentVersions.restoreContentVersion.mockRejectedValue(new Error('Version not found'));
+
+        const result = await confluenceUtil.restoreVersion('123', 99, 'Revert');
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Version not found' });
+      });
+    });
+
+    describe('createPage', () => {
+      it('should create page without parent', async () => {
+        const mockResponse = { id: '456', title: 'New Page' };
+        mockClient.content.createContent.mockResolvedValue(mockResponse);
+
+        const result = await confluenceUtil.createPage('DOCS', 'New Page', '<p>Content</p>', undefined, 'json');
+
+        expect(mockClient.content.createContent).toHaveBeenCalledWith({
+          type: 'page',
+          title: 'New Page',
+          space: { key: 'DOCS' },
+          body: {
+            storage: {
+              value: '<p>Content</p>',
+              representation: 'storage',
+            },
+          },
+        });
+        expect(result.success).toBe(true);
+        expect(result.data).toBe(mockResponse);
+      });
+
+      it('should create page with parent', async () => {
+        const mockResponse = { id: '789' };
+        mockClient.content.createContent.mockResolvedValue(mockResponse);
+
+        await confluenceUtil.createPage('DOCS', 'Child Page', '<p>Child</p>', '123', 'json');
+
+        expect(mockClient.content.createContent).toHaveBeenCalledWith({
+          type: 'page',
+          title: 'Child Page',
+          space: { key: 'DOCS' },
+          body: {
+            storage: {
+              value: '<p>Child</p>',
+              representation: 'storage',
+            },
+          },
+          ancestors: [{ id: '123' }],
+        });
+      });
+
+      it('should convert a Markdown body to storage format', async () => {
+        mockClient.content.createContent.mockResolvedValue({ id: '456' });
+
+        await confluenceUtil.createPage(
+          'DOCS',
+          'New Page',
+          '# Hello\n\nSome **bold** text',
+          undefined,
+          'json',
+          'markdown'
+        );
+
+        expect(mockClient.content.createContent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            body: {
+              storage: {
+                value: '<h1>Hello</h1>\n<p>Some <strong>bold</strong> text</p>',
+                representation: 'storage',
+              },
+            },
+          })
+        );
+      });
+
+      it('should return error on API failure', async () => {
+        mockClient.content.createContent.mockRejectedValue(new Error('Permission denied'));
+
+        const result = await confluenceUtil.createPage('DOCS', 'New Page', '<p>Content</p>');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: Permission denied');
+      });
+    });
+
+    describe('blog posts', () => {
+      it('should list blog posts by space and date range, newest first', async () => {
+        mockClient.content.searchContentByCQL.mockResolvedValue({
+          results: [
+            {
+              id: '9',
+              title: 'Week 2',
+              space: { key: 'TEAM' },
+              history: { createdDate: '2026-01-12T09:00:00.000Z', createdBy: { displayName: 'Ada' } },
+            },
+          ],
+        });
+
+        const result = await confluenceUtil.listBlogPosts('TEAM', '2026-01-01', '2026-02-01', 10);
+
+        expect(mockClient.content.searchContentByCQL).toHaveBeenCalledWith({
+          cql:
+            'type = "blogpost" AND space = "TEAM" AND created >= "2026-01-01" AND created < "2026-02-01" ' +
+            'ORDER BY created DESC',
+          limit: 10,
+          expand: ['space', 'history'],
+        });
+        expect(result.data).toEqual([
+          { id: '9', title: 'Week 2', spaceKey: 'TEAM', created: '2026-01-12T09:00:00.000Z', author: 'Ada' },
+        ]);
+      });
+
+      it('should reject an invalid date', async () => {
+        const result = await confluenceUtil.listBlogPosts('TEAM', 'last week');
+
+        expect(result.success).toBe(false);
+        expect(mockClient.content.searchContentByCQL).not.toHaveBeenCalled();
+      });
+
+      it('should create a blog post from Markdown', async () => {
+        mockClient.content.createContent.mockResolvedValue({ id: '10', title: 'Week 3' });
+
+        const result = await confluenceUtil.createBlogPost('TEAM', 'Week 3', '**Shipped**', 'json', 'markdown');
+
+        expect(mockClient.content.createContent).toHaveBeenCalledWith({
+          type: 'blogpost',
+          title: 'Week 3',
+          space: { key: 'TEAM' },
+          body: { storage: { value: '<p><strong>Shipped</strong></p>', representation: 'storage' } },
+        });
+        expect(result.data).toEqual({ id: '10', title: 'Week 3' });
+      });
+
+      it('should update a blog post at its current version', async () => {
+        mockClient.content.getContentById.mockResolvedValue({ version: { number: 2 } });
+        mockClient.content.updateContent.mockResolvedValue({});
+
+        const result = await confluenceUtil.updateBlogPost('10', 'Week 3', '<p>Shipped</p>');
+
+        expect(mockClient.content.updateContent).toHaveBeenCalledWith(
+          expect.objectContaining({ id: '10', type: 'blogpost', version: { number: 3 } })
+        );
+        expect(result.result).toBe('Blog post 10 updated successfully!');
+      });
+
+      it('should name the blog post in version conflicts', async () => {
+        mockClient.content.getContentById.mockResolvedValue({ version: { number: 4 } });
+
+        const result = await confluenceUtil.updateBlogPost('10', 'Week 3', '<p>Shipped</p>', undefined, 'storage', {
+          expectedVersion: 2,
+        });
+
+        expect(result.error).toBe('ERROR: Version conflict: blog post 10 is at version 4, expected 2');
+      });
+    });
+
+    describe('updatePage', () => {
+      it('should update page with new version', async () => {
+        mockClient.content.updateContent.mockResolvedValue({});
+
+        const result = await confluenceUtil.updatePage('123', 'Updated Title', '<p>New Content</p>', 1);
+
+        expect(mockClient.content.updateContent).toHaveBeenCalledWith({
+          id: '123',
+          type: 'page',
+          body: {
+            storage: {
+              value: '<p>New Content</p>',
+              representation: 'storage',
+            },
+          },
+          title: 'Updated Title',
+          version: { number: 2 },
+        });
+        expect(result.success).toBe(true);
+        expect(result.result).toBe('Page 123 updated successfully!');
+      });
+
+      it('should increment version number', async () => {
+        mockClient.content.updateContent.mockResolvedValue({});
+
+        await confluenceUtil.updatePage('123', 'Title', 'Body', 5);
+
+        expect(mockClient.content.updateContent).toHaveBeenCalledWith(
+          expect.objectContaining({ version: { number: 6 } })
+        );
+      });
+
+      it('should convert a Markdown body to storage format', async () => {
+        mockClient.content.updateContent.mockResolvedValue({});
+
+        await confluenceUtil.updatePage('123', 'Title', '- [x] done', 1, 'markdown');
+
+        expect(mockClient.content.updateContent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            body: {
+              storage: {
+                value:
+                  '<ac:task-list><ac:task><ac:task-status>complete</ac:task-status><ac:task-body>done</ac:task-body></ac:task></ac:task-list>',
+                representation: 'storage',
+              },
+            },
+          })
+        );
+      });
+
+      it('should fetch the current version when none is given', async () => {
+        mockClient.content.getContentById.mockResolvedValue({ version: { number: 7 } });
+        mockClient.content.updateContent.mockResolvedValue({});
+
+        const result = await confluenceUtil.updatePage('123', 'Title', 'Body', undefined, 'storage', {
+          versionMessage: 'Fix typos',
+          minorEdit: true,
+        });
+
+        expect(mockClient.content.getContentById).toHaveBeenCalledWith({ id: '123', expand: ['version'] });
+        expect(mockClient.content.updateContent).toHaveBeenCalledWith(
+          expect.objectContaining({ version: { number: 8, message: 'Fix typos', minorEdit: true } })
+        );
+        expect(result.data).toEqual({ id: '123', version: 8 });
+      });
+
+      it('should refuse to update a page that is not at the expected version', async () => {
+        mockClient.content.getContentById.mockResolvedValue({ version: { number: 7 } });
+
+        const result = await confluenceUtil.updatePage('123', 'Title', 'Body', undefined, 'storage', {
+          expectedVersion: 6,
+        });
+
+        expect(result).toEqual({
+          success: false,
+          error: 'ERROR: Version conflict: page 123 is at version 7, expected 6',
+        });
+        expect(mockClient.content.updateContent).not.toHaveBeenCalled();
+      });
+
+      it('should retry with the new version when the page changes during the update', async () => {
+        mockClient.content.getContentById
+          .mockResolvedValueOnce({ version: { number: 7 } })
+          .mockResolvedValueOnce({ version: { number: 8 } });
+        mockClient.content.updateContent.mockRejectedValueOnce({ statusCode: 409 }).mockResolvedValueOnce({});
+
+        const result = await confluenceUtil.updatePage('123', 'Title', 'Body', undefined, 'storage', { retries: 1 });
+
+        expect(mockClient.content.updateContent).toHaveBeenLastCalledWith(
+          expect.objectContaining({ version: { number: 9 } })
+        );
+        expect(result.success).toBe(true);
+      });
+
+      it('should report a conflict when a given version is stale', async () => {
+        mockClient.content.updateContent.mockRejectedValue({ statusCode: 409 });
+
+        const result = await confluenceUtil.updatePage('123', 'Title', 'Body', 3, 'storage', { retries: 2 });
+
+        expect(result.error).toBe('ERROR: Version conflict: page 123 was changed since version 3');
+        expect(mockClient.content.updateContent).toHaveBeenCalledTimes(1);
+      });
+
+      it('should return error on API failure', async () => {
+        mockClient.content.updateContent.mockRejectedValue(new Error('Version conflict'));
+
+        const result = await confluenceUtil.updatePage('123', 'Title', 'Body', 1);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: Version conflict');
+      });
+    });
+
+    describe('editPage', () => {
+      it('should apply the edit to the current body and save the next version', async () => {
+        mockClient.content.getContentById.mockResolvedValue({
+          title: 'Changelog',
+          version: { number: 4 },
+          body: { storage: { value: '<h2>2.0</h2><p>Old</p>' } },
+        });
+        mockClient.content.updateContent.mockResolvedValue({});
+
+        const result = await confluenceUtil.editPage(
+          '123',
+          { operation: 'insert-after-heading', heading: '2.0', content: '- Fixed login' },
+          'markdown',
+          { versionMessage: 'Add entry' }
+        );
+
+        expect(mockClient.content.getContentById).toHaveBeenCalledWith({
+          id: '123',
+          expand: ['version', 'body.storage'],
+        });
+        expect(mockClient.content.updateContent).toHaveBeenCalledWith({
+          id: '123',
+          type: 'page',
+          title: 'Changelog',
+          body: {
+            storage: { value: '<h2>2.0</h2><ul>\n<li>Fixed login</li>\n</ul><p>Old</p>', representation: 'storage' },
+          },
+          version: { number: 5, message: 'Add entry' },
+        });
+        expect(result).toMatchObject({ success: true, result: 'Page 123 updated to version 5 (insert-after-heading)' });
+      });
+
+      it('should rebuild the edit from the page saved in the meantime', async () => {
+        mockClient.content.getContentById
+          .mockResolvedValueOnce({ title: 'Log', version: { number: 4 }, body: { storage: { value: '<p>a</p>' } } })
+          .mockResolvedValueOnce({ title: 'Log', version: { number: 5 }, body: { storage: { value: '<p>b</p>' } } });
+        mockClient.content.updateContent.mockRejectedValueOnce({ statusCode: 409 }).mockResolvedValueOnce({});
+
+        await confluenceUtil.editPage('123', { operation: 'append', content: '<p>c</p>' }, 'storage', { retries: 1 });
+
+        expect(mockClient.content.updateContent).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            body: { storage: { value: '<p>b</p><p>c</p>', representation: 'storage' } },
+            version: { number: 6 },
+          })
+        );
+      });
+
+      it('should return an error when the edit does not apply', async () => {
+        mockClient.content.getContentById.mockResolvedValue({
+          title: 'Log',
+          version: { number: 4 },
+          body: { storage: { value: '<p>a</p>' } },
+        });
+
+        const result = await confluenceUtil.editPage('123', { operation: 'find-replace', find: 'zzz' });
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Pattern not found: zzz' });
+        expect(mockClient.content.updateContent).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('replace', () => {
+      const page = (id: string, version: number) => ({
+        id,
+        title: `Page ${id}`,
+        version: { number: version },
+        body: { storage: { value: '<p>billing-api</p>' } },
+      });
+
+      beforeEach(() => {
+        mockClient.content.searchContentByCQL.mockResolvedValue({ results: [page('1', 3), page('2', 7)] });
+      });
+
+      it('should preview the replacements of a dry run', async () => {
+        const result = await confluenceUtil.replace(
+          { spaceKey: 'DOCS' },
+          { find: 'billing-api', replace: 'payments-api' }
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.result).toBe(
+          [
+            'Plan: replace "billing-api" with "payments-api" in 2 page(s) matching type=page AND space="DOCS"',
+            '~ 1 "Page 1" (version 3): 1 replacement(s)',
+            '    - …<p>billing-api</p>…',
+            '    + …<p>payments-api</p>…',
+            '~ 2 "Page 2" (version 7): 1 replacement(s)',
+            '    - …<p>billing-api</p>…',
+            '    + …<p>payments-api</p>…',
+            '',
+            'Dry run: nothing was changed. Replace with dryRun set to false to apply it.',
+          ].join('\n')
+        );
+        expect(mockClient.content.updateContent).not.toHaveBeenCalled();
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should update each page on top of the version it was read at and write a report', async () => {
+        mockClient.content.updateContent.mockResolvedValue({});
+
+        const result = await confluenceUtil.replace(
+          { label: 'billing' },
+          { find: 'billing-api', replace: 'payments-api' },
+          { dryRun: false, batchSize: 1, reportFile: 'report.json', versionMessage: 'Rename service' }
+        );
+
+        expect(mockClient.content.updateContent).toHaveBeenCalledWith({
+          id: '2',
+          type: 'page',
+          title: 'Page 2',
+          body: { storage: { value: '<p>payments-api</p>', representation: 'storage' } },
+          version: { number: 8, message: 'Rename service' },
+        });
+        expect(result.success).toBe(true);
+        expect(result.result).toMatch(/\nUpdated 2 page\(s\), 0 failed\. Report: report\.json$/);
+        const [file, content] = vi.mocked(fs.writeFileSync).mock.calls[0];
+        expect(file).toBe('report.json');
+        expect(JSON.parse(content as string)).toEqual({
+          cql: 'type=page AND label="billing"',
+          find: 'billing-api',
+          replace: 'payments-api',
+          regex: false,
+          pages: [
+            { pageId: '1', title: 'Page 1', replacements: 1, oldVersion: 3, newVersion: 4 },
+            { pageId: '2', title: 'Page 2', replacements: 1, oldVersion: 7, newVersion: 8 },
+          ],
+        });
+      });
+
+      it('should report pages that could not be updated', async () => {
+        mockClient.content.updateContent.mockResolvedValueOnce({}).mockRejectedValueOnce({ statusCode: 409 });
+
+        const result = await confluenceUtil.replace(
+          { label: 'billing' },
+          { find: 'billing-api', replace: 'payments-api' },
+          { dryRun: false, reportFile: 'report.json' }
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/^ERROR: 1 page\(s\) could not be updated\n/);
+        expect(result.error).toContain('! 2 "Page 2": Version conflict: page 2 was changed since version 7');
+        expect(result.error).toContain('Updated 1 page(s), 1 failed. Report: report.json');
+      });
+
+      it('should require a scope', async () => {
+        const result = await confluenceUtil.replace({}, { find: 'a', replace: 'b' });
+
+        expect(result).toEqual({
+          success: false,
+          error: 'ERROR: One of cql, spaceKey, label or ancestorId is required',
+        });
+      });
+    });
+
+    describe('addComment', () => {
+      it('should add comment to page', async () => {
+        const mockPage = { space: { key: 'DOCS' } };
+        const mockComment = { id: '999' };
+        mockClient.content.getContentById.mockResolvedValue(mockPage);
+        mockClient.content.createContent.mockResolvedValue(mockComment);
+
+        const result = await confluenceUtil.addComment('123', '<p>Comment</p>', 'json');
+
+        expect(mockClient.content.getContentById).toHaveBeenCalledWith({
+          id: '123',
+          expand: ['space'],
+        });
+        expect(mockClient.content.createContent).toHaveBeenCalledWith({
+          type: 'comment',
+          container: { id: '123', type: 'page' },
+          title: '',
+          space: { key: 'DOCS' },
+          body: {
+            storage: {
+              value: '<p>Comment</p>',
+              representation: 'storage',
+            },
+          },
+        });
+        expect(result.success).toBe(true);
+        expect(result.data).toBe(mockComment);
+      });
+
+      it('should return error on API failure', async () => {
+        mockClient.content.getContentById.mockRejectedValue(new Error('Page not found'));
+
+        const result = await confluenceUtil.addComment('999', '<p>Comment</p>');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: Page not found');
+      });
+    });
+
+    describe('deletePage', () => {
+      it('should delete page successfully', async () => {
+        mockClient.content.deleteContent.mockResolvedValue({});
+
+        const result = await confluenceUtil.deletePage('123');
+
+        expect(mockClient.content.deleteContent).toHaveBeenCalledWith({ id: '123' });
+        expect(result.success).toBe(true);
+        expect(result.result).toBe('Page 123 deleted successfully!');
+      });
+
+      it('should return error on API failure', async () => {
+        mockClient.content.deleteContent.mockRejectedValue(new Error('Delete failed'));
+
+        const result = await confluenceUtil.deletePage('123');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: Delete failed');
+      });
+    });
+
+    describe('listLabels', () => {
+      it('should list the name and prefix of each label', async () => {
+        mockClient.contentLabels.getLabelsForContent.mockResolvedValue({
+          results: [{ id: '9', name: 'runbook', prefix: 'global', label: 'runbook' }],
+        });
+
+        const result = await confluenceUtil.listLabels('123');
+
+        expect(mockClient.contentLabels.getLabelsForContent).toHaveBeenCalledWith({ id: '123', start: 0, limit: 100 });
+        expect(result.data).toEqual([{ name: 'runbook', prefix: 'global' }]);
+      });
+    });
+
+    describe('addLabels', () => {
+      it('should add labels to a page', async () => {
+        const result = await confluenceUtil.addLabels({ pageId: '123' }, ['runbook', 'ops']);
+
+        expect(mockClient.contentLabels.addLabelsToContent).toHaveBeenCalledWith({
+          id: '123',
+          body: [
+            { prefix: 'global', name: 'runbook' },
+            { prefix: 'global', name: 'ops' },
+          ],
+        });
+        expect(result.result).toBe('Added labels runbook, ops to page 123');
+      });
+
+      it('should add labels to every page matching a query', async () => {
+        mockClient.content.searchContentByCQL.mockResolvedValue({
+          results: [
+            { id: '1', title: 'Restart the API' },
+            { id: '2', title: 'Rotate keys' },
+          ],
+        });
+
+        const result = await confluenceUtil.addLabels({ cql: 'space=OPS AND title~"runbook"' }, ['runbook']);
+
+        expect(mockClient.content.searchContentByCQL).toHaveBeenCalledWith(
+          expect.objectContaining({ cql: 'space=OPS AND title~"runbook"' })
+        );
+        expect(mockClient.contentLabels.addLabelsToContent).toHaveBeenCalledTimes(2);
+        expect(result.result).toBe(
+          ['Added labels runbook to 2 page(s)', '  1 "Restart the API"', '  2 "Rotate keys"'].join('\n')
+        );
+      });
+
+      it('should require exactly one of pageId and cql', async () => {
+        expect(await confluenceUtil.addLabels({}, ['a'])).toEqual({
+          success: false,
+          error: 'ERROR: Either pageId or cql is required',
+        });
+        expect(await confluenceUtil.addLabels({ pageId: '1', cql: 'type=page' }, ['a'])).toEqual({
+          success: false,
+          error: 'ERROR: Give either pageId or cql, not both',
+        });
+        expect(await confluenceUtil.addLabels({ pageId: '1' }, [])).toEqual({
+          success: false,
+          error: 'ERROR: At least one label is required',
+        });
+      });
+    });
+
+    describe('removeLabels', () => {
+      it('should remove labels from a page', async () => {
+        const result = await confluenceUtil.removeLabels({ pageId: '123' }, ['draft']);
+
+        expect(mockClient.contentLabels.removeLabelFromContentUsingQueryParameter).toHaveBeenCalledWith({
+          id: '123',
+          name: 'draft',
+        });
+        expect(result.result).toBe('Removed labels draft from page 123');
+      });
+
+      it('should fail when a page does not have the label', async () => {
+        mockClient.contentLabels.removeLabelFromContentUsingQueryParameter.mockRejectedValue({ statusCode: 404 });
+
+        const result = await confluenceUtil.removeLabels({ pageId: '123' }, ['draft']);
+
+        expect(result.success).toBe(false);
+      });
+
+      it('should skip labels missing from pages matching a query', async () => {
+        mockClient.content.searchContentByCQL.mockResolvedValue({ results: [{ id: '1', title: 'Old' }] });
+        mockClient.contentLabels.removeLabelFromContentUsingQueryParameter
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValueOnce({ statusCode: 404 });
+
+        const result = await confluenceUtil.removeLabels({ cql: 'space=OPS' }, ['draft', 'wip']);
+
+        expect(mockClient.content.searchContentByCQL).toHaveBeenCalledWith(
+          expect.objectContaining({ cql: '(space=OPS) AND label in ("draft", "wip")' })
+        );
+        expect(result.result).toBe(['Removed labels draft, wip from 1 page(s)', '  1 "Old"'].join('\n'));
+      });
+    });
+
+    describe('getUser', () => {
+      it('should get user by accountId', async () => {
+        const mockUser = { accountId: '123', displayName: 'Test User' };
+        mockClient.users.getUser.mockResolvedValue(mockUser);
+
+        const result = await confluenceUtil.getUser('123', undefined, 'json');
+
+        expect(mockClient.users.getUser).toHaveBeenCalledWith({ accountId: '123' });
+        expect(result.success).toBe(true);
+        expect(result.data).toBe(mockUser);
+      });
+
+      it('should search user by username', async () => {
+        const mockUser = { displayName: 'Test User' };
+        mockClient.search.searchUser.mockResolvedValue({ results: [mockUser] });
+
+        const result = await confluenceUtil.getUser(undefined, 'testuser', 'json');
+
+        expect(mockClient.search.searchUser).toHaveBeenCalledWith({
+          cql: 'user.fullname~"testuser"',
+          limit: 1,
+        });
+        expect(result.success).toBe(true);
+        expect(result.data).toBe(mockUser);
+      });
+
+      it('should escape quotes in the username', async () => {
+        mockClient.search.searchUser.mockResolvedValue({ results: [{ displayName: 'Dwayne' }] });
+
+        await confluenceUtil.getUser(undefined, 'Dwayne "The Rock"');
+
+        expect(mockClient.search.searchUser).toHaveBeenCalledWith({
+          cql: 'user.fullname~"Dwayne \\"The Rock\\""',
+          limit: 1,
+        });
+      });
+
+      it('should return error if user not found by username', async () => {
+        mockClient.search.searchUser.mockResolvedValue({ results: [] });
+
+        const result = await confluenceUtil.getUser(undefined, 'nonexistent');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: User "nonexistent" not found');
+      });
+
+      it('should get current user when no parameters provided', async () => {
+        const mockUser = { displayName: 'Current User', email: 'current@test.com' };
+        mockClient.users.getCurrentUser.mockResolvedValue(mockUser);
+
+        const result = await confluenceUtil.getUser(undefined, undefined, 'json');
+
+        expect(mockClient.users.getCurrentUser).toHaveBeenCalled();
+        expect(result.success).toBe(true);
+        expect(result.data).toBe(mockUser);
+      });
+
+      it('should return error on API failure', async () => {
+        mockClient.users.getUser.mockRejectedValue(new Error('User not found'));
+
+        const result = await confluenceUtil.getUser('999');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: User not found');
+      });
+    });
+
+    describe('testConnection', () => {
+      it('should return connection success with user info', async () => {
+        const mockUser = { displayName: 'Test User', email: 'test@test.com' };
+        mockClient.users.getCurrentUser.mockResolvedValue(mockUser);
+
+        const result = await confluenceUtil.testConnection();
+
+        expect(mockClient.users.getCurrentUser).toHaveBeenCalled();
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ currentUser: mockUser, authType: 'basic' });
+        expect(result.result).toContain('Connection successful!');
+        expect(result.result).toContain('Test User');
+        expect(result.result).toContain('test@test.com');
+        expect(result.result).toContain('Authentication: basic (email + API token)');
+      });
+
+      it('should report bearer auth and omit a missing email', async () => {
+        mockClient.users.getCurrentUser.mockResolvedValue({ displayName: 'DC User' });
+        const patUtil = new ConfluenceUtil({ ...mockConfig, authType: 'pat', email: undefined });
+
+        const result = await patUtil.testConnection();
+
+        expect(result.result).toContain('Logged in as: DC User\n');
+        expect(result.result).toContain('Authentication: personal access token (Bearer)');
+      });
+
+      it('should return error on connection failure', async () => {
+        mockClient.users.getCurrentUser.mockRejectedValue(new Error('Auth failed'));
+
+        const result = await confluenceUtil.testConnection();
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: Auth failed\nAuthentication: basic (email + API token)');
+      });
+    });
+
+    describe('clearClients', () => {
       it('should clear client', () => {
         vi.mocked(configLoaderModule.getConfluenceClientOptions).mockReturnValue({
           host: 'https://test.atlassian.net',
@@ -661,6 +1683,290 @@ describe('confluence-utils', () => {
       });
     });
 
+    describe('pull', () => {
+      it('should summarize the pulled pages', async () => {
+        vi.mocked(pullPages).mockResolvedValue([
+          { id: '1', title: 'Home', version: 3, path: 'docs/home.md', attachments: 2 },
+          { id: '2', title: 'FAQ', version: 1, path: 'docs/home/faq.md', attachments: 0 },
+        ]);
+
+        const result = await confluenceUtil.pull(undefined, '1', 'docs');
+
+        expect(pullPages).toHaveBeenCalledWith(expect.anything(), {
+          spaceKey: undefined,
+          rootPageId: '1',
+          outputDir: 'docs',
+          force: false,
+        });
+        expect(result.success).toBe(true);
+        expect(result.result).toBe(
+          'Pulled 2 page(s) and 2 attachment(s) into docs\n- docs/home.md (1, version 3)\n- docs/home/faq.md (2, version 1)'
+        );
+      });
+
+      it('should require a space key or page ID', async () => {
+        const result = await confluenceUtil.pull(undefined, undefined, 'docs');
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Either spaceKey or pageId is required' });
+        expect(pullPages).not.toHaveBeenCalled();
+      });
+
+      it('should handle errors', async () => {
+        vi.mocked(pullPages).mockRejectedValue(new Error('Space not found'));
+
+        const result = await confluenceUtil.pull('NOPE', undefined, 'docs');
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Space not found' });
+      });
+    });
+
+    describe('push', () => {
+      const plan = {
+        spaceKey: 'DOCS',
+        parentId: '100',
+        pages: [
+          { action: 'create' as const, title: 'Guide', path: 'docs/guide.md', attachments: ['docs/a.png'] },
+          { action: 'update' as const, title: 'FAQ', path: 'docs/faq.md', pageId: '42', attachments: [] },
+          { action: 'unchanged' as const, title: 'API', path: 'docs/api', pageId: '43', attachments: [] },
+        ],
+        warnings: ['docs/faq.md: image not found: b.png'],
+        applied: false,
+      };
+
+      it('should report the plan of a dry run', async () => {
+        vi.mocked(pushPages).mockResolvedValue(plan);
+
+        const result = await confluenceUtil.push('docs', '100');
+
+        expect(pushPages).toHaveBeenCalledWith(expect.anything(), {
+          sourceDir: 'docs',
+          parentId: '100',
+          dryRun: true,
+          force: false,
+        });
+        expect(result.success).toBe(true);
+        expect(result.result).toBe(
+          [
+            'Plan: push docs to page 100 in space DOCS',
+            '+ create    docs/guide.md "Guide" with 1 attachment(s)',
+            '~ update    docs/faq.md "FAQ" (42)',
+            '  unchanged docs/api "API" (43)',
+            '',
+            'Warnings:',
+            '  - docs/faq.md: image not found: b.png',
+            '',
+            '1 to create, 1 to update, 1 unchanged',
+            'Dry run: nothing was changed. Push with dryRun set to false to apply it.',
+          ].join('\n')
+        );
+      });
+
+      it('should confirm an applied push', async () => {
+        vi.mocked(pushPages).mockResolvedValue({ ...plan, warnings: [], applied: true });
+
+        const result = await confluenceUtil.push('docs', '100', false);
+
+        expect(pushPages).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ dryRun: false }));
+
+        expect(result.result).toMatch(/\nPush complete\.$/);
+      });
+
+      it('should refuse a push with pages changed in Confluence', async () => {
+        vi.mocked(pushPages).mockResolvedValue({
+          ...plan,
+          pages: [
+            {
+              action: 'conflict' as const,
+              title: 'FAQ',
+              path: 'docs/faq.md',
+              pageId: '42',
+              attachments: [],
+              reason: 'changed in Confluence since version 2',
+            },
+          ],
+          warnings: [],
+        });
+
+        const result = await confluenceUtil.push('docs', '100', false);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/^ERROR: 1 page\(s\) are in conflict; nothing was changed\./);
+        expect(result.error).toContain('! conflict  docs/faq.md "FAQ" (42): changed in Confluence since version 2');
+      });
+
+      it('should handle errors', async () => {
+        vi.mocked(pushPages).mockRejectedValue(new Error('Directory not found: docs'));
+
+        const result = await confluenceUtil.push('docs', '100');
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Directory not found: docs' });
+      });
+    });
+
+    describe('syncStatus', () => {
+      it('should list the state of each page file', async () => {
+        vi.mocked(syncStatus).mockResolvedValue([
+          { path: 'docs/home.md', title: 'Home', pageId: '1', state: 'unchanged', localVersion: 3, remoteVersion: 3 },
+          {
+            path: 'docs/faq.md',
+            title: 'FAQ',
+            pageId: '2',
+            state: 'conflicted',
+            localVersion: 2,
+            remoteVersion: 4,
+          },
+          { path: 'docs/new.md', title: 'New', state: 'new' },
+        ]);
+
+        const result = await confluenceUtil.syncStatus('docs');
+
+        expect(result.success).toBe(true);
+        expect(result.result).toBe(
+          [
+            'Sync status of docs: 1 unchanged, 1 conflicted, 1 new',
+            '  unchanged         docs/home.md (1, version 3)',
+            '  conflicted        docs/faq.md (2, version 2 → 4)',
+            '  new               docs/new.md',
+          ].join('\n')
+        );
+      });
+
+      it('should handle errors', async () => {
+        vi.mocked(syncStatus).mockRejectedValue(new Error('Directory not found: docs'));
+
+        const result = await confluenceUtil.syncStatus('docs');
+
+        expect(result).toEqual({ success: false, error: 'ERROR: Directory not found: docs' });
+      });
+    });
+
+    describe('syncDiff', () => {
+      it('should join the patches', async () => {
+        vi.mocked(syncDiff).mockResolvedValue(['patch a', 'patch b']);
+
+        const result = await confluenceUtil.syncDiff('docs', 'docs/faq.md');
+
+        expect(syncDiff).toHaveBeenCalledWith(expect.anything(), 'docs', 'docs/faq.md');
+        expect(result.result).toBe('patch a\n\npatch b');
+      });
+
+      it('should report when nothing differs', async () => {
+        vi.mocked(syncDiff).mockResolvedValue([]);
+
+        const result = await confluenceUtil.syncDiff('docs');
+
+        expect(result.result).toBe('No differences.');
+      });
+    });
+
+    describe('listAttachments', () => {
+      it('should list attachments with their download links', async () => {
+        mockClient.contentAttachments.getAttachments.mockResolvedValue({
+          results: [
+            {
+              id: 'att1',
+              title: 'architecture.png',
+              extensions: { fileSize: 2048, mediaType: 'image/png' },
+              metadata: { mediaType: 'image/png', comment: 'Release 2.4' },
+              version: { number: 3 },
+              _links: { download: '/download/attachments/123/architecture.png?version=3' },
+            },
+          ],
+        });
+
+        const result = await confluenceUtil.listAttachments('123');
+
+        expect(mockClient.contentAttachments.getAttachments).toHaveBeenCalledWith({
+          id: '123',
+          expand: ['version'],
+          start: 0,
+          limit: 100,
+        });
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual([
+          {
+            id: 'att1',
+            title: 'architecture.png',
+            fileSize: 2048,
+            mediaType: 'image/png',
+            version: 3,
+            comment: 'Release 2.4',
+            downloadLink: 'https://test.atlassian.net/download/attachments/123/architecture.png?version=3',
+          },
+        ]);
+      });
+
+      it('should handle errors', async () => {
+        mockClient.contentAttachments.getAttachments.mockRejectedValue(new Error('Page not found'));
+
+        const result = await confluenceUtil.listAttachments('123');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: Page not found');
+      });
+    });
+
+    describe('uploadAttachments', () => {
+      it('should upload every matched file with the comment', async () => {
+        vi.mocked(expandFiles).mockReturnValue(['/ci/out/flow.png', '/ci/out/notes.pdf']);
+        vi.mocked(fs.readFileSync).mockReturnValue(Buffer.from('data'));
+        mockClient.contentAttachments.createOrUpdateAttachments.mockResolvedValue({
+          results: [
+            { id: 'att1', title: 'flow.png', version: { number: 2 } },
+            { id: 'att2', title: 'notes.pdf', version: { number: 1 } },
+          ],
+        });
+
+        const result = await confluenceUtil.uploadAttachments('123', ['out/*'], 'Release 2.4');
+
+        expect(expandFiles).toHaveBeenCalledWith(['out/*']);
+        expect(mockClient.contentAttachments.createOrUpdateAttachments).toHaveBeenCalledWith({
+          id: '123',
+          attachments: [
+            { file: Buffer.from('data'), filename: 'flow.png', minorEdit: false, comment: 'Release 2.4' },
+            { file: Buffer.from('data'), filename: 'notes.pdf', minorEdit: false, comment: 'Release 2.4' },
+          ],
+        });
+        expect(result.success).toBe(true);
+        expect(result.result).toBe(
+          'Uploaded 2 attachment(s) to page 123:\n  flow.png (att1, version 2)\n  notes.pdf (att2, version 1)'
+        );
+      });
+
+      it('should reject files with the same name', async () => {
+        vi.mocked(expandFiles).mockReturnValue(['/ci/a/flow.png', '/ci/b/flow.png']);
+
+        const result = await confluenceUtil.uploadAttachments('123', ['**/flow.png']);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: Two files are named flow.png: /ci/a/flow.png and /ci/b/flow.png');
+        expect(mockClient.contentAttachments.createOrUpdateAttachments).not.toHaveBeenCalled();
+      });
+
+      it('should report missing files', async () => {
+        vi.mocked(expandFiles).mockImplementationOnce(() => {
+          throw new Error('No files match: out/*.png');
+        });
+
+        const result = await confluenceUtil.uploadAttachments('123', ['out/*.png']);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('ERROR: No files match: out/*.png');
+      });
+    });
+
+    describe('deleteAttachment', () => {
+      it('should delete the attachment', async () => {
+        mockClient.content.deleteContent.mockResolvedValue(undefined);
+
+        const result = await confluenceUtil.deleteAttachment('att1');
+
+        expect(mockClient.content.deleteContent).toHaveBeenCalledWith({ id: 'att1' });
+        expect(result.success).toBe(true);
+        expect(result.result).toBe('Attachment att1 deleted successfully!');
+      });
+    });
+
     describe('downloadAttachment', () => {
       const mockBuffer = Buffer.alloc(16384); // 16KB buffer
 
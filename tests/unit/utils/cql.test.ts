@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { cqlString, nextCursor, searchCql } from '../../../src/utils/cql.js';
+
+describe('cql', () => {
+  describe('cqlString', () => {
+    it('should quote a value and escape quotes and backslashes', () => {
+      expect(cqlString('The "new" C:\\ drive')).toBe('"The \\"new\\" C:\\\\ drive"');
+    });
+  });
+
+  describe('searchCql', () => {
+    it('should combine the filters with AND', () => {
+      expect(
+        searchCql({
+          type: 'page',
+          spaceKey: 'DOCS',
+          label: 'runbook',
+          creator: 'abc123',
+          contributor: 'def456',
+          title: 'Restart',
+          text: 'rate limit',
+          modifiedAfter: '2025-01-01',
+          modifiedBefore: '2025-02-01 12:30',
+          cql: 'ancestor=123',
+        })
+      ).toBe(
+        'type = "page" AND space = "DOCS" AND label = "runbook" AND creator = "abc123" AND ' +
+          'contributor = "def456" AND title ~ "Restart" AND text ~ "rate limit" AND ' +
+          'lastmodified >= "2025-01-01" AND lastmodified < "2025-02-01 12:30" AND (ancestor=123)'
+      );
+    });
+
+    it('should filter by creation date', () => {
+      expect(searchCql({ type: 'blogpost', createdAfter: '2026-01-01', createdBefore: '2026-02-01' })).toBe(
+        'type = "blogpost" AND created >= "2026-01-01" AND created < "2026-02-01"'
+      );
+    });
+
+    it('should escape quotes in user input', () => {
+      expect(searchCql({ title: 'The "Quick" Guide' })).toBe('title ~ "The \\"Quick\\" Guide"');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => searchCql({ modifiedAfter: 'yesterday' })).toThrow(
+        'Invalid date "yesterday": use YYYY-MM-DD or YYYY-MM-DD HH:mm'
+      );
+    });
+
+    it('should require a query or a filter', () => {
+      expect(() => searchCql({})).toThrow('A cql query or at least one filter is required');
+    });
+  });
+
+  describe('nextCursor', () => {
+    it('should read the cursor from the next link', () => {
+      expect(nextCursor({ _links: { next: '/rest/api/search?cql=type%3Dpage&cursor=abc%3D&limit=25' } })).toBe('abc=');
+    });
+
+    it('should be undefined on the last page', () => {
+      expect(nextCursor({ _links: {} })).toBeUndefined();
+      expect(nextCursor({})).toBeUndefined();
+    });
+  });
+});
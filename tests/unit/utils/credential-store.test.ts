@@ -0,0 +1,58 @@
+import childProcess from 'child_process';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  runTokenCommand,
+  secretServiceLookupCommand,
+  storeSecretServiceToken,
+} from '../../../src/utils/credential-store.js';
+
+describe('credential-store', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('runTokenCommand', () => {
+    it('should return the trimmed stdout of the command', () => {
+      expect(runTokenCommand(`printf '  secret-token\\n'`)).toBe('secret-token');
+    });
+
+    it('should report the stderr of a failing command', () => {
+      expect(() => runTokenCommand('echo "no such entry" >&2; exit 3')).toThrow('token_command failed: no such entry');
+    });
+
+    it('should reject commands that print nothing', () => {
+      expect(() => runTokenCommand('true')).toThrow('token_command printed no token: true');
+    });
+  });
+
+  describe('secretServiceLookupCommand', () => {
+    it('should look the token up by profile', () => {
+      expect(secretServiceLookupCommand('staging')).toBe('secret-tool lookup service conni-cli profile staging');
+    });
+  });
+
+  describe('storeSecretServiceToken', () => {
+    it('should pass the token to secret-tool on stdin', () => {
+      const execSpy = vi.spyOn(childProcess, 'execFileSync').mockReturnValue(Buffer.from(''));
+
+      storeSecretServiceToken('default', 'my-token');
+
+      expect(execSpy).toHaveBeenCalledWith(
+        'secret-tool',
+        ['store', '--label', 'conni-cli (default)', 'service', 'conni-cli', 'profile', 'default'],
+        expect.objectContaining({ input: 'my-token' })
+      );
+    });
+
+    it('should explain failures', () => {
+      vi.spyOn(childProcess, 'execFileSync').mockImplementation(() => {
+        throw new Error('spawnSync secret-tool ENOENT');
+      });
+
+      expect(() => storeSecretServiceToken('default', 'my-token')).toThrow(
+        'Cannot store token in the Secret Service (is secret-tool installed?): spawnSync secret-tool ENOENT'
+      );
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { expandFiles } from '../../../src/utils/file-glob.js';
+
+describe('file-glob', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conni-glob-'));
+    for (const file of ['notes.pdf', 'diagrams/flow.png', 'diagrams/arch.png', 'diagrams/src/arch.drawio']) {
+      fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(tmpDir, file), 'data');
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('expandFiles', () => {
+    it('should resolve plain paths', () => {
+      expect(expandFiles(['notes.pdf'], tmpDir)).toEqual([path.join(tmpDir, 'notes.pdf')]);
+    });
+
+    it('should match a wildcard within one directory', () => {
+      expect(expandFiles(['diagrams/*.png'], tmpDir)).toEqual([
+        path.join(tmpDir, 'diagrams/arch.png'),
+        path.join(tmpDir, 'diagrams/flow.png'),
+      ]);
+    });
+
+    it('should match across directories with **', () => {
+      expect(expandFiles(['**/arch.*'], tmpDir)).toEqual([
+        path.join(tmpDir, 'diagrams/arch.png'),
+        path.join(tmpDir, 'diagrams/src/arch.drawio'),
+      ]);
+    });
+
+    it('should drop files matched more than once', () => {
+      expect(expandFiles(['diagrams/flow.png', 'diagrams/*.png'], tmpDir)).toEqual([
+        path.join(tmpDir, 'diagrams/flow.png'),
+        path.join(tmpDir, 'diagrams/arch.png'),
+      ]);
+    });
+
+    it('should reject missing files and patterns without matches', () => {
+      expect(() => expandFiles(['missing.pdf'], tmpDir)).toThrow('File not found: missing.pdf');
+      expect(() => expandFiles(['diagrams'], tmpDir)).toThrow('File not found: diagrams');
+      expect(() => expandFiles(['*.zip'], tmpDir)).toThrow('No files match: *.zip');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+import { formatPageFile, pageContentHash, parsePageFile, slugify } from '../../../src/utils/local-docs.js';
+
+describe('local-docs', () => {
+  describe('parsePageFile', () => {
+    it('should split front matter from the body', () => {
+      const { frontMatter, body } = parsePageFile(
+        '---\npageId: 123\ntitle: Setup\nversion: 4\nlabels: [guide, 2024]\nowner: docs-team\n---\n\n# Setup\n'
+      );
+
+      expect(frontMatter).toEqual({
+        pageId: '123',
+        title: 'Setup',
+        version: 4,
+        labels: ['guide', '2024'],
+        owner: 'docs-team',
+      });
+      expect(body).toBe('# Setup\n');
+    });
+
+    it('should treat a file without front matter as all body', () => {
+      expect(parsePageFile('# Title\n\n---\n')).toEqual({ frontMatter: {}, body: '# Title\n\n---\n' });
+    });
+
+    it('should accept empty front matter', () => {
+      expect(parsePageFile('---\n---\nBody')).toEqual({ frontMatter: {}, body: 'Body' });
+    });
+
+    it('should reject front matter that is not a mapping', () => {
+      expect(() => parsePageFile('---\n- a\n---\n')).toThrow('Invalid front matter: expected a mapping');
+      expect(() => parsePageFile('---\ntitle: [a\n---\n')).toThrow(/^Invalid front matter:/);
+    });
+  });
+
+  describe('formatPageFile', () => {
+    it('should write page fields first and keep other keys', () => {
+      const content = formatPageFile({
+        frontMatter: { owner: 'docs-team', title: 'Setup: Linux', pageId: '123', version: 2, labels: [] },
+        body: '\n# Setup\n',
+      });
+
+      expect(content).toBe('---\npageId: "123"\ntitle: "Setup: Linux"\nversion: 2\nowner: docs-team\n---\n\n# Setup\n');
+    });
+
+    it('should round-trip through parsePageFile', () => {
+      const file = {
+        frontMatter: { pageId: '123', title: 'Setup', version: 2, spaceKey: 'DOCS', parentId: '100', labels: ['a'] },
+        body: 'Body\n',
+      };
+
+      expect(parsePageFile(formatPageFile(file))).toEqual(file);
+    });
+  });
+
+  describe('slugify', () => {
+    it('should lower-case titles and join words with hyphens', () => {
+      expect(slugify('Getting Started: Install & Configure')).toBe('getting-started-install-configure');
+    });
+
+    it('should keep non-Latin letters', () => {
+      expect(slugify('Überblick — Données')).toBe('überblick-données');
+    });
+
+    it('should return an empty string for titles without letters or digits', () => {
+      expect(slugify('???')).toBe('');
+    });
+  });
+
+  describe('pageContentHash', () => {
+    it('should change with the title, the body and referenced images', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conni-docs-'));
+      const file = path.join(tmpDir, 'page.md');
+      fs.writeFileSync(path.join(tmpDir, 'logo.png'), 'v1');
+      const body = 'Logo: ![logo](logo.png)\n';
+
+      const original = pageContentHash(file, 'Page', body);
+      expect(pageContentHash(file, 'Page', `\n${body}\n`)).toBe(original);
+      expect(pageContentHash(file, 'Renamed', body)).not.toBe(original);
+      expect(pageContentHash(file, 'Page', 'Logo\n')).not.toBe(original);
+      fs.writeFileSync(path.join(tmpDir, 'logo.png'), 'v2');
+      expect(pageContentHash(file, 'Page', body)).not.toBe(original);
+
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import { localReferences, markdownToStorage } from '../../../src/utils/markdown.js';
+
+describe('markdown', () => {
+  describe('markdownToStorage', () => {
+    it('should convert headings, paragraphs and inline formatting', () => {
+      expect(markdownToStorage('## Setup & use\n\nRun `npm i`, *then* ~~skip~~ **this**.')).toBe(
+        '<h2>Setup &amp; use</h2>\n<p>Run <code>npm i</code>, <em>then</em> <s>skip</s> <strong>this</strong>.</p>'
+      );
+    });
+
+    it('should emit self-closing line breaks and rules', () => {
+      expect(markdownToStorage('one  \ntwo\n\n---')).toBe('<p>one<br />two</p>\n<hr />');
+    });
+
+    it('should convert tables with alignment', () => {
+      expect(markdownToStorage('| Name | Size |\n|------|-----:|\n| a | 1 |')).toBe(
+        '<table><tbody><tr><th>Name</th><th style="text-align: right;">Size</th></tr>' +
+          '<tr><td>a</td><td style="text-align: right;">1</td></tr></tbody></table>'
+      );
+    });
+
+    it('should convert task lists to Confluence tasks', () => {
+      expect(markdownToStorage('- [ ] write docs\n- [x] ship **it**')).toBe(
+        '<ac:task-list>' +
+          '<ac:task><ac:task-status>incomplete</ac:task-status><ac:task-body>write docs</ac:task-body></ac:task>' +
+          '<ac:task><ac:task-status>complete</ac:task-status><ac:task-body>ship <strong>it</strong></ac:task-body></ac:task>' +
+          '</ac:task-list>'
+      );
+    });
+
+    it('should keep checkboxes as text in lists mixing tasks and plain items', () => {
+      expect(markdownToStorage('- plain\n- [x] done')).toBe('<ul>\n<li>plain</li>\n<li>[x] done</li>\n</ul>');
+    });
+
+    it('should convert fenced code blocks to the code macro', () => {
+      expect(markdownToStorage('```typescript\nconst a = 1 < 2;\n```')).toBe(
+        '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">typescript</ac:parameter>' +
+          '<ac:plain-text-body><![CDATA[const a = 1 < 2;]]></ac:plain-text-body></ac:structured-macro>'
+      );
+    });
+
+    it('should split CDATA terminators inside code', () => {
+      expect(markdownToStorage('```\na]]>b\n```')).toContain('<![CDATA[a]]]]><![CDATA[>b]]>');
+    });
+
+    it('should convert admonitions to panels', () => {
+      expect(markdownToStorage('> [!NOTE]\n> Read *this*.')).toBe(
+        '<ac:structured-macro ac:name="info"><ac:rich-text-body><p>Read <em>this</em>.</p>\n' +
+          '</ac:rich-text-body></ac:structured-macro>'
+      );
+      expect(markdownToStorage('> [!warning] Data loss\n> Back up first.')).toBe(
+        '<ac:structured-macro ac:name="warning"><ac:parameter ac:name="title">Data loss</ac:parameter>' +
+          '<ac:rich-text-body><p>Back up first.</p>\n</ac:rich-text-body></ac:structured-macro>'
+      );
+    });
+
+    it('should keep ordinary block quotes', () => {
+      expect(markdownToStorage('> quoted')).toBe('<blockquote><p>quoted</p>\n</blockquote>');
+    });
+
+    it('should reference relative images as attachments and absolute ones by URL', () => {
+      expect(markdownToStorage('![Flow](img/flow%20chart.png)')).toBe(
+        '<p><ac:image ac:alt="Flow"><ri:attachment ri:filename="flow chart.png" /></ac:image></p>'
+      );
+      expect(markdownToStorage('![Logo](https://example.com/logo.png "Our logo")')).toBe(
+        '<p><ac:image ac:alt="Logo" ac:title="Our logo"><ri:url ri:value="https://example.com/logo.png" /></ac:image></p>'
+      );
+    });
+  });
+
+  describe('markdownToStorage with a link resolver', () => {
+    it('should turn resolved relative links into page and attachment links', () => {
+      const storage = markdownToStorage(
+        '[*Setup*](setup.md#install), [spec](spec.pdf), [gone](gone.md), [web](https://x.io)',
+        {
+          resolveLink: href =>
+            href.startsWith('setup.md')
+              ? { type: 'page', title: 'Setup & Install' }
+              : href === 'spec.pdf'
+                ? { type: 'attachment', filename: 'spec.pdf' }
+                : undefined,
+        }
+      );
+
+      expect(storage).toBe(
+        '<p><ac:link><ri:page ri:content-title="Setup &amp; Install" /><ac:link-body><em>Setup</em></ac:link-body></ac:link>, ' +
+          '<ac:link><ri:attachment ri:filename="spec.pdf" /><ac:link-body>spec</ac:link-body></ac:link>, ' +
+          '<a href="gone.md">gone</a>, <a href="https://x.io">web</a></p>'
+      );
+    });
+  });
+
+  describe('localReferences', () => {
+    it('should list relative link and image paths without anchors', () => {
+      expect(
+        localReferences(
+          '[a](guide/a.md#top) [b](guide/a.md) ![c](img/flow%20chart.png) [d](#here) [e](https://x.io) ![f](/abs.png)'
+        )
+      ).toEqual({ links: ['guide/a.md'], images: ['img/flow chart.png'] });
+    });
+  });
+});
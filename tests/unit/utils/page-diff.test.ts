@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffText, storageLines } from '../../../src/utils/page-diff.js';
+
+describe('page-diff', () => {
+  describe('storageLines', () => {
+    it('should put each block on its own line', () => {
+      expect(storageLines('<h1>T</h1><p>a<br/>b</p><ul><li>x</li></ul>')).toBe(
+        '<h1>T</h1>\n<p>a<br/>\nb</p>\n<ul><li>x</li>\n</ul>\n'
+      );
+    });
+
+    it('should keep existing line breaks', () => {
+      expect(storageLines('<p>a</p>\n<p>b</p>')).toBe('<p>a</p>\n<p>b</p>\n');
+    });
+  });
+
+  describe('diffText', () => {
+    it('should produce a unified diff without the separator line', () => {
+      expect(diffText('line', 'a\nb\n', 'a\nc\n', 'old', 'new')).toBe(
+        ['--- old', '+++ new', '@@ -1,2 +1,2 @@', ' a', '-b', '+c'].join('\n')
+      );
+    });
+
+    it('should show only the changed lines of a word diff', () => {
+      expect(diffText('word', 'same\nthe old text\n', 'same\nthe new text\n', 'old', 'new')).toBe(
+        ['--- old', '+++ new', 'the [-old-]{+new+} text'].join('\n')
+      );
+    });
+
+    it('should be empty for equal texts', () => {
+      expect(diffText('line', 'a', 'a', 'old', 'new')).toBe('');
+      expect(diffText('word', 'a', 'a', 'old', 'new')).toBe('');
+    });
+  });
+});
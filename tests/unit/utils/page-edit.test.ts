@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyPageEdit } from '../../../src/utils/page-edit.js';
+
+describe('page-edit', () => {
+  const page =
+    '<h1>Release notes</h1><p>Intro</p>' +
+    '<h2>Changelog</h2><ul><li>1.0</li></ul><h3>Older</h3><p>0.9</p>' +
+    '<h2>Known &amp; issues</h2><p>None</p>';
+
+  it('should append and prepend content', () => {
+    expect(applyPageEdit('<p>a</p>', { operation: 'append', content: '<p>b</p>' })).toBe('<p>a</p><p>b</p>');
+    expect(applyPageEdit('<p>a</p>', { operation: 'prepend', content: '<p>b</p>' })).toBe('<p>b</p><p>a</p>');
+  });
+
+  it('should replace a section up to the next heading of the same level', () => {
+    const edited = applyPageEdit(page, { operation: 'replace-section', heading: 'changelog', content: '<p>New</p>' });
+
+    expect(edited).toBe(
+      '<h1>Release notes</h1><p>Intro</p><h2>Changelog</h2><p>New</p><h2>Known &amp; issues</h2><p>None</p>'
+    );
+  });
+
+  it('should match headings by their decoded text', () => {
+    const edited = applyPageEdit(page, { operation: 'replace-section', heading: ' Known & Issues ', content: '' });
+
+    expect(edited).toMatch(/<h2>Known &amp; issues<\/h2>$/);
+  });
+
+  it('should end a section at the end of its container', () => {
+    const storage =
+      '<ac:layout-cell><h2>Status</h2><p>Green</p></ac:layout-cell><ac:layout-cell><p>Other</p></ac:layout-cell>';
+
+    expect(applyPageEdit(storage, { operation: 'replace-section', heading: 'Status', content: '<p>Red</p>' })).toBe(
+      '<ac:layout-cell><h2>Status</h2><p>Red</p></ac:layout-cell><ac:layout-cell><p>Other</p></ac:layout-cell>'
+    );
+  });
+
+  it('should insert content after a heading', () => {
+    const edited = applyPageEdit(page, {
+      operation: 'insert-after-heading',
+      heading: 'Changelog',
+      content: '<p>1.1</p>',
+    });
+
+    expect(edited).toContain('<h2>Changelog</h2><p>1.1</p><ul>');
+  });
+
+  it('should reject missing and ambiguous headings', () => {
+    expect(() => applyPageEdit(page, { operation: 'insert-after-heading', heading: 'FAQ', content: '' })).toThrow(
+      'Heading not found: "FAQ"'
+    );
+    expect(() =>
+      applyPageEdit('<h2>A</h2><h3>A</h3>', { operation: 'insert-after-heading', heading: 'A', content: '' })
+    ).toThrow('Heading "A" appears 2 times');
+    expect(() => applyPageEdit(page, { operation: 'replace-section', content: '' })).toThrow(
+      '"heading" is required for replace-section'
+    );
+  });
+
+  it('should replace every match of a regular expression', () => {
+    const edited = applyPageEdit('<p>v1.0 and v1.2</p>', {
+      operation: 'find-replace',
+      find: 'v1\\.(\\d)',
+      replace: 'v2.$1',
+    });
+
+    expect(edited).toBe('<p>v2.0 and v2.2</p>');
+  });
+
+  it('should fail when the pattern does not match or is invalid', () => {
+    expect(() => applyPageEdit('<p>a</p>', { operation: 'find-replace', find: 'b' })).toThrow('Pattern not found: b');
+    expect(() => applyPageEdit('<p>a</p>', { operation: 'find-replace', find: '(' })).toThrow('Invalid pattern');
+  });
+});
@@ -0,0 +1,134 @@
+import type { ConfluenceClient } from 'confluence.js';
+import { describe, expect, it, vi } from 'vitest';
+
+import { copyPages, reorderChildren } from '../../../src/utils/page-move.js';
+
+describe('page-move', () => {
+  const mockClient = (children: Record<string, { id: string; title: string }[]>) => {
+    let copies = 0;
+    return {
+      contentChildrenAndDescendants: {
+        getContentChildrenByType: vi.fn(({ id }: { id: string }) => Promise.resolve({ results: children[id] ?? [] })),
+        copyPage: vi.fn(({ bodyParameters }: { bodyParameters: { pageTitle?: string } }) =>
+          Promise.resolve({ id: `copy${++copies}`, title: bodyParameters.pageTitle ?? 'Same title' })
+        ),
+        movePage: vi.fn().mockResolvedValue({}),
+      },
+      content: {
+        getContentById: vi.fn().mockResolvedValue({ id: '1', title: 'Home' }),
+      },
+    };
+  };
+
+  describe('copyPages', () => {
+    it('should copy a single page under a parent', async () => {
+      const client = mockClient({ '1': [{ id: '2', title: 'Guides' }] });
+
+      const copied = await copyPages(client as unknown as ConfluenceClient, '1', { parentId: '99' }, { labels: true });
+
+      expect(copied).toEqual([{ sourceId: '1', id: 'copy1', title: 'Same title' }]);
+      expect(client.contentChildrenAndDescendants.copyPage).toHaveBeenCalledWith({
+        id: '1',
+        destinationPageId: '99',
+        expand: [],
+        bodyParameters: {
+          copyAttachments: false,
+          copyLabels: true,
+          destination: { type: 'parent_page', value: '99' },
+          pageTitle: undefined,
+        },
+      });
+      expect(client.contentChildrenAndDescendants.getContentChildrenByType).not.toHaveBeenCalled();
+    });
+
+    it('should copy descendants under their copied parents with a title prefix and suffix', async () => {
+      const client = mockClient({
+        '1': [
+          { id: '2', title: 'Guides' },
+          { id: '4', title: 'FAQ' },
+        ],
+        '2': [{ id: '3', title: 'Install' }],
+      });
+
+      const copied = await copyPages(
+        client as unknown as ConfluenceClient,
+        '1',
+        { spaceKey: 'NEW' },
+        { recursive: true, titlePrefix: '[v2] ', titleSuffix: ' (draft)' }
+      );
+
+      expect(copied).toEqual([
+        { sourceId: '1', id: 'copy1', title: '[v2] Home (draft)' },
+        { sourceId: '2', id: 'copy2', title: '[v2] Guides (draft)' },
+        { sourceId: '3', id: 'copy3', title: '[v2] Install (draft)' },
+        { sourceId: '4', id: 'copy4', title: '[v2] FAQ (draft)' },
+      ]);
+      const destinations = client.contentChildrenAndDescendants.copyPage.mock.calls.map(
+        ([call]) => (call as { bodyParameters: { destination: unknown } }).bodyParameters.destination
+      );
+      expect(destinations).toEqual([
+        { type: 'space', value: 'NEW' },
+        { type: 'parent_page', value: 'copy1' },
+        { type: 'parent_page', value: 'copy2' },
+        { type: 'parent_page', value: 'copy1' },
+      ]);
+    });
+
+    it('should require a destination', async () => {
+      await expect(copyPages(mockClient({}) as unknown as ConfluenceClient, '1', {})).rejects.toThrow(
+        'Either parentId or spaceKey is required'
+      );
+    });
+  });
+
+  describe('reorderChildren', () => {
+    const children = {
+      '1': ['a', 'b', 'c', 'd'].map(id => ({ id, title: id.toUpperCase() })),
+    };
+
+    it('should move the listed children first and keep the others in order', async () => {
+      const client = mockClient(children);
+
+      const moves = await reorderChildren(client as unknown as ConfluenceClient, '1', ['c', 'a']);
+
+      // a b c d → c a b d
+      expect(moves).toBe(1);
+      expect(client.contentChildrenAndDescendants.movePage).toHaveBeenCalledWith({
+        pageId: 'c',
+        position: 'before',
+        targetId: 'a',
+      });
+    });
+
+    it('should move each page before the one in its place', async () => {
+      const client = mockClient(children);
+
+      const moves = await reorderChildren(client as unknown as ConfluenceClient, '1', ['d', 'c', 'b', 'a']);
+
+      expect(moves).toBe(3);
+      expect(client.contentChildrenAndDescendants.movePage.mock.calls.map(([call]) => call)).toEqual([
+        { pageId: 'd', position: 'before', targetId: 'a' },
+        { pageId: 'c', position: 'before', targetId: 'a' },
+        { pageId: 'b', position: 'before', targetId: 'a' },
+      ]);
+    });
+
+    it('should not move children already in order', async () => {
+      const client = mockClient(children);
+
+      expect(await reorderChildren(client as unknown as ConfluenceClient, '1', ['a', 'b'])).toBe(0);
+      expect(client.contentChildrenAndDescendants.movePage).not.toHaveBeenCalled();
+    });
+
+    it('should reject pages that are not children or are listed twice', async () => {
+      const client = mockClient(children);
+
+      await expect(reorderChildren(client as unknown as ConfluenceClient, '1', ['a', 'x'])).rejects.toThrow(
+        'Not children of page 1: x'
+      );
+      await expect(reorderChildren(client as unknown as ConfluenceClient, '1', ['a', 'a'])).rejects.toThrow(
+        'Each child page can be listed only once'
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import type { ConfluenceClient } from 'confluence.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { pageContentHash } from '../../../src/utils/local-docs.js';
+import { pullPages } from '../../../src/utils/page-pull.js';
+
+const page = (id: string, title: string, body: string, labels: string[] = []) => ({
+  id,
+  title,
+  version: { number: 3 },
+  body: { storage: { value: body } },
+  metadata: { labels: { results: labels.map(name => ({ name })) } },
+  space: { key: 'DOCS' },
+});
+
+describe('page-pull', () => {
+  let tmpDir: string;
+  let client: {
+    content: { getContentById: ReturnType<typeof vi.fn> };
+    space: { getContentByTypeForSpace: ReturnType<typeof vi.fn> };
+    contentChildrenAndDescendants: { getContentChildrenByType: ReturnType<typeof vi.fn> };
+    contentAttachments: { getAttachments: ReturnType<typeof vi.fn>; downloadAttachment: ReturnType<typeof vi.fn> };
+  };
+
+  const children: Record<string, unknown[]> = {
+    '1': [
+      page('2', 'Setup Guide', '<p>See <ac:link><ri:page ri:content-title="Home" /></ac:link>.</p>', ['howto']),
+      page('3', 'FAQ', '<p>Questions</p>'),
+    ],
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conni-pull-'));
+    client = {
+      content: {
+        getContentById: vi.fn().mockResolvedValue({
+          ...page(
+            '1',
+            'Home',
+            '<p><ac:image ac:alt="Logo"><ri:attachment ri:filename="logo.png" /></ac:image> ' +
+              '<ac:link><ri:page ri:content-title="FAQ" /></ac:link></p>'
+          ),
+          ancestors: [{ id: '99' }, { id: '100' }],
+        }),
+      },
+      space: { getContentByTypeForSpace: vi.fn().mockResolvedValue({ results: [page('1', 'Home', '')] }) },
+      contentChildrenAndDescendants: {
+        getContentChildrenByType: vi.fn(async ({ id }: { id: string }) => ({ results: children[id] ?? [] })),
+      },
+      contentAttachments: {
+        getAttachments: vi.fn(async ({ id }: { id: string }) => ({
+          results: id === '1' ? [{ id: 'att1', title: 'logo.png' }] : [],
+        })),
+        downloadAttachment: vi.fn().mockResolvedValue(Buffer.from('png')),
+      },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const pull = (options: { spaceKey?: string; rootPageId?: string; force?: boolean }) =>
+    pullPages(client as unknown as ConfluenceClient, { ...options, outputDir: tmpDir });
+
+  const read = (file: string) => fs.readFileSync(path.join(tmpDir, file), 'utf-8');
+
+  it('should write the page tree with front matter and relative links', async () => {
+    const pulled = await pull({ rootPageId: '1' });
+
+    expect(pulled.map(p => path.relative(tmpDir, p.path))).toEqual([
+      'home.md',
+      path.join('home', 'setup-guide.md'),
+      path.join('home', 'faq.md'),
+    ]);
+    const homeBody = '![Logo](home/_attachments/logo.png) [FAQ](home/faq.md)\n';
+    expect(read('home.md')).toBe(
+      '---\npageId: "1"\ntitle: Home\nversion: 3\nspaceKey: DOCS\nparentId: "100"\n' +
+        `contentHash: ${pageContentHash(path.join(tmpDir, 'home.md'), 'Home', homeBody)}\n---\n\n${homeBody}`
+    );
+    expect(read('home/setup-guide.md')).toMatch(
+      /^---\npageId: "2"\ntitle: Setup Guide\nversion: 3\nspaceKey: DOCS\nparentId: "1"\nlabels:\n {2}- howto\n/
+    );
+    expect(read('home/setup-guide.md')).toMatch(/\n---\n\nSee \[Home\]\(\.\.\/home\.md\)\.\n$/);
+  });
+
+  it('should download attachments next to the page', async () => {
+    const pulled = await pull({ rootPageId: '1' });
+
+    expect(client.contentAttachments.downloadAttachment).toHaveBeenCalledWith({ id: '1', attachmentId: 'att1' });
+    expect(read('home/_attachments/logo.png')).toBe('png');
+    expect(pulled[0].attachments).toBe(1);
+  });
+
+  it('should pull every root page of a space', async () => {
+    await pull({ spaceKey: 'DOCS' });
+
+    expect(client.space.getContentByTypeForSpace).toHaveBeenCalledWith(
+      expect.objectContaining({ spaceKey: 'DOCS', type: 'page', depth: 'root', start: 0 })
+    );
+    expect(fs.existsSync(path.join(tmpDir, 'home', 'faq.md'))).toBe(true);
+  });
+
+  it('should tell apart siblings whose titles have the same file name', async () => {
+    children['1'].push(page('4', 'faq', ''));
+
+    const pulled = await pull({ rootPageId: '1' });
+
+    expect(pulled.map(p => path.basename(p.path))).toContain('faq-4.md');
+    children['1'].pop();
+  });
+
+  it('should not overwrite files edited since the last pull unless forced', async () => {
+    await pull({ rootPageId: '1' });
+    const faq = path.join(tmpDir, 'home', 'faq.md');
+    fs.appendFileSync(faq, 'Local edit\n');
+
+    await expect(pull({ rootPageId: '1' })).rejects.toThrow(`Local changes would be overwritten in ${faq}`);
+    expect(read('home/faq.md')).toContain('Local edit');
+
+    await pull({ rootPageId: '1', force: true });
+    expect(read('home/faq.md')).not.toContain('Local edit');
+  });
+
+  it('should fetch children until a short page of results', async () => {
+    const full = Array.from({ length: 100 }, (_, i) => page(`c${i}`, `Child ${i}`, ''));
+    client.contentChildrenAndDescendants.getContentChildrenByType.mockImplementation(
+      async ({ id, start }: { id: string; start: number }) => ({
+        results: id === '1' ? (start === 0 ? full : [page('last', 'Last', '')]) : [],
+      })
+    );
+
+    const pulled = await pull({ rootPageId: '1' });
+
+    expect(pulled).toHaveLength(102);
+    expect(client.contentChildrenAndDescendants.getContentChildrenByType).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '1', start: 100 })
+    );
+  });
+});
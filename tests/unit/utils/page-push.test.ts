@@ -0,0 +1,241 @@
+import type { ConfluenceClient } from 'confluence.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { pageContentHash, parsePageFile } from '../../../src/utils/local-docs.js';
+import { pushPages } from '../../../src/utils/page-push.js';
+
+describe('page-push', () => {
+  let tmpDir: string;
+  let nextId: number;
+  let client: {
+    content: {
+      getContentById: ReturnType<typeof vi.fn>;
+      getContent: ReturnType<typeof vi.fn>;
+      createContent: ReturnType<typeof vi.fn>;
+      updateContent: ReturnType<typeof vi.fn>;
+    };
+    contentAttachments: { createOrUpdateAttachments: ReturnType<typeof vi.fn> };
+  };
+
+  const write = (file: string, content: string | Buffer): string => {
+    const filePath = path.join(tmpDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const push = (dryRun = false) =>
+    pushPages(client as unknown as ConfluenceClient, { sourceDir: tmpDir, parentId: '100', dryRun });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conni-push-'));
+    nextId = 500;
+    client = {
+      content: {
+        getContentById: vi.fn(async ({ id }: { id: string }) =>
+          id === '100' ? { id, space: { key: 'DOCS' } } : { id, title: 'Old', version: { number: 4 }, ancestors: [] }
+        ),
+        getContent: vi.fn().mockResolvedValue({ results: [] }),
+        createContent: vi.fn(async () => ({ id: String(nextId++), version: { number: 1 } })),
+        updateContent: vi.fn().mockResolvedValue({}),
+      },
+      contentAttachments: { createOrUpdateAttachments: vi.fn().mockResolvedValue({}) },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should map files and directories to a page tree', async () => {
+    write('guide.md', '# User Guide\n\nRead [the FAQ](guide/faq.md).\n');
+    write('guide/faq.md', '---\ntitle: FAQ\n---\n\nAsk away.\n');
+    write('api/README.md', 'API overview\n');
+    write('api/rest.md', 'REST\n');
+    write('_drafts/wip.md', 'skip me\n');
+
+    const plan = await push(true);
+
+    expect(plan.pages.map(page => [page.action, page.title, path.relative(tmpDir, page.path)])).toEqual([
+      ['create', 'User Guide', 'guide.md'],
+      ['create', 'FAQ', path.join('guide', 'faq.md')],
+      ['create', 'Api', path.join('api', 'README.md')],
+      ['create', 'Rest', path.join('api', 'rest.md')],
+    ]);
+    expect(plan.spaceKey).toBe('DOCS');
+    expect(plan.applied).toBe(false);
+    expect(client.content.createContent).not.toHaveBeenCalled();
+  });
+
+  it('should create pages in tree order with page links and record their IDs', async () => {
+    const guide = write('guide.md', '# User Guide\n\nRead [the FAQ](guide/faq.md).\n');
+    write('guide/faq.md', '---\ntitle: FAQ\n---\n\nAsk away.\n');
+
+    const plan = await push();
+
+    expect(plan.applied).toBe(true);
+    expect(client.content.createContent).toHaveBeenNthCalledWith(1, {
+      type: 'page',
+      title: 'User Guide',
+      space: { key: 'DOCS' },
+      ancestors: [{ id: '100' }],
+      body: {
+        storage: {
+          value:
+            '<p>Read <ac:link><ri:page ri:content-title="FAQ" /><ac:link-body>the FAQ</ac:link-body></ac:link>.</p>',
+          representation: 'storage',
+        },
+      },
+    });
+    expect(client.content.createContent).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ title: 'FAQ', ancestors: [{ id: '500' }] })
+    );
+
+    const { frontMatter, body } = parsePageFile(fs.readFileSync(guide, 'utf-8'));
+    expect(frontMatter).toEqual({
+      pageId: '500',
+      version: 1,
+      spaceKey: 'DOCS',
+      parentId: '100',
+      contentHash: pageContentHash(guide, 'User Guide', '\nRead [the FAQ](guide/faq.md).\n'),
+    });
+    expect(body).toBe('# User Guide\n\nRead [the FAQ](guide/faq.md).\n');
+  });
+
+  it('should upload referenced images and files as attachments', async () => {
+    write('img/flow chart.png', Buffer.from('png'));
+    write('files/spec.pdf', Buffer.from('pdf'));
+    write('setup.md', '![Flow](img/flow%20chart.png) [spec](files/spec.pdf) ![gone](img/missing.png)\n');
+
+    const plan = await push();
+
+    expect(plan.warnings).toEqual([`${path.join(tmpDir, 'setup.md')}: image not found: img/missing.png`]);
+    expect(client.content.createContent.mock.calls[0][0].body.storage.value).toContain(
+      '<ac:link><ri:attachment ri:filename="spec.pdf" /><ac:link-body>spec</ac:link-body></ac:link>'
+    );
+    expect(client.contentAttachments.createOrUpdateAttachments).toHaveBeenCalledWith({
+      id: '500',
+      attachments: [
+        { file: Buffer.from('png'), filename: 'flow chart.png', minorEdit: true },
+        { file: Buffer.from('pdf'), filename: 'spec.pdf', minorEdit: true },
+      ],
+    });
+  });
+
+  it('should skip pages whose content hash and parent are unchanged', async () => {
+    const file = path.join(tmpDir, 'faq.md');
+    write(
+      'faq.md',
+      `---\npageId: "42"\ntitle: FAQ\nversion: 4\ncontentHash: ${pageContentHash(file, 'FAQ', 'Ask.\n')}\n---\n\nAsk.\n`
+    );
+    client.content.getContentById.mockImplementation(async ({ id }: { id: string }) =>
+      id === '100'
+        ? { id, space: { key: 'DOCS' } }
+        : { id, title: 'FAQ', version: { number: 4 }, ancestors: [{ id: '1' }, { id: '100' }] }
+    );
+
+    const plan = await push();
+
+    expect(plan.pages[0]).toMatchObject({ action: 'unchanged', pageId: '42' });
+    expect(client.content.updateContent).not.toHaveBeenCalled();
+  });
+
+  it('should update changed pages on top of the current version', async () => {
+    const file = write('faq.md', '---\npageId: "42"\ntitle: FAQ\nversion: 4\ncontentHash: stale\n---\n\nAsk.\n');
+
+    const plan = await push();
+
+    expect(plan.pages[0]).toMatchObject({ action: 'update', pageId: '42' });
+    expect(client.content.updateContent).toHaveBeenCalledWith({
+      id: '42',
+      type: 'page',
+      title: 'FAQ',
+      ancestors: [{ id: '100' }],
+      version: { number: 5 },
+      body: { storage: { value: '<p>Ask.</p>', representation: 'storage' } },
+    });
+    expect(parsePageFile(fs.readFileSync(file, 'utf-8')).frontMatter.version).toBe(5);
+  });
+
+  it('should not overwrite pages changed in Confluence unless forced', async () => {
+    write('faq.md', '---\npageId: "42"\ntitle: FAQ\nversion: 2\ncontentHash: stale\n---\n\nAsk.\n');
+
+    const plan = await push();
+
+    expect(plan.pages[0]).toMatchObject({
+      action: 'conflict',
+      pageId: '42',
+      reason: 'changed in Confluence since version 2',
+    });
+    expect(plan.applied).toBe(false);
+    expect(client.content.updateContent).not.toHaveBeenCalled();
+
+    const forced = await pushPages(client as unknown as ConfluenceClient, {
+      sourceDir: tmpDir,
+      parentId: '100',
+      force: true,
+    });
+
+    expect(forced.pages[0]).toMatchObject({ action: 'update', pageId: '42' });
+    expect(client.content.updateContent).toHaveBeenCalledWith(expect.objectContaining({ version: { number: 5 } }));
+  });
+
+  it('should adopt an existing page with the same title', async () => {
+    write('faq.md', '# FAQ\n\nAsk.\n');
+    client.content.getContent.mockResolvedValue({
+      results: [{ id: '77', title: 'FAQ', version: { number: 9 }, ancestors: [{ id: '100' }] }],
+    });
+
+    const plan = await push(true);
+
+    expect(client.content.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ spaceKey: 'DOCS', title: 'FAQ', type: 'page' })
+    );
+    expect(plan.pages[0]).toMatchObject({ action: 'update', pageId: '77' });
+  });
+
+  it('should not move a page with the same title from elsewhere in the space unless forced', async () => {
+    write('faq.md', '# FAQ\n\nAsk.\n');
+    client.content.getContent.mockResolvedValue({
+      results: [{ id: '77', title: 'FAQ', version: { number: 9 }, ancestors: [{ id: '300' }] }],
+    });
+
+    const plan = await push();
+
+    expect(plan.pages[0]).toMatchObject({
+      action: 'conflict',
+      pageId: '77',
+      reason: 'a page with this title is elsewhere in the space',
+    });
+    expect(client.content.updateContent).not.toHaveBeenCalled();
+
+    const forced = await pushPages(client as unknown as ConfluenceClient, {
+      sourceDir: tmpDir,
+      parentId: '100',
+      force: true,
+    });
+
+    expect(forced.pages[0]).toMatchObject({ action: 'update', pageId: '77' });
+    expect(client.content.updateContent).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '77', ancestors: [{ id: '100' }] })
+    );
+  });
+
+  it('should reject duplicate titles', async () => {
+    write('a.md', '# Same\n');
+    write('b.md', '# Same\n');
+
+    await expect(push(true)).rejects.toThrow('Duplicate title "Same"');
+  });
+
+  it('should report the page where a push stopped', async () => {
+    write('faq.md', 'Ask.\n');
+    client.content.createContent.mockRejectedValue(new Error('Permission denied'));
+
+    await expect(push()).rejects.toThrow(`Push stopped at ${path.join(tmpDir, 'faq.md')}: Permission denied`);
+  });
+});
@@ -0,0 +1,113 @@
+import type { ConfluenceClient } from 'confluence.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { pageContentHash } from '../../../src/utils/local-docs.js';
+import { syncDiff, syncStatus } from '../../../src/utils/page-sync.js';
+
+describe('page-sync', () => {
+  let tmpDir: string;
+  let remote: Record<string, { title: string; version: number; body: string }>;
+  let client: { content: { getContentById: ReturnType<typeof vi.fn> } };
+
+  /** Write a page file as pull leaves it, then optionally edit its body */
+  const writePage = (file: string, pageId: string, version: number, body: string, editedBody?: string): string => {
+    const filePath = path.join(tmpDir, file);
+    const title = path.basename(file, '.md').toUpperCase();
+    const hash = pageContentHash(filePath, title, body);
+    fs.writeFileSync(
+      filePath,
+      `---\npageId: "${pageId}"\ntitle: ${title}\nversion: ${version}\ncontentHash: ${hash}\n---\n\n${editedBody ?? body}`
+    );
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conni-sync-'));
+    remote = {
+      '1': { title: 'A', version: 3, body: '<p>Same</p>' },
+      '2': { title: 'B', version: 2, body: '<p>Before</p>' },
+      '3': { title: 'C', version: 5, body: '<p>Theirs</p>' },
+      '4': { title: 'D', version: 4, body: '<p>Theirs</p>' },
+    };
+    client = {
+      content: {
+        getContentById: vi.fn(async ({ id }: { id: string }) => {
+          const page = remote[id];
+          if (!page) {
+            throw Object.assign(new Error('Not Found'), { statusCode: 404 });
+          }
+          return { id, title: page.title, version: { number: page.version }, body: { storage: { value: page.body } } };
+        }),
+      },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should classify each page file', async () => {
+    writePage('a.md', '1', 3, 'Same\n');
+    writePage('b.md', '2', 2, 'Before\n', 'After\n');
+    writePage('c.md', '3', 4, 'Mine\n');
+    writePage('d.md', '4', 3, 'Before\n', 'Mine\n');
+    writePage('e.md', '9', 1, 'Gone\n');
+    fs.writeFileSync(path.join(tmpDir, 'f.md'), '# F\n\nNot pushed yet\n');
+
+    const statuses = await syncStatus(client as unknown as ConfluenceClient, tmpDir);
+
+    expect(statuses.map(status => [path.basename(status.path), status.state, status.remoteVersion])).toEqual([
+      ['a.md', 'unchanged', 3],
+      ['b.md', 'modified-locally', 2],
+      ['c.md', 'modified-remotely', 5],
+      ['d.md', 'conflicted', 4],
+      ['e.md', 'deleted-remotely', undefined],
+      ['f.md', 'new', undefined],
+    ]);
+  });
+
+  it('should rethrow errors other than a missing page', async () => {
+    writePage('a.md', '1', 3, 'Same\n');
+    client.content.getContentById.mockRejectedValue(new Error('Unauthorized'));
+
+    await expect(syncStatus(client as unknown as ConfluenceClient, tmpDir)).rejects.toThrow('Unauthorized');
+  });
+
+  it('should diff changed pages from the remote to the local body', async () => {
+    writePage('a.md', '1', 3, 'Same\n');
+    const b = writePage('b.md', '2', 2, 'Before\n', 'After\n');
+
+    const patches = await syncDiff(client as unknown as ConfluenceClient, tmpDir);
+
+    expect(patches).toEqual([
+      [`--- B (version 2)`, `+++ ${b} (modified-locally)`, '@@ -1,1 +1,1 @@', '-Before', '+After'].join('\n'),
+    ]);
+  });
+
+  it('should diff a single file', async () => {
+    writePage('b.md', '2', 2, 'Before\n', 'After\n');
+    writePage('c.md', '3', 4, 'Mine\n');
+
+    const patches = await syncDiff(client as unknown as ConfluenceClient, tmpDir, path.join(tmpDir, 'c.md'));
+
+    expect(patches).toHaveLength(1);
+    expect(patches[0]).toContain('-Theirs\n+Mine');
+    await expect(syncDiff(client as unknown as ConfluenceClient, tmpDir, 'nope.md')).rejects.toThrow(
+      `Not a page file in ${tmpDir}: nope.md`
+    );
+  });
+
+  it('should find a file by its relative or absolute path', async () => {
+    writePage('c.md', '3', 4, 'Mine\n');
+    const dir = path.relative(process.cwd(), tmpDir);
+
+    const [relative] = await syncDiff(client as unknown as ConfluenceClient, dir, `./${path.join(dir, 'c.md')}`);
+    const [absolute] = await syncDiff(client as unknown as ConfluenceClient, dir, path.join(tmpDir, 'c.md'));
+
+    expect(relative).toContain('-Theirs\n+Mine');
+    expect(absolute).toBe(relative);
+  });
+});
@@ -0,0 +1,145 @@
+import type { ConfluenceClient } from 'confluence.js';
+import { describe, expect, it, vi } from 'vitest';
+
+import { fetchAncestors, fetchDescendants, fetchTree, renderTree } from '../../../src/utils/page-tree.js';
+
+describe('page-tree', () => {
+  // Home -> Guides -> Install, and Home -> FAQ
+  const children: Record<string, { id: string; title: string }[]> = {
+    '1': [
+      { id: '2', title: 'Guides' },
+      { id: '4', title: 'FAQ' },
+    ],
+    '2': [{ id: '3', title: 'Install' }],
+  };
+
+  const mockClient = () => ({
+    contentChildrenAndDescendants: {
+      getContentChildrenByType: vi.fn(({ id }: { id: string }) => Promise.resolve({ results: children[id] ?? [] })),
+    },
+    space: {
+      getContentByTypeForSpace: vi.fn().mockResolvedValue({ results: [{ id: '1', title: 'Home' }] }),
+    },
+    content: {
+      getContentById: vi.fn().mockResolvedValue({
+        id: '3',
+        title: 'Install',
+        ancestors: [
+          { id: '1', title: 'Home', type: 'page' },
+          { id: '2', title: 'Guides', type: 'page' },
+        ],
+      }),
+    },
+  });
+
+  describe('fetchDescendants', () => {
+    it('should list descendants in tree order with their parent and depth', async () => {
+      const client = mockClient();
+
+      const descendants = await fetchDescendants(client as unknown as ConfluenceClient, '1');
+
+      expect(descendants).toEqual([
+        { id: '2', title: 'Guides', parentId: '1', depth: 1 },
+        { id: '3', title: 'Install', parentId: '2', depth: 2 },
+        { id: '4', title: 'FAQ', parentId: '1', depth: 1 },
+      ]);
+    });
+
+    it('should stop at the depth limit', async () => {
+      const client = mockClient();
+
+      const descendants = await fetchDescendants(client as unknown as ConfluenceClient, '1', 1);
+
+      expect(descendants.map(page => page.id)).toEqual(['2', '4']);
+      expect(client.contentChildrenAndDescendants.getContentChildrenByType).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch every page of children', async () => {
+      const client = mockClient();
+      const many = Array.from({ length: 100 }, (_, i) => ({ id: `c${i}`, title: `Child ${i}` }));
+      client.contentChildrenAndDescendants.getContentChildrenByType
+        .mockResolvedValueOnce({ results: many })
+        .mockResolvedValueOnce({ results: [{ id: 'last', title: 'Last' }] });
+
+      const descendants = await fetchDescendants(client as unknown as ConfluenceClient, '1', 1);
+
+      expect(descendants).toHaveLength(101);
+      expect(client.contentChildrenAndDescendants.getContentChildrenByType).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: '1', start: 100, limit: 100 })
+      );
+    });
+  });
+
+  describe('fetchAncestors', () => {
+    it('should list the ancestors from the top down', async () => {
+      const client = mockClient();
+
+      const ancestors = await fetchAncestors(client as unknown as ConfluenceClient, '3');
+
+      expect(client.content.getContentById).toHaveBeenCalledWith({ id: '3', expand: ['ancestors'] });
+      expect(ancestors).toEqual([
+        { id: '1', title: 'Home' },
+        { id: '2', title: 'Guides' },
+      ]);
+    });
+  });
+
+  describe('fetchTree', () => {
+    it('should build the tree of a space', async () => {
+      const client = mockClient();
+
+      const tree = await fetchTree(client as unknown as ConfluenceClient, { spaceKey: 'DOCS' });
+
+      expect(client.space.getContentByTypeForSpace).toHaveBeenCalledWith(
+        expect.objectContaining({ spaceKey: 'DOCS', type: 'page', depth: 'root' })
+      );
+      expect(tree).toEqual([
+        {
+          id: '1',
+          title: 'Home',
+          children: [
+            { id: '2', title: 'Guides', children: [{ id: '3', title: 'Install', children: [] }] },
+            { id: '4', title: 'FAQ', children: [] },
+          ],
+        },
+      ]);
+    });
+
+    it('should build the subtree of a page down to a depth', async () => {
+      const client = mockClient();
+      client.content.getContentById.mockResolvedValue({ id: '2', title: 'Guides', type: 'page' });
+
+      const tree = await fetchTree(client as unknown as ConfluenceClient, { pageId: '2', spaceKey: 'DOCS' }, 0);
+
+      expect(tree).toEqual([{ id: '2', title: 'Guides', children: [] }]);
+      expect(client.space.getContentByTypeForSpace).not.toHaveBeenCalled();
+    });
+
+    it('should require a space or page', async () => {
+      await expect(fetchTree(mockClient() as unknown as ConfluenceClient, {})).rejects.toThrow(
+        'Either spaceKey or pageId is required'
+      );
+    });
+  });
+
+  describe('renderTree', () => {
+    it('should draw the tree with connectors', () => {
+      expect(
+        renderTree([
+          {
+            id: '1',
+            title: 'Home',
+            children: [
+              { id: '2', title: 'Guides', children: [{ id: '3', title: 'Install', children: [] }] },
+              { id: '4', title: 'FAQ', children: [] },
+            ],
+          },
+        ])
+      ).toBe(['Home (1)', '├── Guides (2)', '│   └── Install (3)', '└── FAQ (4)'].join('\n'));
+    });
+
+    it('should be empty for an empty tree', () => {
+      expect(renderTree([])).toBe('');
+    });
+  });
+});
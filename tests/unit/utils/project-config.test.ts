@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { findProjectConfig, loadProjectConfig } from '../../../src/utils/project-config.js';
+
+describe('project-config', () => {
+  let tmpDir: string;
+  let nestedDir: string;
+
+  const writeProjectConfig = (content: string): string => {
+    const filePath = path.join(tmpDir, '.connicli.yaml');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'conni-project-')));
+    nestedDir = path.join(tmpDir, 'docs', 'guides');
+    fs.mkdirSync(nestedDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('findProjectConfig', () => {
+    it('should find the file in a parent directory', () => {
+      const filePath = writeProjectConfig('spaceKey: DOCS\n');
+
+      expect(findProjectConfig(nestedDir)).toBe(filePath);
+    });
+
+    it('should prefer the nearest file', () => {
+      writeProjectConfig('spaceKey: DOCS\n');
+      const nearest = path.join(nestedDir, '.connicli.yaml');
+      fs.writeFileSync(nearest, 'spaceKey: GUIDES\n');
+
+      expect(findProjectConfig(nestedDir)).toBe(nearest);
+    });
+
+    it('should return undefined when no directory has one', () => {
+      const existsSyncSpy = vi.spyOn(fs, 'existsSync').mockReturnValue(false);
+
+      expect(findProjectConfig(nestedDir)).toBeUndefined();
+      expect(existsSyncSpy).toHaveBeenCalledWith(path.join(path.parse(nestedDir).root, '.connicli.yaml'));
+    });
+  });
+
+  describe('loadProjectConfig', () => {
+    it('should read the project settings', () => {
+      const filePath = writeProjectConfig('spaceKey: DOCS\nparentId: 123456\nformat: toon\nprofile: work\n');
+
+      expect(loadProjectConfig(nestedDir)).toEqual({
+        path: filePath,
+        spaceKey: 'DOCS',
+        parentId: '123456',
+        format: 'toon',
+        profile: 'work',
+      });
+    });
+
+    it('should accept an empty file', () => {
+      const filePath = writeProjectConfig('# nothing yet\n');
+
+      expect(loadProjectConfig(nestedDir)).toEqual({ path: filePath });
+    });
+
+    it('should reject credentials', () => {
+      writeProjectConfig('spaceKey: DOCS\napi_token: secret\n');
+
+      expect(() => loadProjectConfig(nestedDir)).toThrow(
+        'api_token must not be stored in a project config; keep credentials in ~/.connicli'
+      );
+    });
+
+    it('should report every invalid value', () => {
+      writeProjectConfig('spaceKey: ""\nformat: xml\n');
+
+      expect(() => loadProjectConfig(nestedDir)).toThrow(
+        `spaceKey must be a non-empty string; format must be 'json' or 'toon'`
+      );
+    });
+
+    it('should reject malformed YAML', () => {
+      writeProjectConfig('spaceKey: [DOCS\n');
+
+      expect(() => loadProjectConfig(nestedDir)).toThrow(/^Cannot read .*\.connicli\.yaml/);
+    });
+
+    it('should reject a file that is not a mapping', () => {
+      writeProjectConfig('- DOCS\n');
+
+      expect(() => loadProjectConfig(nestedDir)).toThrow('expected a mapping of settings');
+    });
+
+    it('should warn about unknown keys', () => {
+      writeProjectConfig('spaceKey: DOCS\nspace: DOCS\n');
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(loadProjectConfig(nestedDir)?.spaceKey).toBe('DOCS');
+      expect(consoleWarnSpy).toHaveBeenCalledWith(' - Unknown key: space');
+    });
+
+    it('should collect warnings instead of logging them when asked', () => {
+      writeProjectConfig('space: DOCS\n');
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const warnings: string[] = [];
+
+      loadProjectConfig(nestedDir, warnings);
+
+      expect(warnings).toEqual(['Unknown key: space']);
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+
+import { storageToMarkdown, storageToText } from '../../../src/utils/storage-to-markdown.js';
+
+describe('storage-to-markdown', () => {
+  describe('storageToMarkdown', () => {
+    it('should convert headings, paragraphs and inline formatting', () => {
+      const { content } = storageToMarkdown(
+        '<h1>Intro &amp; scope</h1><p>Some <strong>bold </strong>and <em>em</em>, <s>old</s> <code>npm i</code>.<br/>Next</p>'
+      );
+
+      expect(content).toBe('# Intro & scope\n\nSome **bold** and *em*, ~~old~~ `npm i`.\\\nNext');
+    });
+
+    it('should escape Markdown characters in text', () => {
+      expect(storageToMarkdown('<p>a *b* [c] &lt;div&gt; snake_case _x_</p>').content).toBe(
+        'a \\*b\\* \\[c\\] \\<div> snake_case \\_x\\_'
+      );
+    });
+
+    it('should convert nested and ordered lists', () => {
+      const { content } = storageToMarkdown(
+        '<ul><li>one</li><li><p>two</p><ul><li>nested</li></ul></li></ul><ol start="3"><li>three</li></ol>'
+      );
+
+      expect(content).toBe('- one\n- two\n  - nested\n\n3. three');
+    });
+
+    it('should convert task lists', () => {
+      const { content } = storageToMarkdown(
+        '<ac:task-list><ac:task><ac:task-id>1</ac:task-id><ac:task-status>complete</ac:task-status>' +
+          '<ac:task-body>done</ac:task-body></ac:task><ac:task><ac:task-status>incomplete</ac:task-status>' +
+          '<ac:task-body>todo</ac:task-body></ac:task></ac:task-list>'
+      );
+
+      expect(content).toBe('- [x] done\n- [ ] todo');
+    });
+
+    it('should convert tables, escaping pipes and joining cell paragraphs', () => {
+      const { content } = storageToMarkdown(
+        '<table><tbody><tr><th>A</th><th>B</th></tr><tr><td><p>1|2</p><p>more</p></td></tr></tbody></table>'
+      );
+
+      expect(content).toBe('| A | B |\n| --- | --- |\n| 1\\|2<br>more |  |');
+    });
+
+    it('should convert the code macro to a fenced block', () => {
+      const { content } = storageToMarkdown(
+        '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">js</ac:parameter>' +
+          '<ac:plain-text-body><![CDATA[if (a < b) {\n  run();\n}]]></ac:plain-text-body></ac:structured-macro>'
+      );
+
+      expect(content).toBe('```js\nif (a < b) {\n  run();\n}\n```');
+    });
+
+    it('should convert panels to admonitions', () => {
+      const { content } = storageToMarkdown(
+        '<ac:structured-macro ac:name="warning"><ac:parameter ac:name="title">Careful</ac:parameter>' +
+          '<ac:rich-text-body><p>Back up.</p><p>Really.</p></ac:rich-text-body></ac:structured-macro>'
+      );
+
+      expect(content).toBe('> [!WARNING] Careful\n> Back up.\n>\n> Really.');
+    });
+
+    it('should render expand, status, Jira and TOC macros', () => {
+      const { content, links } = storageToMarkdown(
+        '<ac:structured-macro ac:name="toc" />' +
+          '<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">Details</ac:parameter>' +
+          '<ac:rich-text-body><p>Hidden</p></ac:rich-text-body></ac:structured-macro>' +
+          '<p>State: <ac:structured-macro ac:name="status"><ac:parameter ac:name="title">Done</ac:parameter>' +
+          '</ac:structured-macro> in <ac:structured-macro ac:name="jira"><ac:parameter ac:name="key">ABC-1</ac:parameter>' +
+          '</ac:structured-macro></p>'
+      );
+
+      expect(content).toBe(
+        '[TOC]\n\n<details>\n<summary>Details</summary>\n\nHidden\n\n</details>\n\nState: **[DONE]** in ABC-1'
+      );
+      expect(links).toEqual(['jira: ABC-1']);
+    });
+
+    it('should leave a comment for macros without a body', () => {
+      expect(storageToMarkdown('<ac:structured-macro ac:name="gadget" />').content).toBe('<!-- gadget macro -->');
+    });
+
+    it('should collect links to URLs, pages and attachments', () => {
+      const { content, links } = storageToMarkdown(
+        '<p><a href="https://example.com">site</a>, <ac:link><ri:page ri:content-title="Home" />' +
+          '<ac:plain-text-link-body><![CDATA[home page]]></ac:plain-text-link-body></ac:link> and ' +
+          '<ac:image ac:alt="Flow"><ri:attachment ri:filename="flow chart.png" /></ac:image></p>'
+      );
+
+      expect(content).toBe('[site](https://example.com), home page and ![Flow](flow%20chart.png)');
+      expect(links).toEqual(['https://example.com', 'page: Home']);
+    });
+
+    it('should link pages and attachments by path when resolvers are given', () => {
+      const { content } = storageToMarkdown(
+        '<p><ac:link><ri:page ri:content-title="Setup Guide" /></ac:link>, ' +
+          '<ac:link><ri:page ri:space-key="OTHER" ri:content-title="Elsewhere" /></ac:link>, ' +
+          '<ac:link><ri:attachment ri:filename="spec.pdf" /></ac:link> ' +
+          '<ac:image ac:alt="Flow"><ri:attachment ri:filename="flow chart.png" /></ac:image></p>',
+        {
+          attachmentPath: filename => `home/_attachments/${filename}`,
+          pagePath: (title, spaceKey) => (spaceKey ? undefined : `${title.toLowerCase().replace(' ', '-')}.md`),
+        }
+      );
+
+      expect(content).toBe(
+        '[Setup Guide](setup-guide.md), Elsewhere, [spec.pdf](home/_attachments/spec.pdf) ' +
+          '![Flow](home/_attachments/flow%20chart.png)'
+      );
+    });
+  });
+
+  describe('storageToText', () => {
+    it('should strip formatting and keep structure', () => {
+      const { content } = storageToText(
+        '<h2>Setup</h2><p>Run <code>npm i</code> from <a href="https://example.com">the site</a>.</p>' +
+          '<ul><li>one</li></ul><table><tbody><tr><th>A</th><th>B</th></tr></tbody></table>' +
+          '<ac:structured-macro ac:name="info"><ac:rich-text-body><p>Heads up</p></ac:rich-text-body></ac:structured-macro>'
+      );
+
+      expect(content).toBe(
+        'Setup\n\nRun npm i from the site (https://example.com).\n\n- one\n\nA\tB\n\nInfo:\nHeads up'
+      );
+    });
+  });
+});